@@ -12,6 +12,10 @@ import themeRoutes from './routes/theme.routes';
 import tagRoutes from './routes/tag.routes';
 import analyticsRoutes from './routes/analytics.routes';
 import { cronJobManager } from './services/cron.service';
+import { uploadDispatcher } from './uploaders/upload.dispatcher';
+import { browserPool } from './services/browser.pool';
+import { loginSessions } from './services/login.sessions';
+import { ThemeService } from './services/theme.service';
 
 // 创建 Express 应用
 const app = express();
@@ -22,7 +26,7 @@ app.use(cors({
   credentials: true,
 }));
 
-app.use(express.json());
+app.use(express.json({ limit: '10mb' }));  // 导入的 storageState 可能包含较大的 localStorage
 app.use(express.urlencoded({ extended: true }));
 
 // Swagger 文档
@@ -90,6 +94,24 @@ app.listen(config.port, async () => {
   console.log(`📁 Temp: ${config.tempDir}`);
   console.log(`📂 Outputs: ${config.outputsDir}`);
   
+  // 批量发布的视频发布成功后自动归档（先于恢复中断任务订阅，恢复时的状态变化同样触发归档）
+  const themeService = new ThemeService();
+  themeService.startAutoArchive();
+  
+  // 处理上次运行时被中断的上传任务
+  try {
+    await uploadDispatcher.recoverInterruptedTasks();
+  } catch (error) {
+    console.error('❌ 恢复中断的上传任务失败:', error);
+  }
+  
+  // 归档服务停止期间已结束的任务的视频
+  try {
+    await themeService.archiveFinishedTasks();
+  } catch (error) {
+    console.error('❌ 归档已发布的视频失败:', error);
+  }
+  
   // 初始化定时任务
   await cronJobManager.initializeJobs();
 });
@@ -98,13 +120,13 @@ app.listen(config.port, async () => {
 process.on('SIGTERM', () => {
   console.log('\n🛑 收到 SIGTERM 信号，准备关闭...');
   cronJobManager.stopAll();
-  process.exit(0);
+  Promise.allSettled([browserPool.closeAll(), loginSessions.closeAll()]).finally(() => process.exit(0));
 });
 
 process.on('SIGINT', () => {
   console.log('\n🛑 收到 SIGINT 信号，准备关闭...');
   cronJobManager.stopAll();
-  process.exit(0);
+  Promise.allSettled([browserPool.closeAll(), loginSessions.closeAll()]).finally(() => process.exit(0));
 });
 
 export default app;
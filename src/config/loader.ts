@@ -1,6 +1,89 @@
 import fs from 'fs';
 import path from 'path';
 
+/**
+ * 上传失败重试策略
+ */
+export interface UploadRetryPolicy {
+  maxRetries: number;        // 最大自动重试次数
+  baseDelaySeconds: number;  // 首次重试等待时间
+  maxDelaySeconds: number;   // 最长等待时间
+  multiplier: number;        // 每次重试等待时间的倍数
+}
+
+/**
+ * 账号发布限制（未设置的项不限制）
+ */
+export interface PublishQuota {
+  maxDailyUploads?: number;            // 每日最多发布数
+  minPublishIntervalMinutes?: number;  // 两次发布最小间隔（分钟）
+  maxConcurrentUploads?: number;       // 同时上传数
+}
+
+/**
+ * 发布后确认策略
+ */
+export interface UploadVerificationPolicy {
+  waitSeconds: number;           // 上传器点击发布后在作品列表中等待确认的时间
+  pollIntervalSeconds: number;   // 上传器查询作品列表的间隔
+  matchTimeoutMinutes: number;   // 提交发布后多久仍未在作品列表中找到视频视为失败
+  reviewTimeoutHours: number;    // 审核超过多久视为失败
+}
+
+/**
+ * 视频转码配置
+ */
+export interface TranscodeProfile {
+  videoCodec: 'h264' | 'hevc';       // 目标视频编码
+  maxWidth: number;                  // 目标画面宽（竖屏，如 1080）
+  maxHeight: number;                 // 目标画面高（竖屏，如 1920）
+  videoBitrateKbps: number;          // 目标视频码率
+  audioBitrateKbps: number;          // 目标音频码率
+  fps?: number;                      // 输出固定帧率（修正手机拍摄的可变帧率）
+  aspect: 'keep' | 'pad' | 'crop';   // 保持比例（只限制分辨率）/ 补黑边到目标画面 / 裁剪到目标画面
+  loudnorm: boolean;                 // 是否做响度标准化
+  targetLoudness?: number;           // 目标响度（LUFS）
+}
+
+/**
+ * 模拟平台上传规则
+ */
+export interface MockUploadRules {
+  stepDelayMs: number;        // 每个进度阶段的耗时（毫秒）
+  failureRate: number;        // 随机失败概率 (0-1)
+  failTitleKeyword?: string;  // 标题包含该关键词时上传失败
+  failFirstAttempts: number;  // 每个任务前 N 次执行失败（用于测试重试）
+}
+
+/**
+ * 浏览器池配置
+ */
+export interface BrowserPoolOptions {
+  maxBrowsers: number;             // 最多同时运行的浏览器数
+  maxContextsPerBrowser: number;   // 每个浏览器最多保留的账号上下文数
+  idleTimeoutSeconds: number;      // 空闲多久后关闭上下文/浏览器
+  acquireTimeoutSeconds: number;   // 等待可用浏览器的最长时间
+  headless: boolean;               // 是否以无头模式运行（所有账号、所有操作使用同一模式）
+}
+
+/**
+ * 登录会话配置
+ */
+export interface LoginSessionOptions {
+  idleTimeoutMinutes: number;  // 登录会话无操作多久后关闭浏览器
+}
+
+/**
+ * 代理池中的代理
+ */
+export interface ProxyPoolEntry {
+  name: string;        // 代理名称（账号按名称记录分配到的代理）
+  server: string;      // 如 http://127.0.0.1:7890、socks5://127.0.0.1:1080
+  username?: string;
+  password?: string;
+  bypass?: string;
+}
+
 /**
  * 配置文件接口
  */
@@ -24,6 +107,7 @@ export interface AppConfig {
       enabled: boolean;
       cron: string;
       comment: string;
+      expiringWithinHours?: number;  // 登录在多少小时内过期时提醒重新登录
     };
     createSnapshots: {
       enabled: boolean;
@@ -35,6 +119,59 @@ export interface AppConfig {
       cron: string;
       comment: string;
     };
+    loginSessions?: Partial<LoginSessionOptions>;
+    cookieExport?: {
+      token?: string;  // 导出 Cookie 需要的令牌（环境变量 SPO_COOKIE_EXPORT_TOKEN 优先），未配置时禁止导出
+    };
+  };
+  uploads?: {
+    dispatchTasks: {
+      enabled: boolean;
+      cron: string;
+      comment: string;
+      maxConcurrent?: number;  // 同时执行的上传任务数
+    };
+    verifyTasks?: Partial<UploadVerificationPolicy> & {
+      enabled: boolean;
+      cron: string;
+      comment: string;
+    };
+    intervention?: {
+      timeoutMinutes?: number;        // 等待人工处理验证码、短信验证的最长时间
+      pollIntervalSeconds?: number;   // 检查验证弹窗是否已处理的间隔
+    };
+    retry?: {
+      default: UploadRetryPolicy;
+      platforms?: Record<string, Partial<UploadRetryPolicy>>;  // 按平台覆盖
+    };
+    quotas?: {
+      default: PublishQuota;
+      platforms?: Record<string, PublishQuota>;  // 按平台覆盖
+    };
+    transcode?: {
+      enabled: boolean;
+      cacheRetentionHours?: number;  // 转码缓存保留时间
+      default?: Partial<TranscodeProfile>;
+      platforms?: Record<string, Partial<TranscodeProfile>>;  // 按平台覆盖
+    };
+  };
+  browserPool?: Partial<BrowserPoolOptions>;
+  proxyPool?: {
+    proxies: ProxyPoolEntry[];
+    healthCheck?: {
+      enabled: boolean;
+      cron: string;
+      comment: string;
+      url?: string;             // 通过代理访问的检测地址
+      timeoutSeconds?: number;  // 检测超时时间
+    };
+  };
+  secrets?: {
+    keyFile?: string;  // 主密钥文件（环境变量 SPO_SECRET_KEY / SPO_SECRET_KEY_FILE 优先）
+  };
+  mockPlatform?: {
+    enabled: boolean;  // 是否启用模拟平台（可登录、出现在启用平台列表中）
+    upload?: Partial<MockUploadRules>;
   };
   features: {
     enableSwagger: boolean;
@@ -69,7 +69,7 @@ const swaggerOptions: swaggerJsdoc.Options = {
             id: { type: 'integer' },
             platform: { 
               type: 'string',
-              enum: ['douyin', 'bilibili', 'xiaohongshu', 'kuaishou', 'tencent', 'tiktok']
+              enum: ['douyin', 'bilibili', 'xiaohongshu', 'kuaishou', 'tencent', 'tiktok', 'mock']
             },
             accountName: { type: 'string' },
             accountId: { type: 'string', nullable: true },
@@ -80,6 +80,10 @@ const swaggerOptions: swaggerJsdoc.Options = {
             followersCount: { type: 'integer', nullable: true },
             totalFavorited: { type: 'integer', nullable: true },
             description: { type: 'string', nullable: true },
+            maxDailyUploads: { type: 'integer', nullable: true, description: '每日最多发布数（为空时使用平台默认值）' },
+            minPublishIntervalMinutes: { type: 'integer', nullable: true, description: '两次发布的最小间隔（分钟）' },
+            maxConcurrentUploads: { type: 'integer', nullable: true, description: '同时上传的最大任务数' },
+            cookieExpiresAt: { type: 'string', format: 'date-time', nullable: true, description: '预计登录过期时间（为空表示无法预测）' },
             isActive: { type: 'boolean' },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' }
@@ -184,6 +188,114 @@ const swaggerOptions: swaggerJsdoc.Options = {
               default: '/'
             }
           }
+        },
+        
+        // 上传封面设置
+        CoverOption: {
+          type: 'object',
+          required: ['source'],
+          description: '封面设置，不传时使用平台默认封面',
+          properties: {
+            source: {
+              type: 'string',
+              enum: ['library', 'frame', 'auto'],
+              description: 'library: 资源库图片 / frame: 视频指定时间的画面 / auto: 自动选择画面最丰富的一帧'
+            },
+            libraryId: { type: 'integer', description: 'library: 图片所在资源库（默认与视频相同）' },
+            path: { type: 'string', description: 'library: 图片路径', example: '/covers/demo.jpg' },
+            time: { type: 'number', description: 'frame: 截取时间（秒）', example: 3.5 }
+          }
+        },
+        
+        // 平台发布选项
+        PublishOptions: {
+          type: 'object',
+          description: '平台发布选项，按账号所在平台解析，平台不支持的选项忽略（目前支持抖音）',
+          properties: {
+            visibility: {
+              type: 'string',
+              enum: ['public', 'friends', 'private'],
+              description: '抖音: 谁可以看（默认公开）'
+            },
+            location: { type: 'string', description: '抖音: 地理位置关键词，选择第一个搜索结果', example: '上海' },
+            syncToThirdParty: { type: 'boolean', description: '抖音: 同步到今日头条/西瓜视频（默认同步）' },
+            allowDownload: { type: 'boolean', description: '抖音: 是否允许他人保存视频（不设置时保持平台默认）' },
+            mix: { type: 'string', description: '抖音: 添加到的合集名称（需已在创作者中心创建）' },
+            declaration: {
+              type: 'string',
+              enum: ['ai_generated', 'fictional', 'dangerous', 'self_shot', 'from_internet', 'personal_opinion', 'uncomfortable'],
+              description: '抖音: 自主声明'
+            }
+          }
+        },
+        
+        // 人工处理时的远程操作
+        InterventionInput: {
+          type: 'object',
+          required: ['type'],
+          description: '坐标为页面可视区域内的像素位置（与实时截图一致）',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['click', 'drag', 'move', 'scroll', 'type', 'press'],
+              description: 'click/move: x、y / drag: from、to（滑块验证码）/ scroll: deltaY / type: text / press: key'
+            },
+            x: { type: 'number', example: 640 },
+            y: { type: 'number', example: 360 },
+            button: { type: 'string', enum: ['left', 'right', 'middle'], description: 'click: 鼠标按键（默认 left）' },
+            from: {
+              type: 'object',
+              properties: { x: { type: 'number' }, y: { type: 'number' } }
+            },
+            to: {
+              type: 'object',
+              properties: { x: { type: 'number' }, y: { type: 'number' } }
+            },
+            steps: { type: 'integer', description: 'drag: 拖动过程中的鼠标移动次数（默认 25）' },
+            deltaX: { type: 'number' },
+            deltaY: { type: 'number' },
+            text: { type: 'string', description: 'type: 输入的文本', example: '123456' },
+            key: { type: 'string', description: 'press: 按键名称', example: 'Enter' }
+          }
+        },
+        
+        // 账号网络配置
+        NetworkProfile: {
+          type: 'object',
+          description: '账号的代理和浏览器指纹，登录、验证、数据同步和上传时使用同一套配置',
+          properties: {
+            proxy: {
+              type: 'object',
+              required: ['server'],
+              description: '账号专用代理',
+              properties: {
+                server: { type: 'string', example: 'socks5://127.0.0.1:1080' },
+                username: { type: 'string' },
+                password: { type: 'string', description: '代理密码（加密保存，接口返回时显示为 ******，原样提交时保留原密码）' },
+                bypass: { type: 'string', description: '不走代理的域名，逗号分隔' }
+              }
+            },
+            useProxyPool: { type: 'boolean', description: '未设置专用代理时从代理池分配（分配后固定使用同一代理）' },
+            poolProxy: { type: 'string', description: '代理池分配给账号的代理名称（自动分配，一般无需设置）' },
+            userAgent: { type: 'string' },
+            locale: { type: 'string', example: 'zh-CN' },
+            timezoneId: { type: 'string', example: 'Asia/Shanghai' },
+            viewport: {
+              type: 'object',
+              properties: {
+                width: { type: 'integer', example: 1920 },
+                height: { type: 'integer', example: 1080 }
+              }
+            },
+            geolocation: {
+              type: 'object',
+              properties: {
+                latitude: { type: 'number', example: 31.23 },
+                longitude: { type: 'number', example: 121.47 },
+                accuracy: { type: 'number' }
+              }
+            }
+          }
         }
       }
     },
@@ -5,10 +5,26 @@ import { PlatformVideoData } from '../types';
 export interface SyncResult {
   created: number;
   updated: number;
+  linked: number;
   total: number;
   videos: PrismaAccountVideo[];
 }
 
+// 作品列表中返回的上传任务字段
+const uploadTaskSummarySelect = Prisma.validator<Prisma.UploadTaskSelect>()({
+  id: true,
+  libraryId: true,
+  resourcePath: true,
+  title: true,
+  status: true,
+  uploadedAt: true,
+});
+
+// 作品及发布它的上传任务
+export type AccountVideoWithTasks = Prisma.AccountVideoGetPayload<{
+  include: { uploadTasks: { select: typeof uploadTaskSummarySelect } };
+}>;
+
 export class AccountVideoModel {
   static async upsertVideos(
     platformAccountId: number,
@@ -18,6 +34,7 @@ export class AccountVideoModel {
       return {
         created: 0,
         updated: 0,
+        linked: 0,
         total: 0,
         videos: [],
       };
@@ -34,6 +51,7 @@ export class AccountVideoModel {
 
     let created = 0;
     let updated = 0;
+    let linked = 0;
     const saved: PrismaAccountVideo[] = [];
 
     for (const video of videos) {
@@ -63,12 +81,15 @@ export class AccountVideoModel {
         created += 1;
       }
 
+      linked += await this.linkUploadTasks(platformAccountId, record);
+
       saved.push(record);
     }
 
     return {
       created,
       updated,
+      linked,
       total: saved.length,
       videos: saved,
     };
@@ -76,15 +97,43 @@ export class AccountVideoModel {
 
   static async findVideosByAccount(
     platformAccountId: number
-  ): Promise<PrismaAccountVideo[]> {
+  ): Promise<AccountVideoWithTasks[]> {
     return prisma.accountVideo.findMany({
       where: { platformAccountId },
       orderBy: {
         publishTime: 'desc',
       },
+      include: {
+        uploadTasks: {
+          select: uploadTaskSummarySelect,
+        },
+      },
     });
   }
 
+  /**
+   * 将发布出该作品的上传任务关联到作品记录
+   * 按上传成功时平台返回的视频ID匹配
+   * @returns 新关联的任务数
+   */
+  static async linkUploadTasks(
+    platformAccountId: number,
+    video: PrismaAccountVideo
+  ): Promise<number> {
+    const result = await prisma.uploadTask.updateMany({
+      where: {
+        platformId: platformAccountId,
+        videoId: video.videoId,
+        accountVideoId: null,
+      },
+      data: {
+        accountVideoId: video.id,
+      },
+    });
+
+    return result.count;
+  }
+
   private static mapVideoCreateData(
     platformAccountId: number,
     video: PlatformVideoData
@@ -9,6 +9,8 @@ export class AccountModel {
     accountName: string;
     accountId?: string;
     cookiePath: string;
+    networkProfile?: string | null;
+    cookieExpiresAt?: Date | null;
     isActive?: boolean;
   }): Promise<PrismaPlatformAccount> {
     return await prisma.platformAccount.create({
@@ -17,6 +19,8 @@ export class AccountModel {
         accountName: data.accountName,
         accountId: data.accountId,
         cookiePath: data.cookiePath,
+        networkProfile: data.networkProfile,
+        cookieExpiresAt: data.cookieExpiresAt,
         isActive: data.isActive ?? true,
       },
     });
@@ -48,6 +52,26 @@ export class AccountModel {
     });
   }
 
+  // 根据 Cookie 文件查询账号
+  static async findByCookiePath(cookiePath: string): Promise<PrismaPlatformAccount | null> {
+    return await prisma.platformAccount.findFirst({
+      where: { cookiePath },
+    });
+  }
+
+  // 查询登录在指定时间之前过期的活跃账号（按过期时间升序）
+  static async findExpiringBefore(before: Date): Promise<PrismaPlatformAccount[]> {
+    return await prisma.platformAccount.findMany({
+      where: {
+        isActive: true,
+        cookieExpiresAt: { lte: before },
+      },
+      orderBy: {
+        cookieExpiresAt: 'asc',
+      },
+    });
+  }
+
   // 更新账号
   static async update(
     id: number,
@@ -62,6 +86,11 @@ export class AccountModel {
       followersCount?: number | null;
       totalFavorited?: number | null;
       description?: string | null;
+      maxDailyUploads?: number | null;
+      minPublishIntervalMinutes?: number | null;
+      maxConcurrentUploads?: number | null;
+      networkProfile?: string | null;
+      cookieExpiresAt?: Date | null;
       isActive?: boolean;
     }
   ): Promise<PrismaPlatformAccount> {
@@ -1,5 +1,5 @@
 import { BrowserContext, Cookie } from 'playwright';
-import { IPlatformLogin, OriginData, Platform, PlatformAccountInfo } from '../../types';
+import { IPlatformLogin, OriginData, Platform, PlatformAccountInfo, QrCodeLoginDescriptor } from '../../types';
 import { getAllLocalStorageDeep } from './utils';
 
 const DOUYIN_CREATOR_URL = 'https://creator.douyin.com/';
@@ -8,6 +8,14 @@ const DOUYIN_CREATOR_URL = 'https://creator.douyin.com/';
 export class DouyinLogin implements IPlatformLogin {
   platform: Platform = 'douyin';
 
+  qrCode: QrCodeLoginDescriptor = {
+    selector: 'img[class*="qrcode_img"], div[class*="qrcode"] img',
+    switchSelector: 'text=扫码登录',
+    scannedSelector: 'text=扫码成功',
+    expiredSelector: 'text=二维码已失效',
+    refreshSelector: 'text=点击刷新',
+  };
+
   async openLoginPage(context: BrowserContext): Promise<void> {
     const page = await context.newPage();
     await page.goto(DOUYIN_CREATOR_URL);
@@ -1,5 +1,6 @@
 import { Platform, IPlatformLogin } from '../../types';
 import { DouyinLogin } from './douyin.login';
+import { MockLogin } from './mock.login';
 
 // 登录器工厂
 export class PlatformLoginFactory {
@@ -34,3 +35,6 @@ export class PlatformLoginFactory {
 
 // 只注册抖音登录器
 PlatformLoginFactory.register('douyin', new DouyinLogin());
+
+// 模拟平台登录器（本地测试/演示）
+PlatformLoginFactory.register('mock', new MockLogin());
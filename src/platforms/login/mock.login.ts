@@ -0,0 +1,65 @@
+import { BrowserContext, Cookie } from 'playwright';
+import { IPlatformLogin, Platform, PlatformAccountInfo, QrCodeLoginDescriptor } from '../../types';
+import { MockPlatformConfig } from '../../uploaders/platforms/mock/mock.config';
+
+// 模拟平台登录器（打开页面即视为登录成功，不访问网络）
+export class MockLogin implements IPlatformLogin {
+  platform: Platform = 'mock';
+
+  // 打开页面时已写入登录 Cookie，扫码登录会立即确认
+  qrCode: QrCodeLoginDescriptor = {
+    selector: MockPlatformConfig.qrCodeSelector,
+  };
+
+  async openLoginPage(context: BrowserContext): Promise<void> {
+    const page = await context.newPage();
+    await page.goto(MockPlatformConfig.pageUrl);
+
+    // 写入模拟账号 Cookie
+    const userId = `mock_user_${Date.now()}`;
+    await context.addCookies([
+      {
+        name: MockPlatformConfig.userIdCookie,
+        value: userId,
+        domain: MockPlatformConfig.cookieDomain,
+        path: '/',
+        expires: Math.floor(Date.now() / 1000) + 30 * 24 * 3600,
+        httpOnly: true,
+        secure: false,
+        sameSite: 'Lax',
+      },
+    ]);
+
+    console.log(`✅ 模拟平台登录页面已打开，模拟账号: ${userId}`);
+  }
+
+  async checkLoginStatus(context: BrowserContext): Promise<boolean> {
+    return (await this.getMockUserId(context)) !== null;
+  }
+
+  async getAccountInfo(context: BrowserContext): Promise<PlatformAccountInfo> {
+    const userId = await this.getMockUserId(context);
+    if (!userId) {
+      return {};
+    }
+
+    return {
+      userId,
+      username: `模拟账号 ${userId.slice(-6)}`,
+      followersCount: 0,
+      totalFavorited: 0,
+      description: '模拟平台账号，仅用于本地测试和演示',
+    };
+  }
+
+  async getCookies(context: BrowserContext): Promise<Cookie[]> {
+    const cookies = await context.cookies();
+    return cookies.filter(c => c.domain.includes(MockPlatformConfig.cookieDomain));
+  }
+
+  private async getMockUserId(context: BrowserContext): Promise<string | null> {
+    const cookies = await context.cookies();
+    const cookie = cookies.find(c => c.name === MockPlatformConfig.userIdCookie);
+    return cookie?.value || null;
+  }
+}
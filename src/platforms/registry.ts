@@ -1,4 +1,6 @@
 import { Platform, PlatformConfig } from '../types';
+import { appConfig } from '../config/loader';
+import { MockPlatformConfig } from '../uploaders/platforms/mock/mock.config';
 
 // 平台配置注册表
 export class PlatformRegistry {
@@ -44,6 +46,7 @@ PlatformRegistry.register('douyin', {
   loginUrl: 'https://creator.douyin.com/',
   uploadUrl: 'https://creator.douyin.com/creator-micro/content/upload',
   enabled: true,
+  authCookies: ['sessionid', 'sessionid_ss', 'sid_tt', 'sid_guard', 'uid_tt'],
 });
 
 // 其他平台暂时禁用（保留配置，但不启用）
@@ -81,3 +84,12 @@ PlatformRegistry.register('tiktok', {
   uploadUrl: 'https://www.tiktok.com/creator-center/upload',
   enabled: false,
 });
+
+// 模拟平台（本地测试/演示），通过配置文件 mockPlatform.enabled 启用
+PlatformRegistry.register('mock', {
+  name: '模拟平台',
+  loginUrl: MockPlatformConfig.pageUrl,
+  uploadUrl: MockPlatformConfig.pageUrl,
+  enabled: appConfig.mockPlatform?.enabled ?? false,
+  authCookies: [MockPlatformConfig.userIdCookie],
+});
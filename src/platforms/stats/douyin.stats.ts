@@ -1,8 +1,29 @@
 import { BrowserContext } from 'playwright';
-import { IPlatformVideoStatsCollector, Platform, PlatformVideoData, PlatformVideoMetrics } from '../../types';
+import {
+  IPlatformVideoStatsCollector,
+  Platform,
+  PlatformVideoData,
+  PlatformVideoMetrics,
+  PublishedVideo,
+  PublishedVideoQuery,
+  VideoReviewStatus,
+} from '../../types';
+import { matchPublishedVideo } from '../../uploaders/upload.verification';
 
 const DOUYIN_CREATOR_MANAGE_URL = 'https://creator.douyin.com/creator-micro/content/manage';
 const DOUYIN_WORK_LIST_API = 'https://creator.douyin.com/janus/douyin/creator/pc/work_list';
+const DOUYIN_VIDEO_URL = 'https://www.douyin.com/video/';
+
+// 作品列表的筛选状态（对应作品管理页的 全部/已发布/审核中/未通过 标签）
+const DOUYIN_WORK_STATUS = {
+  all: 0,
+  published: 1,
+  reviewing: 2,
+  rejected: 3,
+};
+
+// 发布后确认时查询的作品数量（新发布的作品排在最前面）
+const RECENT_WORKS_LIMIT = 20;
 
 interface DouyinWorkListResponse {
   status_code?: number;
@@ -28,6 +49,7 @@ export class DouyinVideoStatsCollector implements IPlatformVideoStatsCollector {
       status?: number;
       maxCursor?: number;
       limit?: number;
+      stopWhen?: (video: PlatformVideoData) => boolean;  // 遇到满足条件的作品后不再翻页
     }
   ): Promise<PlatformVideoData[]> {
     const page = await context.newPage();
@@ -46,8 +68,9 @@ export class DouyinVideoStatsCollector implements IPlatformVideoStatsCollector {
       const resultMap: Map<string, PlatformVideoData> = new Map();
       const uniqueLimit = limit === Infinity ? Infinity : Math.max(limit, 0);
       let reachedLimit = false;
+      let stopped = false;
 
-      while (hasMore && !reachedLimit) {
+      while (hasMore && !reachedLimit && !stopped) {
         const params = new URLSearchParams({
           status: status.toString(),
           count: '20',
@@ -83,6 +106,9 @@ export class DouyinVideoStatsCollector implements IPlatformVideoStatsCollector {
 
         for (const item of awemeList) {
           const mapped = this.mapVideoData(item);
+          if (mapped && options?.stopWhen?.(mapped)) {
+            stopped = true;
+          }
           if (mapped && mapped.videoId) {
             if (!resultMap.has(mapped.videoId)) {
               resultMap.set(mapped.videoId, mapped);
@@ -103,6 +129,9 @@ export class DouyinVideoStatsCollector implements IPlatformVideoStatsCollector {
           console.log(itemsList.length)
           for (const item of itemsList) {
             const mapped = this.mapVideoData(item);
+            if (mapped && options?.stopWhen?.(mapped)) {
+              stopped = true;
+            }
             if (mapped && mapped.videoId) {
               if (!resultMap.has(mapped.videoId)) {
                 resultMap.set(mapped.videoId, mapped);
@@ -156,6 +185,55 @@ export class DouyinVideoStatsCollector implements IPlatformVideoStatsCollector {
     }
   }
 
+  /**
+   * 在作品列表中查找刚发布的视频，并按「已发布」「未通过」列表判断审核状态
+   */
+  async findPublishedVideo(context: BrowserContext, query: PublishedVideoQuery): Promise<PublishedVideo | null> {
+    const recent = await this.fetchVideoStats(context, {
+      status: DOUYIN_WORK_STATUS.all,
+      limit: query.videoId ? RECENT_WORKS_LIMIT * 3 : RECENT_WORKS_LIMIT,
+    });
+    const video = matchPublishedVideo(recent, query);
+
+    if (!video) {
+      return null;
+    }
+
+    return {
+      videoId: video.videoId,
+      title: video.title,
+      publishTime: video.publishTime,
+      videoUrl: `${DOUYIN_VIDEO_URL}${video.videoId}`,
+      reviewStatus: await this.getReviewStatus(context, video),
+    };
+  }
+
+  /**
+   * 视频出现在「未通过」列表为未通过，出现在「已发布」列表为已发布，都不在时仍在审核中
+   */
+  private async getReviewStatus(context: BrowserContext, video: PlatformVideoData): Promise<VideoReviewStatus> {
+    if (await this.containsVideo(context, DOUYIN_WORK_STATUS.rejected, video)) {
+      return 'rejected';
+    }
+
+    return await this.containsVideo(context, DOUYIN_WORK_STATUS.published, video) ? 'published' : 'under_review';
+  }
+
+  /**
+   * 在指定状态的作品列表中查找视频
+   * 列表按发布时间倒序，逐页查找，找到该视频或已经翻到比它更早发布的作品时停止
+   */
+  private async containsVideo(context: BrowserContext, status: number, video: PlatformVideoData): Promise<boolean> {
+    const publishedBefore = (work: PlatformVideoData) =>
+      !!video.publishTime && !!work.publishTime && work.publishTime < video.publishTime;
+
+    const works = await this.fetchVideoStats(context, {
+      status,
+      stopWhen: work => work.videoId === video.videoId || publishedBefore(work),
+    });
+    return works.some(work => work.videoId === video.videoId);
+  }
+
   private mapVideoData(item: any): PlatformVideoData | null {
     if (!item) {
       return null;
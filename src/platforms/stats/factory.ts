@@ -1,5 +1,6 @@
 import { IPlatformVideoStatsCollector, Platform } from '../../types';
 import { DouyinVideoStatsCollector } from './douyin.stats';
+import { MockVideoStatsCollector } from './mock.stats';
 
 export class PlatformVideoStatsFactory {
   private static collectors: Map<Platform, IPlatformVideoStatsCollector> = new Map();
@@ -28,3 +29,6 @@ export class PlatformVideoStatsFactory {
 // 注册抖音视频统计采集器
 PlatformVideoStatsFactory.register('douyin', new DouyinVideoStatsCollector());
 
+// 注册模拟平台视频统计采集器
+PlatformVideoStatsFactory.register('mock', new MockVideoStatsCollector());
+
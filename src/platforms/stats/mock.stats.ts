@@ -0,0 +1,28 @@
+import { BrowserContext } from 'playwright';
+import { IPlatformVideoStatsCollector, Platform, PlatformVideoData } from '../../types';
+import { MockPlatformConfig } from '../../uploaders/platforms/mock/mock.config';
+import { MockVideoStore } from '../../uploaders/platforms/mock/mock.store';
+
+// 模拟平台视频统计采集器（读取模拟上传器发布的作品）
+export class MockVideoStatsCollector implements IPlatformVideoStatsCollector {
+  platform: Platform = 'mock';
+
+  async fetchVideoStats(
+    context: BrowserContext,
+    options?: {
+      status?: number;
+      maxCursor?: number;
+      limit?: number;
+    }
+  ): Promise<PlatformVideoData[]> {
+    const cookies = await context.cookies();
+    const userId = cookies.find(c => c.name === MockPlatformConfig.userIdCookie)?.value;
+
+    if (!userId) {
+      throw new Error('模拟账号 Cookie 无效，请重新登录');
+    }
+
+    const videos = MockVideoStore.getVideoStats(userId);
+    return options?.limit !== undefined ? videos.slice(0, options.limit) : videos;
+  }
+}
@@ -1,19 +1,42 @@
 import prisma from '../models/prisma';
 import { ResourceLibrary } from '@prisma/client';
 import { LibraryType } from './types';
+import { secrets } from '../services/secrets.service';
 
-// 辅助函数：将配置对象转换为JSON字符串
+// 需要加密保存的配置字段（WebDAV 等远程资源库的凭据）
+export const SECRET_CONFIG_FIELDS = ['password', 'token'];
+
+// 辅助函数：将配置对象转换为JSON字符串（配置了主密钥时加密凭据字段）
 function configToString(config: any): string {
-  return JSON.stringify(config);
+  const stored = { ...config };
+  for (const field of SECRET_CONFIG_FIELDS) {
+    if (typeof stored[field] === 'string' && stored[field] && !secrets.isEncrypted(stored[field])) {
+      stored[field] = secrets.encrypt(stored[field]);
+    }
+  }
+  return JSON.stringify(stored);
 }
 
-// 辅助函数：将JSON字符串转换为配置对象
+// 辅助函数：将JSON字符串转换为配置对象（解密凭据字段）
 function stringToConfig(configStr: string): any {
+  let config: any;
   try {
-    return JSON.parse(configStr);
+    config = JSON.parse(configStr);
   } catch {
     return {};
   }
+
+  for (const field of SECRET_CONFIG_FIELDS) {
+    if (secrets.isEncrypted(config[field])) {
+      try {
+        config[field] = secrets.decrypt(config[field]);
+      } catch (error: any) {
+        console.error(`❌ 资源库配置 ${field} 解密失败:`, error.message);
+        delete config[field];
+      }
+    }
+  }
+  return config;
 }
 
 // 辅助函数：转换数据库记录
@@ -1,14 +1,26 @@
 import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
 import { AccountService } from '../services/account.service';
 import { AccountStatsService } from '../services/account-stats.service';
 import { success, error } from '../utils/response';
 import { Platform } from '../types';
 import { PlatformRegistry } from '../platforms';
+import { UploaderFactory } from '../uploaders/factory';
+import { normalizeNetworkProfile, networkProfileService, redactAccount } from '../services/network.profile';
+import { proxyPool } from '../services/proxy.pool';
+import { screencastService } from '../services/screencast.service';
+import { loginEvents, LoginEvent } from '../services/login.events';
+import { COOKIE_FORMATS, CookieFormat } from '../services/cookie.formats';
+import { cookieExpiryService, resolveExpiringWithinHours } from '../services/cookie.expiry';
+import { appConfig } from '../config';
 
 const router = Router();
 const accountService = new AccountService();
 const accountStatsService = new AccountStatsService();
 
+// SSE 心跳间隔，防止代理服务器断开空闲连接
+const SSE_HEARTBEAT_INTERVAL = 30 * 1000;
+
 // ===== 平台管理 =====
 
 /**
@@ -45,6 +57,35 @@ const accountStatsService = new AccountStatsService();
  *                       enabled:
  *                         type: boolean
  *                         example: true
+ *                       upload:
+ *                         type: object
+ *                         nullable: true
+ *                         description: 上传能力，平台不支持上传时为 null
+ *                         properties:
+ *                           resourceTypes:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                               enum: [video, image, audio]
+ *                             example: [video]
+ *                           supportsScheduling:
+ *                             type: boolean
+ *                             example: true
+ *                           maxTitleLength:
+ *                             type: integer
+ *                             example: 30
+ *                           maxTags:
+ *                             type: integer
+ *                             example: 5
+ *                           supportsCover:
+ *                             type: boolean
+ *                             example: true
+ *                           publishOptions:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                             description: 支持的发布选项（创建任务时 config 的字段）
+ *                             example: [visibility, location, syncToThirdParty, allowDownload, mix, declaration]
  */
 router.get('/platforms', (req: Request, res: Response) => {
   try {
@@ -54,6 +95,7 @@ router.get('/platforms', (req: Request, res: Response) => {
         platform,
         name: config?.name,
         enabled: config?.enabled,
+        upload: UploaderFactory.getCapabilities(platform) ?? null,
       };
     });
     res.json(success(platforms));
@@ -115,6 +157,70 @@ router.get('/platforms/enabled', (req: Request, res: Response) => {
 router.get('/accounts', async (req: Request, res: Response) => {
   try {
     const accounts = await accountService.getAllAccounts();
+    res.json(success(accounts.map(redactAccount)));
+  } catch (err: any) {
+    res.status(500).json(error(err.message, 500));
+  }
+});
+
+/**
+ * 解析提醒窗口（小时），未传或不合法时使用配置
+ */
+function parseWithinHours(value: unknown): number {
+  const requested = Number(value);
+  return requested > 0 ? requested : resolveExpiringWithinHours();
+}
+
+/**
+ * @swagger
+ * /api/accounts/expiring:
+ *   get:
+ *     summary: 获取登录即将过期的账号
+ *     description: 按已保存的预计登录过期时间（关键 Cookie 中最早的过期时间），返回在指定小时内过期或已经过期的活跃账号，按过期时间升序。需要重新计算时调用 POST /api/accounts/update-all-cookie-expiry
+ *     tags: [Account]
+ *     parameters:
+ *       - in: query
+ *         name: withinHours
+ *         schema:
+ *           type: number
+ *         description: 提醒窗口（小时），默认使用配置 accounts.refreshCookies.expiringWithinHours（72）
+ *     responses:
+ *       200:
+ *         description: 成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       platform:
+ *                         type: string
+ *                       accountName:
+ *                         type: string
+ *                       username:
+ *                         type: string
+ *                         nullable: true
+ *                       cookieExpiresAt:
+ *                         type: string
+ *                         format: date-time
+ *                       expired:
+ *                         type: boolean
+ *                       hoursLeft:
+ *                         type: number
+ */
+router.get('/accounts/expiring', async (req: Request, res: Response) => {
+  try {
+    const accounts = await cookieExpiryService.getExpiringAccounts(parseWithinHours(req.query.withinHours));
     res.json(success(accounts));
   } catch (err: any) {
     res.status(500).json(error(err.message, 500));
@@ -153,7 +259,7 @@ router.get('/accounts/:id', async (req: Request, res: Response) => {
       return res.status(404).json(error('账号不存在', 404));
     }
     
-    res.json(success(account));
+    res.json(success(redactAccount(account)));
   } catch (err: any) {
     res.status(500).json(error(err.message, 500));
   }
@@ -181,7 +287,7 @@ router.get('/accounts/platform/:platform', async (req: Request, res: Response) =
   try {
     const platform = req.params.platform as Platform;
     const accounts = await accountService.getAccountsByPlatform(platform);
-    res.json(success(accounts));
+    res.json(success(accounts.map(redactAccount)));
   } catch (err: any) {
     res.status(500).json(error(err.message, 500));
   }
@@ -229,6 +335,164 @@ router.get('/accounts/:id/cookie-details', async (req: Request, res: Response) =
   }
 });
 
+/**
+ * 校验 Cookie 导出令牌（请求头 X-Export-Token 或 Authorization: Bearer）
+ * 未配置令牌时禁止导出
+ */
+function checkExportToken(req: Request): { status: number; message: string } | null {
+  const expected = process.env.SPO_COOKIE_EXPORT_TOKEN || appConfig.accounts.cookieExport?.token;
+  if (!expected) {
+    return { status: 403, message: '未配置 Cookie 导出令牌 (accounts.cookieExport.token)，导出已禁用' };
+  }
+
+  const header = req.headers.authorization;
+  const provided = req.header('X-Export-Token') || (header?.startsWith('Bearer ') ? header.slice(7) : '');
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
+    return { status: 401, message: '导出令牌无效' };
+  }
+
+  return null;
+}
+
+/**
+ * @swagger
+ * /api/accounts/import:
+ *   post:
+ *     summary: 导入账号 Cookie
+ *     description: |
+ *       从其他工具导出的登录状态创建账号，支持 Playwright storageState JSON、Netscape cookies.txt、EditThisCookie JSON（未指定 format 时自动识别）。
+ *       导入后验证 Cookie，无效时不创建账号；有效时按平台账号信息填写昵称、粉丝数等资料
+ *     tags: [Account]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - platform
+ *               - accountName
+ *               - content
+ *             properties:
+ *               platform:
+ *                 type: string
+ *                 enum: [douyin, bilibili, xiaohongshu, kuaishou, tencent, tiktok]
+ *               accountName:
+ *                 type: string
+ *               format:
+ *                 type: string
+ *                 enum: [storage-state, netscape, editthiscookie]
+ *               content:
+ *                 description: 文件内容（文本），JSON 格式也可以直接传对象或数组
+ *                 oneOf:
+ *                   - type: string
+ *                   - type: object
+ *                   - type: array
+ *                     items:
+ *                       type: object
+ *               networkProfile:
+ *                 $ref: '#/components/schemas/NetworkProfile'
+ *     responses:
+ *       200:
+ *         description: 导入成功
+ *       400:
+ *         description: 参数错误或 Cookie 无效
+ */
+router.post('/accounts/import', async (req: Request, res: Response) => {
+  const { platform, accountName, format, content } = req.body;
+  
+  if (!platform || !accountName || content === undefined || content === null || content === '') {
+    return res.status(400).json(error('缺少必要参数: platform, accountName, content'));
+  }
+  if (!PlatformRegistry.isRegistered(platform)) {
+    return res.status(400).json(error(`平台 ${platform} 未注册`));
+  }
+  if (format !== undefined && !COOKIE_FORMATS.includes(format)) {
+    return res.status(400).json(error(`format 必须是 ${COOKIE_FORMATS.join(' / ')} 之一`));
+  }
+  
+  let networkProfile;
+  try {
+    networkProfile = normalizeNetworkProfile(req.body.networkProfile);
+  } catch (err: any) {
+    return res.status(400).json(error(err.message));
+  }
+  
+  try {
+    const result = await accountService.importAccount(platform, accountName, content, format, networkProfile);
+    res.json(success({ ...result, account: redactAccount(result.account) }, '账号导入成功'));
+  } catch (err: any) {
+    // 内容格式错误、Cookie 无效属于请求问题
+    res.status(400).json(error(err.message));
+  }
+});
+
+/**
+ * @swagger
+ * /api/accounts/{id}/cookies/export:
+ *   get:
+ *     summary: 导出账号 Cookie
+ *     description: |
+ *       导出账号的登录状态文件。需要在请求头 X-Export-Token（或 Authorization: Bearer）中提供导出令牌，
+ *       令牌通过 accounts.cookieExport.token 或环境变量 SPO_COOKIE_EXPORT_TOKEN 配置，未配置时禁止导出
+ *     tags: [Account]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 账号ID
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [storage-state, netscape, editthiscookie]
+ *           default: storage-state
+ *       - in: header
+ *         name: X-Export-Token
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Cookie 文件（附件下载）
+ *       401:
+ *         description: 导出令牌无效
+ *       403:
+ *         description: 未配置导出令牌
+ *       404:
+ *         description: 账号不存在
+ */
+router.get('/accounts/:id/cookies/export', async (req: Request, res: Response) => {
+  const denied = checkExportToken(req);
+  if (denied) {
+    return res.status(denied.status).json(error(denied.message, denied.status));
+  }
+  
+  const format = (req.query.format as CookieFormat | undefined) ?? 'storage-state';
+  if (!COOKIE_FORMATS.includes(format)) {
+    return res.status(400).json(error(`format 必须是 ${COOKIE_FORMATS.join(' / ')} 之一`));
+  }
+  
+  try {
+    const id = parseInt(req.params.id);
+    const { account, content, contentType, fileExtension } = await accountService.exportAccountCookies(id, format);
+    
+    console.log(`📤 导出账号 ${account.accountName} 的 Cookie (${format})`);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Content-Disposition', `attachment; filename="${account.platform}-${account.id}-cookies.${fileExtension}"`);
+    res.send(content);
+  } catch (err: any) {
+    if (err.message === '账号不存在') {
+      return res.status(404).json(error(err.message, 404));
+    }
+    res.status(500).json(error(err.message, 500));
+  }
+});
+
 /**
  * @swagger
  * /api/accounts/login/start:
@@ -252,6 +516,13 @@ router.get('/accounts/:id/cookie-details', async (req: Request, res: Response) =
  *               accountName:
  *                 type: string
  *                 description: 账号名称
+ *               networkProfile:
+ *                 $ref: '#/components/schemas/NetworkProfile'
+ *               mode:
+ *                 type: string
+ *                 enum: [browser, qrcode]
+ *                 default: browser
+ *                 description: 登录方式。qrcode 在后台打开登录页，前端显示二维码，扫码确认后自动保存账号
  *     responses:
  *       200:
  *         description: 浏览器已打开
@@ -263,6 +534,12 @@ router.get('/accounts/:id/cookie-details', async (req: Request, res: Response) =
  *                 sessionId:
  *                   type: string
  *                   description: 会话ID
+ *                 qrCodeUrl:
+ *                   type: string
+ *                   description: 二维码图片地址（仅 qrcode 方式）
+ *                 eventsUrl:
+ *                   type: string
+ *                   description: 扫码状态事件流地址（仅 qrcode 方式）
  *       400:
  *         description: 缺少必要参数
  */
@@ -274,7 +551,28 @@ router.post('/accounts/login/start', async (req: Request, res: Response) => {
       return res.status(400).json(error('缺少必要参数: platform, accountName'));
     }
     
-    const sessionId = await accountService.startLogin(platform, accountName);
+    let networkProfile;
+    try {
+      networkProfile = normalizeNetworkProfile(req.body.networkProfile);
+    } catch (err: any) {
+      return res.status(400).json(error(err.message));
+    }
+    
+    const mode = req.body.mode ?? 'browser';
+    if (mode !== 'browser' && mode !== 'qrcode') {
+      return res.status(400).json(error('mode 必须是 browser / qrcode 之一'));
+    }
+    
+    const sessionId = await accountService.startLogin(platform, accountName, networkProfile, mode);
+    
+    if (mode === 'qrcode') {
+      const base = `/api/accounts/login/sessions/${sessionId}`;
+      return res.json(success(
+        { sessionId, qrCodeUrl: `${base}/qrcode`, eventsUrl: `${base}/events` },
+        '已打开登录页，请使用手机扫码登录'
+      ));
+    }
+    
     res.json(success({ sessionId }, '浏览器已打开，请完成登录'));
   } catch (err: any) {
     res.status(500).json(error(err.message, 500));
@@ -306,21 +604,33 @@ router.post('/accounts/login/start', async (req: Request, res: Response) => {
  *                 enum: [douyin, bilibili, xiaohongshu, kuaishou, tencent, tiktok]
  *               accountName:
  *                 type: string
+ *               force:
+ *                 type: boolean
+ *                 default: false
+ *                 description: 重新登录时登录的账号与原账号不一致，仍然保存到原账号
  *     responses:
  *       200:
- *         description: 账号创建成功
+ *         description: 账号创建成功（重新登录时为原账号已更新）
+ *       409:
+ *         description: 重新登录的账号与原账号不一致，浏览器保持打开，可切换账号后重试
  */
 router.post('/accounts/login/finish', async (req: Request, res: Response) => {
   try {
-    const { sessionId, platform, accountName } = req.body;
+    const { sessionId, platform, accountName, force } = req.body;
     
     if (!sessionId || !platform || !accountName) {
       return res.status(400).json(error('缺少必要参数: sessionId, platform, accountName'));
     }
     
-    const accountId = await accountService.finishLogin(sessionId, platform, accountName);
-    res.json(success({ id: accountId }, '账号创建成功'));
+    const refreshing = accountService.getLoginSessions()
+      .some(session => session.sessionId === sessionId && session.accountId !== undefined);
+    
+    const accountId = await accountService.finishLogin(sessionId, platform, accountName, force === true);
+    res.json(success({ id: accountId }, refreshing ? '账号已重新登录' : '账号创建成功'));
   } catch (err: any) {
+    if (err.message.includes('不一致')) {
+      return res.status(409).json(error(err.message, 409));
+    }
     res.status(500).json(error(err.message, 500));
   }
 });
@@ -362,6 +672,222 @@ router.post('/accounts/login/cancel', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/accounts/login/sessions:
+ *   get:
+ *     summary: 获取当前的登录会话
+ *     description: 登录会话无操作超过 accounts.loginSessions.idleTimeoutMinutes 后自动关闭浏览器，expiresAt 为预计关闭时间
+ *     tags: [Account]
+ *     responses:
+ *       200:
+ *         description: 成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   sessionId:
+ *                     type: string
+ *                   platform:
+ *                     type: string
+ *                   accountName:
+ *                     type: string
+ *                   mode:
+ *                     type: string
+ *                     enum: [browser, qrcode]
+ *                   state:
+ *                     type: string
+ *                     enum: [active, finishing]
+ *                   createdAt:
+ *                     type: string
+ *                     format: date-time
+ *                   lastActiveAt:
+ *                     type: string
+ *                     format: date-time
+ *                   expiresAt:
+ *                     type: string
+ *                     format: date-time
+ *                   qrStatus:
+ *                     type: string
+ *                     enum: [waiting, scanned, confirmed, expired, failed]
+ */
+router.get('/accounts/login/sessions', (req: Request, res: Response) => {
+  res.json(success(accountService.getLoginSessions()));
+});
+
+/**
+ * @swagger
+ * /api/accounts/login/sessions/{sessionId}/qrcode:
+ *   get:
+ *     summary: 扫码登录二维码图片
+ *     description: 返回最近截取的二维码（PNG）。二维码刷新后会推送 qrcode 事件，前端重新获取即可
+ *     tags: [Account]
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: 会话ID
+ *     responses:
+ *       200:
+ *         description: 二维码图片
+ *         content:
+ *           image/png:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: 扫码登录会话不存在或二维码尚未加载
+ */
+router.get('/accounts/login/sessions/:sessionId/qrcode', (req: Request, res: Response) => {
+  try {
+    const image = accountService.getQrCodeImage(req.params.sessionId);
+    res.setHeader('Content-Type', 'image/png');
+    res.setHeader('Cache-Control', 'no-cache, no-store');
+    res.send(image);
+  } catch (err: any) {
+    res.status(404).json(error(err.message, 404));
+  }
+});
+
+/**
+ * @swagger
+ * /api/accounts/login/sessions/{sessionId}/status:
+ *   get:
+ *     summary: 扫码登录状态
+ *     description: 状态为 waiting / scanned / confirmed / expired / failed，confirmed 时返回已保存的账号ID
+ *     tags: [Account]
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: 会话ID
+ *     responses:
+ *       200:
+ *         description: 成功
+ *       404:
+ *         description: 扫码登录会话不存在或已过期
+ */
+router.get('/accounts/login/sessions/:sessionId/status', (req: Request, res: Response) => {
+  try {
+    res.json(success(accountService.getQrLoginState(req.params.sessionId)));
+  } catch (err: any) {
+    res.status(404).json(error(err.message, 404));
+  }
+});
+
+/**
+ * @swagger
+ * /api/accounts/login/sessions/{sessionId}/events:
+ *   get:
+ *     summary: 订阅扫码登录事件（SSE）
+ *     description: |
+ *       连接建立后先推送当前状态，之后推送事件：
+ *       - status: 扫码状态变化（waiting / scanned / confirmed / expired / failed）
+ *       - qrcode: 二维码已更新，需要重新获取图片
+ *     tags: [Account]
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: 会话ID
+ *     responses:
+ *       200:
+ *         description: 事件流
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: 扫码登录会话不存在或已过期
+ */
+router.get('/accounts/login/sessions/:sessionId/events', (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  
+  let state;
+  try {
+    state = accountService.getQrLoginState(sessionId);
+  } catch (err: any) {
+    return res.status(404).json(error(err.message, 404));
+  }
+  
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  
+  const send = (event: LoginEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+  
+  send({
+    type: 'status',
+    sessionId,
+    status: state.status,
+    message: state.message,
+    accountId: state.accountId,
+    timestamp: new Date(),
+  });
+  
+  const unsubscribe = loginEvents.subscribe(sessionId, send);
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_INTERVAL);
+  
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+/**
+ * @swagger
+ * /api/accounts/login/sessions/{sessionId}/screencast:
+ *   get:
+ *     summary: 登录浏览器实时画面（MJPEG）
+ *     description: 推送登录窗口的实时画面，可直接用 <img src="..."> 显示，远程查看登录过程
+ *     tags: [Account]
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: 会话ID
+ *     responses:
+ *       200:
+ *         description: 画面流
+ *         content:
+ *           multipart/x-mixed-replace:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: 登录会话不存在或页面未打开
+ */
+router.get('/accounts/login/sessions/:sessionId/screencast', async (req: Request, res: Response) => {
+  let page;
+  try {
+    page = accountService.getLoginPage(req.params.sessionId);
+  } catch (err: any) {
+    return res.status(404).json(error(err.message, 404));
+  }
+  
+  try {
+    await screencastService.stream(page, req, res);
+  } catch (err: any) {
+    res.status(500).json(error(err.message, 500));
+  }
+});
+
 /**
  * @swagger
  * /api/accounts/{id}:
@@ -385,9 +911,29 @@ router.post('/accounts/login/cancel', async (req: Request, res: Response) => {
  *                 type: string
  *               isActive:
  *                 type: boolean
+ *               maxDailyUploads:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: 每日最多发布数，null 表示使用平台默认值
+ *               minPublishIntervalMinutes:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: 两次发布的最小间隔（分钟），null 表示使用平台默认值
+ *               maxConcurrentUploads:
+ *                 type: integer
+ *                 minimum: 1
+ *                 nullable: true
+ *                 description: 同时上传的最大任务数（至少为 1），null 表示使用平台默认值
+ *               networkProfile:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/NetworkProfile'
+ *                 nullable: true
+ *                 description: 网络配置（整体替换），null 表示清除
  *     responses:
  *       200:
  *         description: 更新成功
+ *       400:
+ *         description: 参数错误
  *       404:
  *         description: 账号不存在
  */
@@ -396,8 +942,29 @@ router.put('/accounts/:id', async (req: Request, res: Response) => {
     const id = parseInt(req.params.id);
     const updates = req.body;
     
+    // 发布限制必须为非负整数（同时上传数至少为 1，否则任务永远无法执行），null 表示恢复为平台默认值
+    const quotaMinimums: Record<string, number> = {
+      maxDailyUploads: 0,
+      minPublishIntervalMinutes: 0,
+      maxConcurrentUploads: 1,
+    };
+    for (const [field, min] of Object.entries(quotaMinimums)) {
+      const value = updates[field];
+      if (value !== undefined && value !== null && !(Number.isInteger(value) && value >= min)) {
+        return res.status(400).json(error(`${field} 必须为不小于 ${min} 的整数或 null`));
+      }
+    }
+    
+    if (updates.networkProfile !== undefined) {
+      try {
+        updates.networkProfile = normalizeNetworkProfile(updates.networkProfile);
+      } catch (err: any) {
+        return res.status(400).json(error(err.message));
+      }
+    }
+    
     const account = await accountService.updateAccount(id, updates);
-    res.json(success(account, '更新成功'));
+    res.json(success(redactAccount(account), '更新成功'));
   } catch (err: any) {
     if (err.code === 'P2025') {
       return res.status(404).json(error('账号不存在', 404));
@@ -478,11 +1045,65 @@ router.post('/accounts/:id/validate', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/accounts/{id}/network/check:
+ *   post:
+ *     summary: 检测账号的代理
+ *     description: 通过账号实际使用的代理（专用代理或代理池分配的代理）访问检测地址，未配置代理时检测直连网络
+ *     tags: [Account]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 账号ID
+ *     responses:
+ *       200:
+ *         description: 检测结果
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 proxy:
+ *                   type: string
+ *                   nullable: true
+ *                   description: 使用的代理地址，直连时为 null
+ *                 healthy:
+ *                   type: boolean
+ *                 latencyMs:
+ *                   type: integer
+ *                 status:
+ *                   type: integer
+ *                   description: 检测地址返回的 HTTP 状态码
+ *                 error:
+ *                   type: string
+ *       404:
+ *         description: 账号不存在
+ */
+router.post('/accounts/:id/network/check', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const result = await accountService.checkAccountNetwork(id);
+    res.json(success(result, result.healthy ? '网络可用' : '网络不可用'));
+  } catch (err: any) {
+    if (err.message === '账号不存在') {
+      return res.status(404).json(error(err.message, 404));
+    }
+    res.status(500).json(error(err.message, 500));
+  }
+});
+
 /**
  * @swagger
  * /api/accounts/{id}/refresh:
  *   post:
  *     summary: 刷新账号Cookie（重新登录）
+ *     description: |
+ *       打开登录页重新登录，完成登录（/login/finish 或扫码确认）后更新原账号的 Cookie 文件和账号信息，
+ *       视频、快照、主题关联等历史数据保持不变。登录的平台用户与原账号不一致时拒绝保存（可用 force 强制保存）
  *     tags: [Account]
  *     parameters:
  *       - in: path
@@ -491,6 +1112,17 @@ router.post('/accounts/:id/validate', async (req: Request, res: Response) => {
  *         schema:
  *           type: integer
  *         description: 账号ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               mode:
+ *                 type: string
+ *                 enum: [browser, qrcode]
+ *                 default: browser
+ *                 description: 登录方式
  *     responses:
  *       200:
  *         description: 返回新的会话ID
@@ -498,7 +1130,21 @@ router.post('/accounts/:id/validate', async (req: Request, res: Response) => {
 router.post('/accounts/:id/refresh', async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
-    const sessionId = await accountService.refreshAccount(id);
+    const mode = req.body?.mode ?? 'browser';
+    if (mode !== 'browser' && mode !== 'qrcode') {
+      return res.status(400).json(error('mode 必须是 browser / qrcode 之一'));
+    }
+    
+    const sessionId = await accountService.refreshAccount(id, mode);
+    
+    if (mode === 'qrcode') {
+      const base = `/api/accounts/login/sessions/${sessionId}`;
+      return res.json(success(
+        { sessionId, qrCodeUrl: `${base}/qrcode`, eventsUrl: `${base}/events` },
+        '请使用手机扫码重新登录'
+      ));
+    }
+    
     res.json(success({ sessionId }, '请在浏览器中重新登录'));
   } catch (err: any) {
     res.status(500).json(error(err.message, 500));
@@ -533,6 +1179,66 @@ router.post('/accounts/:id/update-info', async (req: Request, res: Response) =>
   }
 });
 
+/**
+ * @swagger
+ * /api/accounts/update-all-cookie-expiry:
+ *   post:
+ *     summary: 重新计算所有账号的登录过期时间
+ *     description: 按 Cookie 文件重新计算所有活跃账号的预计登录过期时间，返回在指定小时内过期或已经过期的账号（同 GET /api/accounts/expiring）
+ *     tags: [Account]
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               withinHours:
+ *                 type: number
+ *                 description: 提醒窗口（小时），默认使用配置 accounts.refreshCookies.expiringWithinHours（72）
+ *     responses:
+ *       200:
+ *         description: 成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       platform:
+ *                         type: string
+ *                       accountName:
+ *                         type: string
+ *                       username:
+ *                         type: string
+ *                         nullable: true
+ *                       cookieExpiresAt:
+ *                         type: string
+ *                         format: date-time
+ *                       expired:
+ *                         type: boolean
+ *                       hoursLeft:
+ *                         type: number
+ */
+router.post('/accounts/update-all-cookie-expiry', async (req: Request, res: Response) => {
+  try {
+    await cookieExpiryService.updateAll();
+    const accounts = await cookieExpiryService.getExpiringAccounts(parseWithinHours(req.body?.withinHours));
+    res.json(success(accounts, '登录过期时间已更新'));
+  } catch (err: any) {
+    res.status(500).json(error(err.message, 500));
+  }
+});
+
 /**
  * @swagger
  * /api/accounts/update-all-info:
@@ -575,6 +1281,7 @@ router.post('/accounts/update-all-info', async (req: Request, res: Response) =>
  * /api/accounts/{id}/videos:
  *   get:
  *     summary: 获取账号的视频统计数据
+ *     description: 每个作品的 uploadTasks 为发布该作品的上传任务（含资源库和文件路径）
  *     tags: [Account]
  *     parameters:
  *       - in: path
@@ -687,4 +1394,47 @@ router.post('/accounts/update-all-video-stats', async (req: Request, res: Respon
   }
 });
 
+// ===== 代理池 =====
+
+/**
+ * @swagger
+ * /api/proxies:
+ *   get:
+ *     summary: 获取代理池状态
+ *     description: 返回代理池中的代理、最近一次检测结果和分配的账号数（不含认证信息）
+ *     tags: [Account]
+ *     responses:
+ *       200:
+ *         description: 成功
+ */
+router.get('/proxies', async (req: Request, res: Response) => {
+  try {
+    const loads = await networkProfileService.getPoolLoads();
+    res.json(success(proxyPool.getStatus(loads)));
+  } catch (err: any) {
+    res.status(500).json(error(err.message, 500));
+  }
+});
+
+/**
+ * @swagger
+ * /api/proxies/check:
+ *   post:
+ *     summary: 检测代理池中的所有代理
+ *     description: 不可用的代理不再分配给账号，已分配的账号下次使用时改用其他可用代理
+ *     tags: [Account]
+ *     responses:
+ *       200:
+ *         description: 检测结果
+ */
+router.post('/proxies/check', async (req: Request, res: Response) => {
+  try {
+    const results = await proxyPool.checkAll();
+    const healthy = results.filter(r => r.healthy).length;
+    res.json(success(results, `${healthy}/${results.length} 个代理可用`));
+  } catch (err: any) {
+    res.status(500).json(error(err.message, 500));
+  }
+});
+
 export default router;
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { ThemeService } from '../services/theme.service';
+import { parseCoverOption } from '../uploaders/upload.cover';
 import { success, error } from '../utils/response';
 
 const router = Router();
@@ -467,7 +468,7 @@ router.get('/:id/statistics', async (req: Request, res: Response) => {
  *                 description: 要发布的视频路径列表
  *               autoArchive:
  *                 type: boolean
- *                 description: 是否自动归档（默认true）
+ *                 description: 是否自动归档（默认true）。视频发布到所有账号的任务都结束且至少一个成功后归档，包括被发布限制推迟、等待平台确认的任务
  *               title:
  *                 type: string
  *                 description: 视频标题模板
@@ -476,15 +477,28 @@ router.get('/:id/statistics', async (req: Request, res: Response) => {
  *                 items:
  *                   type: string
  *                 description: 标签
+ *               cover:
+ *                 $ref: '#/components/schemas/CoverOption'
+ *               config:
+ *                 $ref: '#/components/schemas/PublishOptions'
  *     responses:
  *       200:
- *         description: 成功
+ *         description: 成功，返回创建的任务、订阅进度的 eventsUrl（SSE）和每个任务的校验报告
+ *       400:
+ *         description: 有视频不符合平台发布规则，未创建任何任务（data.validation 为每个任务的校验报告）
  */
 router.post('/:id/batch-publish', async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const { accountIds, videoPaths, autoArchive, title, tags, useTagsAsTitle, tagCount } = req.body;
     
+    let cover;
+    try {
+      cover = parseCoverOption(req.body.cover);
+    } catch (err: any) {
+      return res.status(400).json(error(err.message));
+    }
+    
     const result = await themeService.batchPublishThemeVideos(id, {
       accountIds,
       videoPaths,
@@ -493,9 +507,19 @@ router.post('/:id/batch-publish', async (req: Request, res: Response) => {
       tags,
       useTagsAsTitle,
       tagCount,
+      cover,
+      config: req.body.config,
     });
     
-    res.json(success(result, '批量发布任务已创建'));
+    // 有视频不符合平台发布规则时不创建任务，返回校验报告
+    if (!result.valid) {
+      return res.status(400).json({ ...error('部分视频不符合平台发布要求，未创建任务'), data: result });
+    }
+    
+    // 前端可通过该地址订阅本批任务的实时进度
+    const eventsUrl = `/api/upload/tasks/events?taskIds=${result.tasks.map(t => t.taskId).join(',')}`;
+    
+    res.json(success({ ...result, eventsUrl }, '批量发布任务已创建'));
   } catch (err: any) {
     res.status(500).json(error(err.message, 500));
   }
@@ -1,10 +1,73 @@
 import { Router, Request, Response } from 'express';
 import { UploadService } from '../uploaders/upload.service';
+import { uploadEvents, UploadEvent } from '../uploaders/upload.events';
+import { listTaskArtifacts, resolveArtifactFile } from '../uploaders/upload.artifacts';
+import { formatViolations } from '../uploaders/upload.validation';
+import { parseCoverOption } from '../uploaders/upload.cover';
+import { parseInterventionInput } from '../uploaders/upload.intervention';
+import { screencastService } from '../services/screencast.service';
 import { success, error } from '../utils/response';
 
 const router = Router();
 const uploadService = new UploadService();
 
+// SSE 心跳间隔，防止代理断开空闲连接
+const SSE_HEARTBEAT_INTERVAL = 30 * 1000;
+
+/**
+ * 以 Server-Sent Events 推送上传事件，直到客户端断开
+ * @param taskIds 只推送这些任务的事件，不传则推送全部任务
+ */
+function streamUploadEvents(req: Request, res: Response, initialEvents: UploadEvent[], taskIds?: number[]) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  
+  const send = (event: UploadEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+  
+  initialEvents.forEach(send);
+  
+  const unsubscribe = uploadEvents.subscribe(send, taskIds);
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_INTERVAL);
+  
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
+
+/**
+ * 生成任务当前状态的快照事件，连接建立时先推送一次
+ */
+async function buildSnapshotEvents(taskIds: number[]): Promise<UploadEvent[]> {
+  const events: UploadEvent[] = [];
+  
+  for (const taskId of taskIds) {
+    const task = await uploadService.getTask(taskId);
+    if (!task) continue;
+    
+    events.push({ type: 'status', taskId, status: task.status, timestamp: new Date() });
+    
+    const progress = uploadService.getTaskProgress(taskId);
+    if (progress) {
+      events.push({ type: 'progress', taskId, progress, timestamp: new Date() });
+    }
+    
+    // 任务结束时上传器先于状态变更移除，没有上传器时视为不需要人工处理
+    const intervention = progress && task.status === 'needs_attention' ? uploadService.getTaskIntervention(taskId) : null;
+    if (intervention) {
+      events.push({ type: 'attention', taskId, intervention, timestamp: new Date() });
+    }
+  }
+  
+  return events;
+}
+
 /**
  * @swagger
  * /api/upload/tasks:
@@ -49,19 +112,50 @@ const uploadService = new UploadService();
  *               scheduledAt:
  *                 type: string
  *                 format: date-time
- *                 description: 定时发布时间
+ *                 description: 定时发布时间（设置后任务为 scheduled，到时由调度器执行）
+ *               cover:
+ *                 $ref: '#/components/schemas/CoverOption'
+ *               config:
+ *                 $ref: '#/components/schemas/PublishOptions'
+ *               draft:
+ *                 type: boolean
+ *                 description: 保存为草稿，通过 resume 接口提交后才会执行
  *     responses:
  *       200:
- *         description: 创建成功
+ *         description: 创建成功，validation 中包含校验警告
+ *       400:
+ *         description: 参数缺失，或视频不符合平台发布规则（data 为校验报告）
  */
 router.post('/tasks', async (req: Request, res: Response) => {
   try {
-    const { platformId, libraryId, resourcePath, title, description, tags, scheduledAt } = req.body;
+    const { platformId, libraryId, resourcePath, title, description, tags, scheduledAt, draft } = req.body;
     
     if (!platformId || !libraryId || !resourcePath || !title) {
       return res.status(400).json(error('缺少必要参数'));
     }
     
+    let cover;
+    try {
+      cover = parseCoverOption(req.body.cover);
+    } catch (err: any) {
+      return res.status(400).json(error(err.message));
+    }
+    
+    // 先按平台规则校验，有违规项时返回完整报告
+    const validation = await uploadService.validateTask({
+      platformId: parseInt(platformId),
+      libraryId: parseInt(libraryId),
+      resourcePath,
+      title,
+      tags,
+      cover,
+      config: req.body.config,
+    });
+    
+    if (!validation.valid) {
+      return res.status(400).json({ ...error(formatViolations(validation)), data: validation });
+    }
+    
     const task = await uploadService.createTask({
       platformId: parseInt(platformId),
       libraryId: parseInt(libraryId),
@@ -70,9 +164,85 @@ router.post('/tasks', async (req: Request, res: Response) => {
       description,
       tags,
       scheduledAt: scheduledAt ? new Date(scheduledAt) : undefined,
+      cover,
+      config: req.body.config,
+      draft: draft === true,
+      skipValidation: true,
     });
     
-    res.json(success(task, '上传任务创建成功'));
+    res.json(success({ ...task, validation }, '上传任务创建成功'));
+  } catch (err: any) {
+    res.status(500).json(error(err.message, 500));
+  }
+});
+
+/**
+ * @swagger
+ * /api/upload/tasks/validate:
+ *   post:
+ *     summary: 校验视频是否符合平台发布规则（不创建任务）
+ *     description: 检查时长、分辨率、方向、码率、编码、文件大小、标题长度和话题数量，返回违规项和警告
+ *     tags: [Upload]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - platformId
+ *               - libraryId
+ *               - resourcePath
+ *             properties:
+ *               platformId:
+ *                 type: integer
+ *                 description: 平台账号ID
+ *               libraryId:
+ *                 type: integer
+ *                 description: 资源库ID
+ *               resourcePath:
+ *                 type: string
+ *                 description: 资源路径
+ *               title:
+ *                 type: string
+ *                 description: 视频标题
+ *               tags:
+ *                 type: string
+ *                 description: 标签（逗号分隔）
+ *               cover:
+ *                 $ref: '#/components/schemas/CoverOption'
+ *               config:
+ *                 $ref: '#/components/schemas/PublishOptions'
+ *     responses:
+ *       200:
+ *         description: 校验报告（valid、violations、warnings、media）
+ */
+router.post('/tasks/validate', async (req: Request, res: Response) => {
+  try {
+    const { platformId, libraryId, resourcePath, title, tags } = req.body;
+    
+    if (!platformId || !libraryId || !resourcePath) {
+      return res.status(400).json(error('缺少必要参数'));
+    }
+    
+    let cover;
+    try {
+      cover = parseCoverOption(req.body.cover);
+    } catch (err: any) {
+      return res.status(400).json(error(err.message));
+    }
+    
+    const report = await uploadService.validateTask({
+      platformId: parseInt(platformId),
+      libraryId: parseInt(libraryId),
+      resourcePath,
+      title: title || '',
+      tags,
+      cover,
+      config: req.body.config,
+    });
+    
+    res.json(success(report));
   } catch (err: any) {
     res.status(500).json(error(err.message, 500));
   }
@@ -94,7 +264,7 @@ router.post('/tasks', async (req: Request, res: Response) => {
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, processing, success, failed]
+ *           enum: [draft, pending, scheduled, processing, needs_attention, verifying, success, failed, cancelled, paused]
  *         description: 过滤任务状态
  *     responses:
  *       200:
@@ -115,11 +285,50 @@ router.get('/tasks', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/upload/tasks/events:
+ *   get:
+ *     summary: 订阅上传事件（SSE）
+ *     description: |
+ *       以 Server-Sent Events 推送所有任务（或指定任务）的上传事件，连接保持直到客户端断开。
+ *       事件类型: progress（上传进度）、status（任务状态变化）、result（执行结果）。
+ *       批量发布时可传入 /api/themes/{id}/batch-publish 返回的任务ID。
+ *     tags: [Upload]
+ *     parameters:
+ *       - in: query
+ *         name: taskIds
+ *         schema:
+ *           type: string
+ *         description: 只订阅这些任务（逗号分隔），不传则订阅全部任务
+ *         example: 1,2,3
+ *     responses:
+ *       200:
+ *         description: 事件流
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ */
+router.get('/tasks/events', async (req: Request, res: Response) => {
+  try {
+    const taskIds = req.query.taskIds
+      ? (req.query.taskIds as string).split(',').map(id => parseInt(id.trim())).filter(id => !isNaN(id))
+      : undefined;
+    
+    const initialEvents = taskIds ? await buildSnapshotEvents(taskIds) : [];
+    streamUploadEvents(req, res, initialEvents, taskIds);
+  } catch (err: any) {
+    res.status(500).json(error(err.message, 500));
+  }
+});
+
 /**
  * @swagger
  * /api/upload/tasks/{id}:
  *   get:
  *     summary: 获取单个上传任务
+ *     description: 平台确认发布后包含作品列表中的 videoId、videoUrl 和审核状态 reviewStatus（under_review / rejected / published），视频统计同步后通过 accountVideo 关联对应作品
  *     tags: [Upload]
  *     parameters:
  *       - in: path
@@ -166,12 +375,18 @@ router.get('/tasks/:id', async (req: Request, res: Response) => {
  *       200:
  *         description: 执行成功
  *       400:
- *         description: 任务状态不允许执行
+ *         description: 任务状态不允许执行（如已成功、执行中、草稿、已暂停）
  */
 router.post('/tasks/:id/execute', async (req: Request, res: Response) => {
   try {
     const taskId = parseInt(req.params.id);
     
+    try {
+      await uploadService.checkExecutable(taskId);
+    } catch (err: any) {
+      return res.status(400).json(error(err.message, 400));
+    }
+    
     // 异步执行上传任务,不阻塞请求
     uploadService.executeTask(taskId).then((result) => {
       console.log(`任务 #${taskId} 执行完成:`, result);
@@ -190,6 +405,7 @@ router.post('/tasks/:id/execute', async (req: Request, res: Response) => {
  * /api/upload/tasks/{id}/cancel:
  *   post:
  *     summary: 取消上传任务
+ *     description: 执行中的任务会停止上传，未执行的任务直接取消。取消后状态为 cancelled，与失败（failed）区分
  *     tags: [Upload]
  *     parameters:
  *       - in: path
@@ -202,7 +418,7 @@ router.post('/tasks/:id/execute', async (req: Request, res: Response) => {
  *       200:
  *         description: 取消成功
  *       400:
- *         description: 任务未在执行中
+ *         description: 任务状态不允许取消
  */
 router.post('/tasks/:id/cancel', async (req: Request, res: Response) => {
   try {
@@ -215,6 +431,68 @@ router.post('/tasks/:id/cancel', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/upload/tasks/{id}/pause:
+ *   post:
+ *     summary: 暂停上传任务
+ *     description: 暂停待执行或已排期的任务，暂停期间调度器不会执行该任务
+ *     tags: [Upload]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 任务ID
+ *     responses:
+ *       200:
+ *         description: 暂停成功
+ *       400:
+ *         description: 任务状态不允许暂停
+ */
+router.post('/tasks/:id/pause', async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    const task = await uploadService.pauseTask(taskId);
+    
+    res.json(success(task, '上传任务已暂停'));
+  } catch (err: any) {
+    res.status(400).json(error(err.message, 400));
+  }
+});
+
+/**
+ * @swagger
+ * /api/upload/tasks/{id}/resume:
+ *   post:
+ *     summary: 恢复上传任务
+ *     description: 恢复暂停或取消的任务、提交草稿。有计划时间的任务变为 scheduled，否则变为 pending
+ *     tags: [Upload]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 任务ID
+ *     responses:
+ *       200:
+ *         description: 恢复成功
+ *       400:
+ *         description: 任务状态不允许恢复
+ */
+router.post('/tasks/:id/resume', async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    const task = await uploadService.resumeTask(taskId);
+    
+    res.json(success(task, '上传任务已恢复'));
+  } catch (err: any) {
+    res.status(400).json(error(err.message, 400));
+  }
+});
+
 /**
  * @swagger
  * /api/upload/tasks/{id}/progress:
@@ -249,6 +527,357 @@ router.get('/tasks/:id/progress', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/upload/tasks/{id}/intervention:
+ *   get:
+ *     summary: 获取任务等待的人工处理
+ *     description: |
+ *       上传被滑块验证码、短信验证等打断时任务变为 needs_attention，并推送 attention 事件。
+ *       返回触发的验证弹窗、开始等待的时间和页面可视区域大小（远程操作的坐标基于截图）；不需要人工处理时 data 为 null
+ *     tags: [Upload]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 任务ID
+ *     responses:
+ *       200:
+ *         description: 成功
+ *       404:
+ *         description: 任务未在执行中
+ */
+router.get('/tasks/:id/intervention', async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    const intervention = uploadService.getTaskIntervention(taskId);
+    
+    res.json(success(intervention, intervention ? undefined : '任务当前不需要人工处理'));
+  } catch (err: any) {
+    res.status(404).json(error(err.message, 404));
+  }
+});
+
+/**
+ * @swagger
+ * /api/upload/tasks/{id}/intervention/screenshot:
+ *   get:
+ *     summary: 获取上传页面的实时截图
+ *     description: 每次请求都重新截取页面可视区域，远程处理验证码时轮询此接口查看页面
+ *     tags: [Upload]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 任务ID
+ *     responses:
+ *       200:
+ *         description: 截图
+ *         content:
+ *           image/jpeg:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: 任务未在执行中或页面未打开
+ */
+router.get('/tasks/:id/intervention/screenshot', async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    const screenshot = await uploadService.captureTaskScreenshot(taskId);
+    
+    res.set('Cache-Control', 'no-store');
+    res.type('image/jpeg').send(screenshot);
+  } catch (err: any) {
+    res.status(404).json(error(err.message, 404));
+  }
+});
+
+/**
+ * @swagger
+ * /api/upload/tasks/{id}/screencast:
+ *   get:
+ *     summary: 上传浏览器实时画面（MJPEG）
+ *     description: 推送正在执行任务的上传页面实时画面，可直接用 <img src="..."> 显示，远程观看和排查上传过程
+ *     tags: [Upload]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 任务ID
+ *     responses:
+ *       200:
+ *         description: 画面流
+ *         content:
+ *           multipart/x-mixed-replace:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: 任务未在执行中或页面未打开
+ */
+router.get('/tasks/:id/screencast', async (req: Request, res: Response) => {
+  let page;
+  try {
+    page = uploadService.getTaskPage(parseInt(req.params.id));
+  } catch (err: any) {
+    return res.status(404).json(error(err.message, 404));
+  }
+  
+  try {
+    await screencastService.stream(page, req, res);
+  } catch (err: any) {
+    res.status(500).json(error(err.message, 500));
+  }
+});
+
+/**
+ * @swagger
+ * /api/upload/tasks/{id}/intervention/input:
+ *   post:
+ *     summary: 远程操作上传页面
+ *     description: |
+ *       把点击、拖动、键盘输入转发到等待人工处理的上传页面，坐标为截图中的像素位置。
+ *       滑块验证码使用 drag，短信验证码先 click 输入框再 type
+ *     tags: [Upload]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 任务ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/InterventionInput'
+ *     responses:
+ *       200:
+ *         description: 操作已执行
+ *       400:
+ *         description: 操作不合法，或任务当前不需要人工处理
+ */
+router.post('/tasks/:id/intervention/input', async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    const input = parseInterventionInput(req.body);
+    await uploadService.sendInterventionInput(taskId, input);
+    
+    res.json(success(null, '操作已执行'));
+  } catch (err: any) {
+    res.status(400).json(error(err.message, 400));
+  }
+});
+
+/**
+ * @swagger
+ * /api/upload/tasks/{id}/intervention/resume:
+ *   post:
+ *     summary: 人工处理完成，继续上传
+ *     description: 验证弹窗消失后上传会自动继续；在有头浏览器中完成验证、弹窗未能自动识别时调用此接口
+ *     tags: [Upload]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 任务ID
+ *     responses:
+ *       200:
+ *         description: 已继续上传
+ *       400:
+ *         description: 任务当前不需要人工处理
+ */
+router.post('/tasks/:id/intervention/resume', async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    uploadService.resumeIntervention(taskId);
+    
+    res.json(success(null, '已继续上传'));
+  } catch (err: any) {
+    res.status(400).json(error(err.message, 400));
+  }
+});
+
+/**
+ * @swagger
+ * /api/upload/tasks/{id}/events:
+ *   get:
+ *     summary: 订阅单个任务的上传事件（SSE）
+ *     description: 连接建立后先推送任务当前状态和进度，之后实时推送 progress、status、result 事件
+ *     tags: [Upload]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 任务ID
+ *     responses:
+ *       200:
+ *         description: 事件流
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: 任务不存在
+ */
+router.get('/tasks/:id/events', async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    const initialEvents = await buildSnapshotEvents([taskId]);
+    
+    if (initialEvents.length === 0) {
+      return res.status(404).json(error('任务不存在', 404));
+    }
+    
+    streamUploadEvents(req, res, initialEvents, [taskId]);
+  } catch (err: any) {
+    res.status(500).json(error(err.message, 500));
+  }
+});
+
+/**
+ * @swagger
+ * /api/upload/tasks/{id}/attempts:
+ *   get:
+ *     summary: 获取任务执行记录
+ *     description: 返回任务每次执行的开始/结束时间、到达的进度阶段、上传器和错误信息
+ *     tags: [Upload]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 任务ID
+ *     responses:
+ *       200:
+ *         description: 成功
+ *       404:
+ *         description: 任务不存在
+ */
+router.get('/tasks/:id/attempts', async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    const task = await uploadService.getTask(taskId);
+    
+    if (!task) {
+      return res.status(404).json(error('任务不存在', 404));
+    }
+    
+    const attempts = await uploadService.getTaskAttempts(taskId);
+    res.json(success(attempts));
+  } catch (err: any) {
+    res.status(500).json(error(err.message, 500));
+  }
+});
+
+/**
+ * @swagger
+ * /api/upload/tasks/{id}/artifacts:
+ *   get:
+ *     summary: 获取任务的现场文件
+ *     description: |
+ *       按执行次数列出保存的现场文件：每次执行的 Playwright trace (trace.zip)，
+ *       失败时的整页截图 (failure.png)、页面 DOM (failure.html) 和失败信息 (failure.json)。
+ *       trace 可用 `npx playwright show-trace trace.zip` 查看
+ *     tags: [Upload]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 任务ID
+ *     responses:
+ *       200:
+ *         description: 成功
+ *       404:
+ *         description: 任务不存在
+ */
+router.get('/tasks/:id/artifacts', async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    const task = await uploadService.getTask(taskId);
+    
+    if (!task) {
+      return res.status(404).json(error('任务不存在', 404));
+    }
+    
+    const artifacts = listTaskArtifacts(taskId).map(attempt => ({
+      ...attempt,
+      files: attempt.files.map(file => ({
+        ...file,
+        url: `/api/upload/tasks/${taskId}/artifacts/${attempt.attemptNumber}/${encodeURIComponent(file.name)}`,
+      })),
+    }));
+    
+    res.json(success(artifacts));
+  } catch (err: any) {
+    res.status(500).json(error(err.message, 500));
+  }
+});
+
+/**
+ * @swagger
+ * /api/upload/tasks/{id}/artifacts/{attempt}/{file}:
+ *   get:
+ *     summary: 下载任务的现场文件
+ *     tags: [Upload]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 任务ID
+ *       - in: path
+ *         name: attempt
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 第几次执行
+ *       - in: path
+ *         name: file
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [trace.zip, failure.png, failure.html, failure.json, intervention.png]
+ *         description: 现场文件名
+ *         example: failure.png
+ *     responses:
+ *       200:
+ *         description: 文件内容
+ *       404:
+ *         description: 文件不存在或不是现场文件
+ */
+router.get('/tasks/:id/artifacts/:attempt/:file', async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    const attemptNumber = parseInt(req.params.attempt);
+    const filePath = resolveArtifactFile(taskId, attemptNumber, req.params.file);
+    
+    if (!filePath) {
+      return res.status(404).json(error('文件不存在', 404));
+    }
+    
+    res.sendFile(filePath);
+  } catch (err: any) {
+    res.status(500).json(error(err.message, 500));
+  }
+});
+
 /**
  * @swagger
  * /api/upload/tasks/{id}:
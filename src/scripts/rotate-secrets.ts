@@ -0,0 +1,125 @@
+/**
+ * 主密钥轮换
+ * 用当前主密钥（SPO_SECRET_KEY / SPO_SECRET_KEY_FILE / secrets.keyFile）读取所有 Cookie 文件、资源库凭据和账号代理密码，
+ * 再用新密钥重新加密保存。未配置当前密钥时用于首次加密已有的明文数据。
+ *
+ * 用法（需先停止服务，并备份 data 目录）:
+ *   SPO_NEW_SECRET_KEY=<新密钥> yarn secrets:rotate
+ *   yarn secrets:rotate --new-key-file /path/to/new.key
+ *   yarn secrets:rotate --decrypt        # 解密为明文保存（停用加密）
+ */
+import fs from 'fs';
+import path from 'path';
+import { GlobalConfigManager } from '../config';
+import prisma from '../models/prisma';
+import { CookieStorageService } from '../services/cookie.storage';
+import { parseNetworkProfile, serializeNetworkProfile } from '../services/network.profile';
+import { secrets, parseMasterKey } from '../services/secrets.service';
+import { ResourceLibraryModel, SECRET_CONFIG_FIELDS } from '../resources/resource.model';
+import { CookieFileData, NetworkProfile } from '../types';
+
+function readNewKey(args: string[]): Buffer | null {
+  if (args.includes('--decrypt')) {
+    return null;
+  }
+
+  const fileIndex = args.indexOf('--new-key-file');
+  if (fileIndex !== -1 && args[fileIndex + 1]) {
+    return parseMasterKey(fs.readFileSync(path.resolve(args[fileIndex + 1]), 'utf-8'));
+  }
+  if (process.env.SPO_NEW_SECRET_KEY) {
+    return parseMasterKey(process.env.SPO_NEW_SECRET_KEY);
+  }
+
+  throw new Error('请通过 SPO_NEW_SECRET_KEY 或 --new-key-file 指定新密钥（或使用 --decrypt 停用加密）');
+}
+
+// 账号使用的 Cookie 文件和 Cookie 目录中的文件
+async function listCookieFiles(): Promise<string[]> {
+  const files = new Set<string>();
+
+  const accounts = await prisma.platformAccount.findMany({ select: { cookiePath: true } });
+  accounts.forEach(account => files.add(path.resolve(account.cookiePath)));
+
+  const cookiesDir = GlobalConfigManager.getCookiesDir();
+  if (fs.existsSync(cookiesDir)) {
+    fs.readdirSync(cookiesDir)
+      .filter(name => name.endsWith('.json'))
+      .forEach(name => files.add(path.join(cookiesDir, name)));
+  }
+
+  return Array.from(files).filter(file => fs.existsSync(file));
+}
+
+async function main() {
+  const newKey = readNewKey(process.argv.slice(2));
+
+  // 第一步：用当前密钥读取全部数据，任何一项无法解密时不做修改
+  const cookieFiles: Array<{ filePath: string; data: CookieFileData }> = [];
+  const failures: string[] = [];
+
+  for (const filePath of await listCookieFiles()) {
+    const data = CookieStorageService.readCookieFile(filePath);
+    if (data) {
+      cookieFiles.push({ filePath, data });
+    } else if (fs.readFileSync(filePath, 'utf-8').includes('"encrypted"')) {
+      failures.push(filePath);
+    }
+  }
+
+  const libraries: Array<{ id: number; name: string; config: any }> = [];
+  for (const record of await prisma.resourceLibrary.findMany()) {
+    try {
+      const config = JSON.parse(record.config);
+      for (const field of SECRET_CONFIG_FIELDS) {
+        if (typeof config[field] === 'string') {
+          config[field] = secrets.decrypt(config[field]);
+        }
+      }
+      libraries.push({ id: record.id, name: record.name, config });
+    } catch (error: any) {
+      failures.push(`资源库 ${record.name}: ${error.message}`);
+    }
+  }
+
+  const profiles: Array<{ id: number; profile: NetworkProfile | null }> = [];
+  for (const account of await prisma.platformAccount.findMany({ where: { networkProfile: { not: null } } })) {
+    try {
+      profiles.push({ id: account.id, profile: parseNetworkProfile(account.networkProfile) });
+    } catch (error: any) {
+      failures.push(`账号 ${account.accountName} 的代理密码: ${error.message}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    console.error('❌ 以下数据无法用当前主密钥读取，未做任何修改:');
+    failures.forEach(item => console.error(`   - ${item}`));
+    process.exitCode = 1;
+    return;
+  }
+
+  // 第二步：切换到新密钥重新保存
+  secrets.useKey(newKey);
+
+  for (const { filePath, data } of cookieFiles) {
+    CookieStorageService.writeCookieFile(filePath, data);
+  }
+  for (const library of libraries) {
+    await ResourceLibraryModel.update(library.id, { config: library.config });
+  }
+  for (const { id, profile } of profiles) {
+    await prisma.platformAccount.update({ where: { id }, data: { networkProfile: serializeNetworkProfile(profile) } });
+  }
+
+  console.log(`✅ 已重新保存 ${cookieFiles.length} 个 Cookie 文件、${libraries.length} 个资源库配置、${profiles.length} 个账号网络配置`);
+  console.log(newKey
+    ? '🔑 请将 SPO_SECRET_KEY（或密钥文件）更新为新密钥后再启动服务'
+    : '🔓 数据已解密为明文，请移除 SPO_SECRET_KEY（或密钥文件）配置后再启动服务');
+}
+
+main()
+  .catch(error => {
+    console.error('❌ 密钥轮换失败:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -49,6 +49,7 @@ export class AccountStatsService {
         total: syncResult.total,
         created: syncResult.created,
         updated: syncResult.updated,
+        linkedTasks: syncResult.linked,
       };
     } finally {
       await service.closeBrowser();
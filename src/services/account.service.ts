@@ -2,11 +2,27 @@ import { AccountModel } from '../models/account.model';
 import { PlaywrightService } from './playwright.service';
 import { CookieValidator } from './cookie.validator';
 import { CookieStorageService } from './cookie.storage';
-import { Platform } from '../types';
+import {
+  networkProfileService,
+  parseNetworkProfile,
+  serializeNetworkProfile,
+  toContextOptions,
+  REDACTED_PASSWORD,
+} from './network.profile';
+import { QrCodeLoginWatcher, QrLoginState } from './qrcode.login';
+import { loginSessions } from './login.sessions';
+import { CookieFormat, detectCookieFormat } from './cookie.formats';
+import { cookieExpiryService } from './cookie.expiry';
+import { PlatformLoginFactory } from '../platforms';
+import { Platform, NetworkProfile, LoginMode, LoginSessionInfo, PlatformAccountInfo, CookieValidation } from '../types';
 import { PlatformAccount } from '@prisma/client';
+import { Page } from 'playwright';
+
+// 扫码登录结束后保留状态的时间
+const QR_SESSION_RETENTION_MS = 5 * 60 * 1000;
 
 export class AccountService {
-  private static activeSessions: Map<string, PlaywrightService> = new Map();
+  private static qrWatchers: Map<string, QrCodeLoginWatcher> = new Map();    // 扫码登录会话，完成后保留一段时间供前端查询结果
 
   // 获取所有账号
   async getAllAccounts(): Promise<PlatformAccount[]> {
@@ -24,66 +40,264 @@ export class AccountService {
   }
 
   // 创建新账号（第一步：打开浏览器）
-  async startLogin(platform: Platform, accountName: string): Promise<string> {
+  async startLogin(
+    platform: Platform,
+    accountName: string,
+    networkProfile: NetworkProfile | null = null,
+    mode: LoginMode = 'browser',
+    accountId?: number
+  ): Promise<string> {
+    if (mode === 'qrcode' && PlatformLoginFactory.isSupported(platform) && !PlatformLoginFactory.getHandler(platform).qrCode) {
+      throw new Error(`平台 ${platform} 不支持扫码登录`);
+    }
+
     const sessionId = `${platform}_${Date.now()}`;
     const service = new PlaywrightService();
     
-    await service.launchForLogin(platform);
+    // 登录时就使用账号的代理和指纹，避免登录和上传的出口 IP 不一致（重新登录时改派的代理保存到原账号）
+    const { profile, proxy } = await networkProfileService.resolveProxy(networkProfile, accountId);
+    const context = await service.launchForLogin(platform, toContextOptions(profile, proxy), mode === 'qrcode');
+
+    // 扫码登录：确认登录后自动保存账号
+    let qrWatcher: QrCodeLoginWatcher | undefined;
+    if (mode === 'qrcode') {
+      qrWatcher = new QrCodeLoginWatcher(
+        sessionId,
+        context,
+        PlatformLoginFactory.getHandler(platform),
+        () => this.finishLogin(sessionId, platform, accountName)
+      );
+      AccountService.qrWatchers.set(sessionId, qrWatcher);
+    }
     
     // 保存会话
-    AccountService.activeSessions.set(sessionId, service);
+    loginSessions.add({
+      sessionId,
+      platform,
+      accountName,
+      mode,
+      service,
+      context,
+      profile,
+      accountId,
+      qrWatcher,
+      onClose: () => {
+        qrWatcher?.abort('登录会话已关闭，请重新开始登录');
+        this.releaseQrWatcher(sessionId);
+      },
+    });
+    qrWatcher?.start();
     
     return sessionId;
   }
 
   // 完成登录并保存账号（第二步：保存 Cookie）
-  async finishLogin(sessionId: string, platform: Platform, accountName: string): Promise<number> {
-    const service = AccountService.activeSessions.get(sessionId);
+  // 重新登录已有账号时更新原账号；force: 登录的账号与原账号不一致时仍然保存
+  async finishLogin(sessionId: string, platform: Platform, accountName: string, force = false): Promise<number> {
+    const session = loginSessions.get(sessionId);
     
-    if (!service) {
+    if (!session) {
       throw new Error('登录会话不存在或已过期');
     }
+    if (session.state === 'finishing') {
+      throw new Error('正在保存账号，请稍候');
+    }
+
+    loginSessions.setState(sessionId, 'finishing');
+
+    // 先确认登录的是原账号，不一致时保留浏览器，可以切换账号后重试
+    let refreshing: { account: PlatformAccount; info: PlatformAccountInfo } | undefined;
+    if (session.accountId !== undefined) {
+      try {
+        refreshing = await this.checkRefreshLogin(session.accountId, session.service, platform, force);
+      } catch (error) {
+        loginSessions.setState(sessionId, 'active');
+        throw error;
+      }
+    }
+
+    this.releaseQrWatcher(sessionId);
 
     try {
-      // 保存登录数据（使用 UUID 文件名）
-      const cookiePath = await service.saveLoginData(platform);
+      // 保存登录数据（使用 UUID 文件名，重新登录时写回原文件）
+      const cookiePath = await session.service.saveLoginData(platform, undefined, refreshing?.account.cookiePath);
+
+      const cookieExpiresAt = cookieExpiryService.forecast(platform, cookiePath);
 
       // 关闭浏览器
-      await service.closeBrowser();
+      loginSessions.remove(sessionId);
+      await session.service.closeBrowser();
+
+      // 更新原账号，视频、快照、主题关联等历史数据保持不变
+      if (refreshing) {
+        const { account, info } = refreshing;
+        await AccountModel.update(account.id, {
+          cookiePath,
+          userId: info.userId || account.userId,
+          username: info.username || account.username,
+          avatar: info.avatar || account.avatar,
+          followersCount: info.followersCount ?? account.followersCount,
+          totalFavorited: info.totalFavorited ?? account.totalFavorited,
+          description: info.description || account.description,
+          networkProfile: session.profile ? serializeNetworkProfile(session.profile) : account.networkProfile,
+          cookieExpiresAt,
+        });
+        console.log(`✅ 账号 ${account.accountName} 已重新登录`);
+        return account.id;
+      }
 
       // 创建账号记录
       const account = await AccountModel.create({
         platform,
         accountName,
         cookiePath,
+        networkProfile: serializeNetworkProfile(session.profile),
+        cookieExpiresAt,
         isActive: true,
       });
 
-      // 清理会话
-      AccountService.activeSessions.delete(sessionId);
-
       return account.id;
     } catch (error) {
       // 清理会话
-      await service.closeBrowser();
-      AccountService.activeSessions.delete(sessionId);
+      await loginSessions.close(sessionId);
       throw error;
     }
   }
 
+  // 重新登录时获取登录的账号信息，确认与原账号是同一个平台用户
+  private async checkRefreshLogin(
+    accountId: number,
+    service: PlaywrightService,
+    platform: Platform,
+    force: boolean
+  ): Promise<{ account: PlatformAccount; info: PlatformAccountInfo }> {
+    const account = await AccountModel.findById(accountId);
+
+    if (!account) {
+      throw new Error('账号不存在');
+    }
+
+    let info: PlatformAccountInfo = {};
+    try {
+      info = await service.getAccountInfo(platform);
+    } catch (error: any) {
+      console.warn('⚠️ 获取登录账号信息失败:', error.message);
+    }
+
+    if (!info.userId || !account.userId) {
+      console.warn(`⚠️ 无法确认登录的是否为原账号 ${account.accountName}（缺少用户ID）`);
+    } else if (info.userId !== account.userId) {
+      if (!force) {
+        throw new Error(
+          `登录的账号 (${info.username || info.userId}) 与原账号 (${account.username || account.userId}) 不一致，请切换账号后重试，或确认后强制保存`
+        );
+      }
+      console.warn(`⚠️ 登录的账号 (${info.userId}) 与原账号 (${account.userId}) 不一致，已强制保存`);
+    }
+
+    return { account, info };
+  }
+
   // 取消登录
   async cancelLogin(sessionId: string): Promise<void> {
-    const service = AccountService.activeSessions.get(sessionId);
-    
-    if (service) {
-      await service.closeBrowser();
-      AccountService.activeSessions.delete(sessionId);
+    await loginSessions.close(sessionId);
+    AccountService.qrWatchers.delete(sessionId);
+  }
+
+  // 获取所有登录会话
+  getLoginSessions(): LoginSessionInfo[] {
+    return loginSessions.list();
+  }
+
+  // 获取登录会话的浏览器页面（录屏使用）
+  getLoginPage(sessionId: string): Page {
+    const session = loginSessions.get(sessionId);
+
+    if (!session) {
+      throw new Error('登录会话不存在或已过期');
+    }
+
+    const page = session.service.getPage();
+    if (!page) {
+      throw new Error('登录页面未打开');
     }
+
+    loginSessions.touch(sessionId);
+    return page;
   }
 
-  // 更新账号
-  async updateAccount(id: number, updates: Partial<PlatformAccount>): Promise<PlatformAccount> {
-    return await AccountModel.update(id, updates);
+  // 获取扫码登录状态
+  getQrLoginState(sessionId: string): QrLoginState {
+    return this.getQrWatcher(sessionId).getState();
+  }
+
+  // 获取扫码登录的二维码图片（PNG）
+  getQrCodeImage(sessionId: string): Buffer {
+    const image = this.getQrWatcher(sessionId).getQrCode();
+    loginSessions.touch(sessionId);
+
+    if (!image) {
+      throw new Error('二维码尚未加载');
+    }
+
+    return image;
+  }
+
+  private getQrWatcher(sessionId: string): QrCodeLoginWatcher {
+    const watcher = AccountService.qrWatchers.get(sessionId);
+
+    if (!watcher) {
+      throw new Error('扫码登录会话不存在或已过期');
+    }
+
+    return watcher;
+  }
+
+  // 停止检查扫码状态，保留一段时间供前端查询登录结果
+  private releaseQrWatcher(sessionId: string): void {
+    const watcher = AccountService.qrWatchers.get(sessionId);
+    if (!watcher) return;
+
+    watcher.stop();
+    setTimeout(() => {
+      if (AccountService.qrWatchers.get(sessionId) === watcher) {
+        AccountService.qrWatchers.delete(sessionId);
+      }
+    }, QR_SESSION_RETENTION_MS).unref();
+  }
+
+  // 更新账号（networkProfile 为已校验的网络配置，null 表示清除）
+  async updateAccount(
+    id: number,
+    updates: Omit<Partial<PlatformAccount>, 'networkProfile'> & { networkProfile?: NetworkProfile | null }
+  ): Promise<PlatformAccount> {
+    const { networkProfile, ...data } = updates;
+    
+    if (networkProfile === undefined) {
+      return await AccountModel.update(id, data);
+    }
+    
+    const keepPoolProxy = networkProfile?.useProxyPool && !networkProfile.poolProxy;
+    const keepPassword = networkProfile?.proxy?.password === REDACTED_PASSWORD;
+    
+    if (networkProfile && (keepPoolProxy || keepPassword)) {
+      const account = await AccountModel.findById(id);
+      const current = parseNetworkProfile(account?.networkProfile);
+      
+      // 继续使用代理池时保留已分配的代理，避免出口 IP 变化
+      if (keepPoolProxy && current?.poolProxy) {
+        networkProfile.poolProxy = current.poolProxy;
+      }
+      // 接口返回的代理密码已隐藏，原样提交时保留原密码
+      if (keepPassword) {
+        networkProfile.proxy!.password = current?.proxy?.password;
+      }
+    }
+    
+    return await AccountModel.update(id, {
+      ...data,
+      networkProfile: serializeNetworkProfile(networkProfile),
+    });
   }
 
   // 删除账号（同时删除 Cookie 文件）
@@ -113,16 +327,96 @@ export class AccountService {
     return await CookieValidator.validate(account.platform as Platform, account.cookiePath);
   }
 
-  // 刷新账号 Cookie（重新登录）
-  async refreshAccount(id: number): Promise<string> {
+  // 刷新账号 Cookie（重新登录，完成登录时更新原账号）
+  async refreshAccount(id: number, mode: LoginMode = 'browser'): Promise<string> {
     const account = await AccountModel.findById(id);
     
     if (!account) {
       throw new Error('账号不存在');
     }
 
-    // 返回 sessionId，让前端引导用户重新登录
-    return await this.startLogin(account.platform as Platform, account.accountName);
+    // 返回 sessionId，让前端引导用户重新登录（使用账号原有的网络配置）
+    return await this.startLogin(
+      account.platform as Platform,
+      account.accountName,
+      parseNetworkProfile(account.networkProfile),
+      mode,
+      account.id
+    );
+  }
+
+  // 检测账号实际使用的代理是否可用
+  async checkAccountNetwork(id: number) {
+    const account = await AccountModel.findById(id);
+    
+    if (!account) {
+      throw new Error('账号不存在');
+    }
+
+    return await networkProfileService.checkAccount(account);
+  }
+
+  // 导入账号：保存其他工具导出的 Cookie，验证通过后按平台账号信息填写资料
+  async importAccount(
+    platform: Platform,
+    accountName: string,
+    input: unknown,
+    format?: CookieFormat,
+    networkProfile: NetworkProfile | null = null
+  ): Promise<{ account: PlatformAccount; format: CookieFormat }> {
+    const detected = format ?? detectCookieFormat(input);
+    const cookiePath = CookieStorageService.importCookieFile(platform, input, detected);
+
+    let account: PlatformAccount;
+    let validation: CookieValidation;
+    try {
+      // 账号记录还没有创建，按传入的网络配置验证；代理池分配的代理随账号一起保存，之后固定使用
+      const { profile, proxy } = await networkProfileService.resolveProxy(networkProfile);
+      validation = await CookieValidator.validate(platform, cookiePath, toContextOptions(profile, proxy));
+      if (!validation.isValid) {
+        throw new Error(`导入的 Cookie 无效: ${validation.message}`);
+      }
+
+      // 验证通过后才创建账号记录
+      account = await AccountModel.create({
+        platform,
+        accountName,
+        cookiePath,
+        networkProfile: serializeNetworkProfile(profile),
+        isActive: true,
+      });
+    } catch (error) {
+      CookieStorageService.deleteCookieFile(cookiePath);
+      throw error;
+    }
+
+    const info = validation.accountInfo ?? {};
+    const updated = await AccountModel.update(account.id, {
+      userId: info.userId,
+      username: info.username,
+      avatar: info.avatar,
+      followersCount: info.followersCount,
+      totalFavorited: info.totalFavorited,
+      description: info.description,
+      cookieExpiresAt: cookieExpiryService.forecast(platform, cookiePath),
+    });
+
+    console.log(`✅ 已导入账号 ${accountName} (${detected})`);
+    return { account: updated, format: detected };
+  }
+
+  // 导出账号的 Cookie
+  async exportAccountCookies(id: number, format: CookieFormat) {
+    const account = await AccountModel.findById(id);
+    
+    if (!account) {
+      throw new Error('账号不存在');
+    }
+
+    return {
+      account,
+      ...CookieStorageService.exportCookieFile(account.cookiePath, format),
+    };
   }
 
   // 获取账号的 Cookie 文件详情
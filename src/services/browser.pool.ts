@@ -0,0 +1,429 @@
+import { chromium, Browser, BrowserContext, BrowserContextOptions } from 'playwright';
+import fs from 'fs';
+import { appConfig, BrowserPoolOptions } from '../config/loader';
+import { CookieStorageService } from './cookie.storage';
+import { networkProfileService } from './network.profile';
+
+// 未配置时使用的默认浏览器池配置
+export const DEFAULT_BROWSER_POOL_OPTIONS: BrowserPoolOptions = {
+  maxBrowsers: 2,
+  maxContextsPerBrowser: 5,
+  idleTimeoutSeconds: 300,
+  acquireTimeoutSeconds: 600,
+  headless: true,
+};
+
+/**
+ * 获取浏览器池配置
+ * 优先级: 配置文件 > 内置默认值
+ */
+export function resolveBrowserPoolOptions(
+  options = appConfig.browserPool
+): BrowserPoolOptions {
+  return {
+    ...DEFAULT_BROWSER_POOL_OPTIONS,
+    ...options,
+  };
+}
+
+// 启动浏览器（测试时可替换）
+export type BrowserLauncher = (headless: boolean) => Promise<Browser>;
+
+// 获取账号的网络配置（代理、指纹）对应的上下文参数（测试时可替换）
+export type NetworkResolver = (cookiePath: string) => Promise<BrowserContextOptions>;
+
+interface PooledBrowser {
+  browser: Browser;
+  contexts: Set<PooledContext>;
+  lastUsedAt: number;
+}
+
+interface PooledContext {
+  cookiePath: string;
+  context: BrowserContext;
+  owner: PooledBrowser;
+  leased: boolean;
+  lastUsedAt: number;
+  cookieMtime: number;  // 创建/保存时 Cookie 文件的修改时间，文件被外部修改后重新创建上下文
+  networkKey: string;   // 创建时的网络配置，账号网络配置变化后重新创建上下文
+}
+
+// 浏览器租约，用完必须 release
+export interface BrowserLease {
+  context: BrowserContext;
+  isNew: boolean;  // 是否为新创建的上下文（新上下文需要添加初始化脚本等）
+  release(options?: { saveState?: boolean }): Promise<void>;
+}
+
+/**
+ * 浏览器池
+ * 限制同时运行的浏览器数量，每个账号（Cookie 文件）一个独立的上下文，
+ * 同一账号的上下文在统计同步、上传之间复用，同一时间只租给一个调用方；
+ * 上下文按账号的网络配置设置代理和浏览器指纹；
+ * 所有浏览器使用配置的同一种模式（无头/有界面），不会因为调用方不同而重建账号的上下文；
+ * 空闲超时后关闭，浏览器崩溃时丢弃其上下文，下次使用时重新创建
+ */
+export class BrowserPool {
+  private static instance: BrowserPool;
+
+  private browsers: PooledBrowser[] = [];
+  private contexts: Map<string, PooledContext> = new Map();
+  private creating: Set<string> = new Set();  // 正在创建上下文的账号
+  private launching = 0;                       // 正在启动的浏览器数
+  private waiters: Array<() => void> = [];
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    private options: BrowserPoolOptions = resolveBrowserPoolOptions(),
+    private launcher: BrowserLauncher = (headless) => chromium.launch({ headless }),
+    private resolveNetwork: NetworkResolver = (cookiePath) => networkProfileService.getContextOptions(cookiePath)
+  ) {}
+
+  static getInstance(): BrowserPool {
+    if (!BrowserPool.instance) {
+      BrowserPool.instance = new BrowserPool();
+    }
+    return BrowserPool.instance;
+  }
+
+  /**
+   * 租用账号的浏览器上下文
+   * 账号的上下文正在被使用时等待释放；浏览器数已达上限时先关闭最久未用的空闲上下文，仍不够则等待
+   * @param cookiePath 账号的 Cookie 文件
+   * @param options.network 上下文的网络配置，默认按 Cookie 文件所属账号的网络配置（导入账号时账号记录还不存在）
+   */
+  async acquire(cookiePath: string, options: { network?: BrowserContextOptions } = {}): Promise<BrowserLease> {
+    const deadline = Date.now() + this.options.acquireTimeoutSeconds * 1000;
+    const network = options.network ?? await this.resolveNetwork(cookiePath);
+    const networkKey = JSON.stringify(network);
+    this.startSweeper();
+
+    while (true) {
+      const existing = this.contexts.get(cookiePath);
+
+      if (existing?.leased || this.creating.has(cookiePath)) {
+        await this.waitForRelease(deadline);
+        continue;
+      }
+
+      if (existing) {
+        if (existing.networkKey === networkKey && !this.isStale(existing)) {
+          existing.leased = true;
+          existing.lastUsedAt = Date.now();
+          existing.owner.lastUsedAt = existing.lastUsedAt;
+          return this.createLease(existing, false);
+        }
+        await this.closeContext(existing);
+      }
+
+      this.creating.add(cookiePath);
+      try {
+        const owner = await this.findBrowser();
+        if (owner) {
+          const entry = await this.createContext(owner, cookiePath, network, networkKey);
+          return this.createLease(entry, true);
+        }
+      } finally {
+        this.creating.delete(cookiePath);
+      }
+
+      // 没有可用的浏览器：关闭一个空闲上下文后重试，都在使用中则等待
+      if (!(await this.evictIdle())) {
+        await this.waitForRelease(deadline);
+      }
+    }
+  }
+
+  /**
+   * 关闭账号的上下文（如账号重新登录、被删除）
+   */
+  async invalidate(cookiePath: string): Promise<void> {
+    const entry = this.contexts.get(cookiePath);
+    if (entry && !entry.leased) {
+      await this.closeContext(entry, false);
+    }
+  }
+
+  /**
+   * 关闭所有浏览器（服务关闭时调用）
+   */
+  async closeAll(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+
+    for (const entry of Array.from(this.contexts.values())) {
+      await this.closeContext(entry, !entry.leased);
+    }
+    for (const owner of [...this.browsers]) {
+      await this.closeBrowser(owner);
+    }
+  }
+
+  /**
+   * 当前池中的浏览器和上下文数量
+   */
+  getStats(): { browsers: number; contexts: number; leased: number } {
+    const contexts = Array.from(this.contexts.values());
+    return {
+      browsers: this.browsers.length,
+      contexts: contexts.length,
+      leased: contexts.filter(c => c.leased).length,
+    };
+  }
+
+  /**
+   * 关闭超过空闲时间的上下文和浏览器
+   */
+  async sweepIdle(now: number = Date.now()): Promise<void> {
+    const expireBefore = now - this.options.idleTimeoutSeconds * 1000;
+
+    for (const entry of Array.from(this.contexts.values())) {
+      if (!entry.leased && entry.lastUsedAt < expireBefore) {
+        console.log(`💤 关闭空闲的浏览器上下文: ${entry.cookiePath}`);
+        await this.closeContext(entry);
+      }
+    }
+
+    for (const owner of [...this.browsers]) {
+      if (owner.contexts.size === 0 && owner.lastUsedAt < expireBefore) {
+        await this.closeBrowser(owner);
+      }
+    }
+  }
+
+  private startSweeper(): void {
+    if (this.sweepTimer) return;
+
+    const interval = Math.min(30, this.options.idleTimeoutSeconds) * 1000;
+    this.sweepTimer = setInterval(() => {
+      this.sweepIdle().catch(error => console.error('❌ 清理空闲浏览器失败:', error));
+    }, interval);
+    // 不阻止进程退出
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * 找一个可以创建上下文的浏览器，必要时启动新浏览器；已达上限时返回 null
+   */
+  private async findBrowser(): Promise<PooledBrowser | null> {
+    const available = this.browsers.find(b =>
+      b.browser.isConnected() &&
+      b.contexts.size < this.options.maxContextsPerBrowser
+    );
+    if (available) {
+      return available;
+    }
+
+    if (this.browsers.length + this.launching >= this.options.maxBrowsers) {
+      return null;
+    }
+
+    const headless = this.options.headless;
+    this.launching++;
+    try {
+      const browser = await this.launcher(headless);
+      const owner: PooledBrowser = { browser, contexts: new Set(), lastUsedAt: Date.now() };
+
+      // 浏览器崩溃或被关闭时丢弃它的所有上下文
+      browser.on('disconnected', () => this.handleDisconnected(owner));
+
+      this.browsers.push(owner);
+      console.log(`🌐 浏览器池启动浏览器 (${headless ? '无头' : '有界面'})，当前 ${this.browsers.length}/${this.options.maxBrowsers}`);
+      return owner;
+    } finally {
+      this.launching--;
+    }
+  }
+
+  private async createContext(
+    owner: PooledBrowser,
+    cookiePath: string,
+    network: BrowserContextOptions,
+    networkKey: string
+  ): Promise<PooledContext> {
+    const storageState = CookieStorageService.getStorageState(cookiePath);
+    if (!storageState) {
+      throw new Error('Cookie 文件读取失败');
+    }
+
+    // 代理按上下文设置，同一浏览器中的账号可以使用不同的代理
+    // 验证、统计同步、上传都从这里创建上下文，Cookie 和 localStorage 一起恢复
+    const context = await owner.browser.newContext({
+      ...network,
+      storageState,
+    });
+
+    const entry: PooledContext = {
+      cookiePath,
+      context,
+      owner,
+      leased: true,
+      lastUsedAt: Date.now(),
+      cookieMtime: this.getCookieMtime(cookiePath),
+      networkKey,
+    };
+
+    context.on('close', () => this.removeContext(entry));
+
+    owner.contexts.add(entry);
+    owner.lastUsedAt = entry.lastUsedAt;
+    this.contexts.set(cookiePath, entry);
+
+    return entry;
+  }
+
+  private createLease(entry: PooledContext, isNew: boolean): BrowserLease {
+    let released = false;
+
+    return {
+      context: entry.context,
+      isNew,
+      release: async (options: { saveState?: boolean } = {}) => {
+        if (released) return;
+        released = true;
+
+        try {
+          // 关闭本次打开的页面，上下文保留给下次使用
+          for (const page of entry.context.pages()) {
+            await page.close().catch(() => undefined);
+          }
+
+          if (options.saveState !== false) {
+            await this.saveState(entry);
+          }
+        } catch (error) {
+          console.warn('⚠️ 释放浏览器上下文失败:', error);
+        } finally {
+          entry.leased = false;
+          entry.lastUsedAt = Date.now();
+          entry.owner.lastUsedAt = entry.lastUsedAt;
+          this.notify();
+        }
+      },
+    };
+  }
+
+  /**
+   * 把上下文中最新的 Cookie 和 localStorage 写回 Cookie 文件
+   */
+  private async saveState(entry: PooledContext): Promise<void> {
+    if (!this.contexts.has(entry.cookiePath) || !entry.owner.browser.isConnected()) {
+      return;
+    }
+
+    // Cookie 文件已被外部修改（如重新登录），不能用旧的登录状态覆盖
+    if (this.getCookieMtime(entry.cookiePath) !== entry.cookieMtime) {
+      return;
+    }
+
+    try {
+      const state = await entry.context.storageState();
+      if (CookieStorageService.updateCookieFile(entry.cookiePath, state.cookies, state.origins)) {
+        entry.cookieMtime = this.getCookieMtime(entry.cookiePath);
+      }
+    } catch (error) {
+      console.warn('⚠️ 保存浏览器登录状态失败:', error);
+    }
+  }
+
+  /**
+   * 关闭最久未用的空闲上下文，返回是否关闭了上下文
+   */
+  private async evictIdle(): Promise<boolean> {
+    const idle = Array.from(this.contexts.values())
+      .filter(entry => !entry.leased)
+      .sort((a, b) => a.lastUsedAt - b.lastUsedAt)[0];
+
+    if (!idle) {
+      return false;
+    }
+
+    await this.closeContext(idle);
+    return true;
+  }
+
+  private async closeContext(entry: PooledContext, saveState: boolean = true): Promise<void> {
+    if (saveState) {
+      await this.saveState(entry);
+    }
+
+    this.removeContext(entry);
+    await entry.context.close().catch(() => undefined);
+
+    // 浏览器上没有其他上下文时一起关闭，空出名额
+    if (entry.owner.contexts.size === 0) {
+      await this.closeBrowser(entry.owner);
+    }
+  }
+
+  private async closeBrowser(owner: PooledBrowser): Promise<void> {
+    this.removeBrowser(owner);
+    await owner.browser.close().catch(() => undefined);
+  }
+
+  private removeContext(entry: PooledContext): void {
+    entry.owner.contexts.delete(entry);
+    if (this.contexts.get(entry.cookiePath) === entry) {
+      this.contexts.delete(entry.cookiePath);
+    }
+    this.notify();
+  }
+
+  private removeBrowser(owner: PooledBrowser): void {
+    const index = this.browsers.indexOf(owner);
+    if (index !== -1) {
+      this.browsers.splice(index, 1);
+    }
+    for (const entry of Array.from(owner.contexts)) {
+      this.removeContext(entry);
+    }
+    this.notify();
+  }
+
+  private handleDisconnected(owner: PooledBrowser): void {
+    if (!this.browsers.includes(owner)) return;
+
+    console.warn(`⚠️ 浏览器已断开，丢弃 ${owner.contexts.size} 个上下文，下次使用时重新启动`);
+    this.removeBrowser(owner);
+  }
+
+  private isStale(entry: PooledContext): boolean {
+    return !entry.owner.browser.isConnected() || this.getCookieMtime(entry.cookiePath) !== entry.cookieMtime;
+  }
+
+  private getCookieMtime(cookiePath: string): number {
+    try {
+      return fs.statSync(cookiePath).mtimeMs;
+    } catch {
+      return 0;
+    }
+  }
+
+  private waitForRelease(deadline: number): Promise<void> {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return Promise.reject(new Error('等待可用浏览器超时，请稍后重试'));
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, remaining);
+      const waiter = () => done();
+      function done() {
+        clearTimeout(timer);
+        resolve();
+      }
+      this.waiters.push(waiter);
+    });
+  }
+
+  private notify(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(waiter => waiter());
+  }
+}
+
+// 导出单例
+export const browserPool = BrowserPool.getInstance();
@@ -0,0 +1,126 @@
+import { PlatformAccount } from '@prisma/client';
+import { Cookie } from 'playwright';
+import { appConfig } from '../config/loader';
+import { AccountModel } from '../models/account.model';
+import { PlatformRegistry } from '../platforms/registry';
+import { Platform } from '../types';
+import { CookieStorageService } from './cookie.storage';
+
+// 未配置时的提醒窗口（小时）
+export const DEFAULT_EXPIRING_WITHIN_HOURS = 72;
+
+/**
+ * 获取登录过期提醒窗口（小时）
+ * 优先级: 配置文件 > 内置默认值
+ */
+export function resolveExpiringWithinHours(
+  hours = appConfig.accounts.refreshCookies.expiringWithinHours
+): number {
+  return hours !== undefined && hours > 0 ? hours : DEFAULT_EXPIRING_WITHIN_HOURS;
+}
+
+/**
+ * 预测登录过期时间：关键 Cookie 中最早的过期时间
+ * 会话 Cookie（expires <= 0）不参与计算
+ * @returns 没有配置关键 Cookie 或文件中没有带过期时间的关键 Cookie 时返回 null
+ */
+export function predictCookieExpiry(cookies: Cookie[], authCookies: string[] = []): Date | null {
+  const expires = cookies
+    .filter(cookie => authCookies.includes(cookie.name) && cookie.expires > 0)
+    .map(cookie => cookie.expires);
+
+  return expires.length > 0 ? new Date(Math.min(...expires) * 1000) : null;
+}
+
+// 即将过期的账号
+export interface ExpiringAccount {
+  id: number;
+  platform: string;
+  accountName: string;
+  username: string | null;
+  cookieExpiresAt: Date;
+  expired: boolean;    // 已经过期
+  hoursLeft: number;   // 距离过期的小时数，已过期时为 0
+}
+
+/**
+ * 账号登录过期预测服务
+ * 读取账号 Cookie 文件计算预计过期时间并写入账号，列出需要重新登录的账号
+ */
+export class CookieExpiryService {
+  private static instance: CookieExpiryService;
+
+  static getInstance(): CookieExpiryService {
+    if (!CookieExpiryService.instance) {
+      CookieExpiryService.instance = new CookieExpiryService();
+    }
+    return CookieExpiryService.instance;
+  }
+
+  /**
+   * 根据 Cookie 文件预测账号的登录过期时间
+   */
+  forecast(platform: Platform, cookiePath: string): Date | null {
+    const cookies = CookieStorageService.getCookiesArray(cookiePath);
+    if (!cookies) {
+      return null;
+    }
+    return predictCookieExpiry(cookies, PlatformRegistry.getConfig(platform)?.authCookies);
+  }
+
+  /**
+   * 重新计算账号的预计过期时间并保存
+   */
+  async updateAccount(account: PlatformAccount): Promise<Date | null> {
+    const expiresAt = this.forecast(account.platform as Platform, account.cookiePath);
+
+    if (expiresAt?.getTime() !== account.cookieExpiresAt?.getTime()) {
+      await AccountModel.update(account.id, { cookieExpiresAt: expiresAt });
+    }
+    return expiresAt;
+  }
+
+  /**
+   * 重新计算所有活跃账号的预计过期时间，单个账号失败不影响其他账号
+   */
+  async updateAll(): Promise<void> {
+    const accounts = (await AccountModel.findAll()).filter(account => account.isActive);
+
+    for (const account of accounts) {
+      try {
+        await this.updateAccount(account);
+      } catch (error) {
+        console.error(`  ❌ 计算Cookie过期时间失败: ${account.accountName}`, error);
+      }
+    }
+  }
+
+  /**
+   * 列出登录在指定小时内过期（包括已过期）的活跃账号
+   */
+  async getExpiringAccounts(
+    withinHours = resolveExpiringWithinHours(),
+    now: Date = new Date()
+  ): Promise<ExpiringAccount[]> {
+    const before = new Date(now.getTime() + withinHours * 60 * 60 * 1000);
+    const accounts = await AccountModel.findExpiringBefore(before);
+
+    return accounts.map(account => {
+      const cookieExpiresAt = account.cookieExpiresAt!;
+      const msLeft = cookieExpiresAt.getTime() - now.getTime();
+
+      return {
+        id: account.id,
+        platform: account.platform,
+        accountName: account.accountName,
+        username: account.username,
+        cookieExpiresAt,
+        expired: msLeft <= 0,
+        hoursLeft: msLeft > 0 ? Math.round(msLeft / 360000) / 10 : 0,
+      };
+    });
+  }
+}
+
+// 导出单例
+export const cookieExpiryService = CookieExpiryService.getInstance();
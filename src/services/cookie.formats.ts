@@ -0,0 +1,236 @@
+import { Cookie } from 'playwright';
+import { CookieFileData, OriginData } from '../types';
+
+/**
+ * Cookie 导入/导出格式
+ * - storage-state: Playwright storageState JSON（{ cookies, origins }）
+ * - netscape: cookies.txt（curl、yt-dlp、浏览器扩展常用）
+ * - editthiscookie: EditThisCookie 等浏览器扩展导出的 JSON 数组
+ */
+export type CookieFormat = 'storage-state' | 'netscape' | 'editthiscookie';
+
+export const COOKIE_FORMATS: CookieFormat[] = ['storage-state', 'netscape', 'editthiscookie'];
+
+// 解析后的登录状态
+export interface ImportedCookies {
+  format: CookieFormat;
+  cookies: Cookie[];
+  origins: OriginData[];
+}
+
+// 导出结果
+export interface ExportedCookies {
+  content: string;
+  contentType: string;
+  fileExtension: string;
+}
+
+// EditThisCookie 的 sameSite 取值
+const EDIT_THIS_COOKIE_SAME_SITE: Record<string, Cookie['sameSite']> = {
+  no_restriction: 'None',
+  lax: 'Lax',
+  strict: 'Strict',
+};
+
+const NETSCAPE_HTTP_ONLY_PREFIX = '#HttpOnly_';
+
+/**
+ * 识别 Cookie 数据的格式
+ */
+export function detectCookieFormat(input: unknown): CookieFormat {
+  if (Array.isArray(input)) {
+    return 'editthiscookie';
+  }
+  if (input && typeof input === 'object') {
+    return 'storage-state';
+  }
+  if (typeof input === 'string') {
+    const text = input.trim();
+    if (text.startsWith('[')) return 'editthiscookie';
+    if (text.startsWith('{')) return 'storage-state';
+    if (text.split('\n').some(line => line.split('\t').length >= 7)) return 'netscape';
+  }
+  throw new Error('无法识别 Cookie 格式，支持: storage-state / netscape / editthiscookie');
+}
+
+/**
+ * 解析导入的 Cookie（未指定格式时自动识别）
+ * @param input 文件内容，JSON 格式也可以是已解析的对象
+ */
+export function parseCookies(input: unknown, format: CookieFormat = detectCookieFormat(input)): ImportedCookies {
+  let cookies: Cookie[];
+  let origins: OriginData[] = [];
+
+  switch (format) {
+    case 'storage-state': {
+      const state = parseJson(input);
+      if (!state || typeof state !== 'object' || !Array.isArray(state.cookies)) {
+        throw new Error('storageState 必须包含 cookies 数组');
+      }
+      cookies = state.cookies.map((cookie: any, index: number) => normalizeCookie(cookie, index));
+      origins = Array.isArray(state.origins) ? state.origins.filter(isOriginData) : [];
+      break;
+    }
+    case 'editthiscookie': {
+      const items = parseJson(input);
+      if (!Array.isArray(items)) {
+        throw new Error('EditThisCookie 数据必须是数组');
+      }
+      cookies = items.map((item: any, index: number) => normalizeCookie({
+        ...item,
+        // hostOnly 为 false 时对子域名有效
+        domain: item.hostOnly === false && typeof item.domain === 'string' && !item.domain.startsWith('.')
+          ? `.${item.domain}`
+          : item.domain,
+        expires: item.session || item.expirationDate === undefined ? -1 : item.expirationDate,
+        sameSite: EDIT_THIS_COOKIE_SAME_SITE[item.sameSite] ?? 'Lax',
+      }, index));
+      break;
+    }
+    case 'netscape': {
+      if (typeof input !== 'string') {
+        throw new Error('cookies.txt 内容必须是文本');
+      }
+      cookies = parseNetscape(input);
+      break;
+    }
+    default:
+      throw new Error(`不支持的 Cookie 格式: ${format}`);
+  }
+
+  if (cookies.length === 0) {
+    throw new Error('没有可导入的 Cookie');
+  }
+
+  return { format, cookies, origins };
+}
+
+/**
+ * 导出 Cookie 文件中的登录状态
+ */
+export function serializeCookies(data: CookieFileData, format: CookieFormat): ExportedCookies {
+  switch (format) {
+    case 'storage-state':
+      return {
+        content: JSON.stringify({ cookies: data.cookies, origins: data.origins }, null, 2),
+        contentType: 'application/json',
+        fileExtension: 'json',
+      };
+    case 'editthiscookie':
+      return {
+        content: JSON.stringify(data.cookies.map((cookie, index) => ({
+          domain: cookie.domain,
+          expirationDate: cookie.expires > 0 ? cookie.expires : undefined,
+          hostOnly: !cookie.domain.startsWith('.'),
+          httpOnly: cookie.httpOnly,
+          name: cookie.name,
+          path: cookie.path,
+          sameSite: cookie.sameSite === 'None' ? 'no_restriction' : cookie.sameSite.toLowerCase(),
+          secure: cookie.secure,
+          session: cookie.expires <= 0,
+          storeId: '0',
+          value: cookie.value,
+          id: index + 1,
+        })), null, 2),
+        contentType: 'application/json',
+        fileExtension: 'json',
+      };
+    case 'netscape': {
+      const lines = data.cookies.map(cookie => [
+        `${cookie.httpOnly ? NETSCAPE_HTTP_ONLY_PREFIX : ''}${cookie.domain}`,
+        cookie.domain.startsWith('.') ? 'TRUE' : 'FALSE',
+        cookie.path,
+        cookie.secure ? 'TRUE' : 'FALSE',
+        String(cookie.expires > 0 ? Math.floor(cookie.expires) : 0),
+        cookie.name,
+        cookie.value,
+      ].join('\t'));
+      return {
+        content: ['# Netscape HTTP Cookie File', '', ...lines, ''].join('\n'),
+        contentType: 'text/plain; charset=utf-8',
+        fileExtension: 'txt',
+      };
+    }
+    default:
+      throw new Error(`不支持的 Cookie 格式: ${format}`);
+  }
+}
+
+function parseJson(input: unknown): any {
+  if (typeof input !== 'string') {
+    return input;
+  }
+  try {
+    return JSON.parse(input);
+  } catch {
+    throw new Error('Cookie 数据不是有效的 JSON');
+  }
+}
+
+function parseNetscape(text: string): Cookie[] {
+  const cookies: Cookie[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    let line = rawLine.trimStart();
+    let httpOnly = false;
+
+    // HttpOnly 的 Cookie 以 #HttpOnly_ 开头，其他 # 开头的行是注释
+    if (line.startsWith(NETSCAPE_HTTP_ONLY_PREFIX)) {
+      line = line.slice(NETSCAPE_HTTP_ONLY_PREFIX.length);
+      httpOnly = true;
+    } else if (!line.trim() || line.startsWith('#')) {
+      return;
+    }
+
+    const fields = line.split('\t');
+    if (fields.length < 7) {
+      throw new Error(`cookies.txt 第 ${index + 1} 行格式错误，应为 7 列（Tab 分隔）`);
+    }
+
+    const [domain, , path, secure, expires, name, ...value] = fields;
+    cookies.push(normalizeCookie({
+      domain,
+      path,
+      secure: secure.toUpperCase() === 'TRUE',
+      expires: Number(expires),
+      name,
+      value: value.join('\t'),
+      httpOnly,
+    }, cookies.length));
+  });
+
+  return cookies;
+}
+
+/**
+ * 转换为 Playwright 的 Cookie，缺少的字段使用默认值
+ */
+function normalizeCookie(input: any, index: number): Cookie {
+  if (!input || typeof input !== 'object') {
+    throw new Error(`第 ${index + 1} 个 Cookie 格式错误`);
+  }
+  if (typeof input.name !== 'string' || !input.name || typeof input.value !== 'string') {
+    throw new Error(`第 ${index + 1} 个 Cookie 缺少 name 或 value`);
+  }
+  if (typeof input.domain !== 'string' || !input.domain) {
+    throw new Error(`Cookie ${input.name} 缺少 domain`);
+  }
+
+  const expires = Number(input.expires);
+  const sameSite = ['Strict', 'Lax', 'None'].includes(input.sameSite) ? input.sameSite : 'Lax';
+
+  return {
+    name: input.name,
+    value: input.value,
+    domain: input.domain,
+    path: typeof input.path === 'string' && input.path ? input.path : '/',
+    expires: Number.isFinite(expires) && expires > 0 ? expires : -1,
+    httpOnly: input.httpOnly === true,
+    secure: input.secure === true || sameSite === 'None',
+    sameSite,
+  };
+}
+
+function isOriginData(item: any): item is OriginData {
+  return item && typeof item.origin === 'string' && Array.isArray(item.localStorage);
+}
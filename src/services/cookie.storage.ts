@@ -1,5 +1,7 @@
 import { CookieFileData, Platform, OriginData } from '../types';
 import { GlobalConfigManager } from '../config';
+import { secrets } from './secrets.service';
+import { CookieFormat, ExportedCookies, parseCookies, serializeCookies } from './cookie.formats';
 import { Cookie } from 'playwright';
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
@@ -35,7 +37,7 @@ export class CookieStorageService {
     }
 
     // 保存文件
-    fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf-8');
+    this.writeCookieFile(filePath, data);
     
     console.log('✅ Cookie 文件已保存:', filePath);
     
@@ -59,6 +61,11 @@ export class CookieStorageService {
         return null;
       }
 
+      // 加密保存的登录状态
+      if (secrets.isEncrypted(rawData.encrypted)) {
+        Object.assign(rawData, JSON.parse(secrets.decrypt(rawData.encrypted)));
+      }
+
       if (!Array.isArray(rawData.cookies)) {
         console.error('❌ Cookie 文件格式错误: cookies 字段缺失或类型错误');
         return null;
@@ -97,7 +104,7 @@ export class CookieStorageService {
     }
 
     try {
-      fs.writeFileSync(filePath, JSON.stringify(existingData, null, 2), 'utf-8');
+      this.writeCookieFile(filePath, existingData);
       console.log('✅ Cookie 文件已更新:', filePath);
       return true;
     } catch (error) {
@@ -106,6 +113,19 @@ export class CookieStorageService {
     }
   }
 
+  // 写入 Cookie 文件（覆盖原文件），配置了主密钥时加密登录状态（平台和账号ID保持明文）
+  static writeCookieFile(filePath: string, data: CookieFileData): void {
+    const content = secrets.isEnabled()
+      ? {
+          platform: data.platform,
+          id: data.id,
+          encrypted: secrets.encrypt(JSON.stringify({ cookies: data.cookies, origins: data.origins })),
+        }
+      : data;
+
+    fs.writeFileSync(filePath, JSON.stringify(content, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  }
+
   // 删除 Cookie 文件
   static deleteCookieFile(filePath: string): boolean {
     if (!fs.existsSync(filePath)) {
@@ -123,6 +143,29 @@ export class CookieStorageService {
     }
   }
 
+  // 导入其他工具导出的 Cookie（storageState / cookies.txt / EditThisCookie），保存为新的 Cookie 文件
+  static importCookieFile(platform: Platform, input: unknown, format?: CookieFormat): string {
+    const { cookies, origins } = parseCookies(input, format);
+    return this.saveCookieFile(platform, undefined, cookies, origins);
+  }
+
+  // 导出 Cookie 文件中的登录状态
+  static exportCookieFile(filePath: string, format: CookieFormat): ExportedCookies {
+    const data = this.readCookieFile(filePath);
+
+    if (!data) {
+      throw new Error('Cookie 文件读取失败');
+    }
+
+    return serializeCookies(data, format);
+  }
+
+  // 获取完整的登录状态（Cookie 和各 origin 的 localStorage），用于 Playwright 创建上下文的 storageState
+  static getStorageState(filePath: string): { cookies: Cookie[]; origins: OriginData[] } | null {
+    const data = this.readCookieFile(filePath);
+    return data ? { cookies: data.cookies, origins: data.origins } : null;
+  }
+
   // 获取 Cookie 数组（用于 Playwright）
   static getCookiesArray(filePath: string): Cookie[] | null {
     const data = this.readCookieFile(filePath);
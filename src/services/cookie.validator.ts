@@ -1,11 +1,12 @@
-import { chromium } from 'playwright';
+import { BrowserContextOptions } from 'playwright';
 import { Platform, CookieValidation } from '../types';
 import { PlatformRegistry, PlatformLoginFactory } from '../platforms';
 import { CookieStorageService } from './cookie.storage';
+import { browserPool } from './browser.pool';
 
 export class CookieValidator {
-  // 验证 Cookie 是否有效
-  static async validate(platform: Platform, cookiePath: string): Promise<CookieValidation> {
+  // 验证 Cookie 是否有效（network: 指定网络配置，用于账号记录还不存在时，默认使用账号的网络配置）
+  static async validate(platform: Platform, cookiePath: string, network?: BrowserContextOptions): Promise<CookieValidation> {
     // 检查文件是否有效
     if (!CookieStorageService.isCookieFileValid(cookiePath)) {
       return {
@@ -33,52 +34,49 @@ export class CookieValidator {
         };
       }
 
-      // 启动无头浏览器验证
-      const browser = await chromium.launch({ headless: true });
-      const context = await browser.newContext();
-      await context.addCookies(cookieData.cookies);
-
-      // 如果有 localStorage 数据，也需要注入
-      // TODO: 实现 localStorage 注入逻辑
-
       const config = PlatformRegistry.getConfig(platform);
-      const page = await context.newPage();
       const uploadUrl = config?.uploadUrl || config?.loginUrl;
 
       if (!uploadUrl) {
-        await context.close();
-        await browser.close();
         return {
           isValid: false,
           message: '平台配置错误',
         };
       }
 
-      await page.goto(uploadUrl, { timeout: 15000 });
-      await page.waitForLoadState('networkidle', { timeout: 10000 });
+      // 从浏览器池租用账号的上下文验证（已加载 Cookie 和 localStorage）
+      const lease = await browserPool.acquire(cookiePath, { network });
 
-      // 使用工厂模式获取登录检查器
-      const loginHandler = PlatformLoginFactory.getHandler(platform);
-      const isLoggedIn = await loginHandler.checkLoginStatus(context);
+      try {
+        const context = lease.context;
+        const page = await context.newPage();
 
-      if (!isLoggedIn) {
-        return {
-          isValid: false,
-          message: 'Cookie 已失效，需要重新登录',
-        };
-      }
+        await page.goto(uploadUrl, { timeout: 15000 });
+        await page.waitForLoadState('networkidle', { timeout: 10000 });
 
-      // 尝试获取账号信息
-      const accountInfo = await loginHandler.getAccountInfo(context);
+        // 使用工厂模式获取登录检查器
+        const loginHandler = PlatformLoginFactory.getHandler(platform);
+        const isLoggedIn = await loginHandler.checkLoginStatus(context);
 
-      await context.close();
-      await browser.close();
+        if (!isLoggedIn) {
+          return {
+            isValid: false,
+            message: 'Cookie 已失效，需要重新登录',
+          };
+        }
 
-      return {
-        isValid: true,
-        message: 'Cookie 有效',
-        accountInfo,
-      };
+        // 尝试获取账号信息
+        const accountInfo = await loginHandler.getAccountInfo(context);
+
+        return {
+          isValid: true,
+          message: 'Cookie 有效',
+          accountInfo,
+        };
+      } finally {
+        // 验证不修改 Cookie 文件，失效的登录状态不写回
+        await lease.release({ saveState: false });
+      }
     } catch (error: any) {
       return {
         isValid: false,
@@ -3,10 +3,15 @@ import { appConfig } from '../config/loader';
 import { PrismaClient } from '@prisma/client';
 import { SnapshotService } from './snapshot.service';
 import { StatisticsService } from './statistics.service';
+import { uploadDispatcher } from '../uploaders/upload.dispatcher';
+import { UploadService } from '../uploaders/upload.service';
+import { proxyPool } from './proxy.pool';
+import { cookieExpiryService, resolveExpiringWithinHours } from './cookie.expiry';
 
 const prisma = new PrismaClient();
 const snapshotService = new SnapshotService();
 const statisticsService = new StatisticsService();
+const uploadService = new UploadService();
 
 /**
  * 定时任务管理器
@@ -15,6 +20,9 @@ export class CronJobManager {
   private static instance: CronJobManager;
   private jobs: Map<string, cron.ScheduledTask> = new Map();
   
+  // 是否正在确认发布结果（确认需要打开浏览器，耗时可能超过调度间隔，防止两次确认重叠）
+  private isVerifying = false;
+  
   private constructor() {}
   
   static getInstance(): CronJobManager {
@@ -79,6 +87,42 @@ export class CronJobManager {
       console.log(`   Cron: ${appConfig.accounts.calculateSummary.cron}`);
     }
     
+    // 调度定时上传任务
+    const dispatchConfig = appConfig.uploads?.dispatchTasks;
+    if (dispatchConfig?.enabled) {
+      this.scheduleJob(
+        'dispatchUploadTasks',
+        dispatchConfig.cron,
+        () => this.dispatchUploadTasks(dispatchConfig.maxConcurrent ?? 1)
+      );
+      console.log(`✅ 已启用: ${dispatchConfig.comment}`);
+      console.log(`   Cron: ${dispatchConfig.cron}`);
+    }
+    
+    // 确认已提交发布的上传任务
+    const verifyConfig = appConfig.uploads?.verifyTasks;
+    if (verifyConfig?.enabled) {
+      this.scheduleJob(
+        'verifyUploadTasks',
+        verifyConfig.cron,
+        () => this.verifyUploadTasks()
+      );
+      console.log(`✅ 已启用: ${verifyConfig.comment}`);
+      console.log(`   Cron: ${verifyConfig.cron}`);
+    }
+    
+    // 检测代理池
+    const proxyCheckConfig = appConfig.proxyPool?.healthCheck;
+    if (proxyCheckConfig?.enabled) {
+      this.scheduleJob(
+        'checkProxies',
+        proxyCheckConfig.cron,
+        () => this.checkProxies()
+      );
+      console.log(`✅ 已启用: ${proxyCheckConfig.comment}`);
+      console.log(`   Cron: ${proxyCheckConfig.cron}`);
+    }
+    
     console.log('');
   }
   
@@ -160,39 +204,29 @@ export class CronJobManager {
   }
   
   /**
-   * 刷新 Cookie
+   * 检查 Cookie 过期时间
+   * 重新计算每个活跃账号的预计过期时间，提醒即将过期或已过期的账号重新登录
    */
   private async refreshCookies(): Promise<void> {
-    console.log('🍪 开始刷新 Cookie...');
+    console.log('🍪 开始检查 Cookie 过期时间...');
     
     try {
-      // 获取所有活跃账号
-      const accounts = await prisma.platformAccount.findMany({
-        where: {
-          isActive: true,
-        },
-      });
+      await cookieExpiryService.updateAll();
       
-      console.log(`找到 ${accounts.length} 个活跃账号`);
-      
-      // TODO: 实现 Cookie 刷新逻辑
-      // 可能需要模拟登录或调用特定接口
+      const withinHours = resolveExpiringWithinHours();
+      const expiring = await cookieExpiryService.getExpiringAccounts(withinHours);
       
-      for (const account of accounts) {
-        try {
-          console.log(`  刷新账号: ${account.accountName} (${account.platform})`);
-          
-          // 根据平台调用不同的刷新逻辑
-          // await refreshAccountCookie(account);
-          console.log(`    Cookie刷新暂未实现`);
-        } catch (error) {
-          console.error(`  ❌ 账号Cookie刷新失败: ${account.accountName}`, error);
+      for (const account of expiring) {
+        if (account.expired) {
+          console.warn(`  ⚠️ 账号登录已过期，请重新登录: ${account.accountName} (${account.platform})`);
+        } else {
+          console.warn(`  ⚠️ 账号登录将在 ${account.hoursLeft} 小时后过期，请及时重新登录: ${account.accountName} (${account.platform})`);
         }
       }
       
-      console.log('✅ Cookie 刷新完成');
+      console.log(`✅ Cookie 过期检查完成，${expiring.length} 个账号需要在 ${withinHours} 小时内重新登录`);
     } catch (error) {
-      console.error('❌ Cookie 刷新失败:', error);
+      console.error('❌ Cookie 过期检查失败:', error);
       throw error;
     }
   }
@@ -257,6 +291,51 @@ export class CronJobManager {
     }
   }
   
+  /**
+   * 派发到期的上传任务
+   */
+  private async dispatchUploadTasks(maxConcurrent: number): Promise<void> {
+    const count = await uploadDispatcher.dispatchDueTasks(maxConcurrent);
+    
+    if (count > 0) {
+      console.log(`📤 已派发 ${count} 个上传任务`);
+    }
+  }
+  
+  /**
+   * 确认已提交发布的上传任务
+   */
+  private async verifyUploadTasks(): Promise<void> {
+    if (this.isVerifying) {
+      console.log('⏳ 上一次确认尚未结束，跳过本次确认');
+      return;
+    }
+    
+    this.isVerifying = true;
+    
+    try {
+      const result = await uploadService.verifyPendingTasks();
+      
+      if (result.checked > 0) {
+        console.log(`🔎 已确认 ${result.checked} 个上传任务: 成功 ${result.success}，失败 ${result.failed}`);
+      }
+    } finally {
+      this.isVerifying = false;
+    }
+  }
+  
+  /**
+   * 检测代理池中的代理
+   */
+  private async checkProxies(): Promise<void> {
+    console.log('🔌 开始检测代理池...');
+    
+    const results = await proxyPool.checkAll();
+    const healthy = results.filter(r => r.healthy).length;
+    
+    console.log(`✅ 代理检测完成: ${healthy}/${results.length} 个可用`);
+  }
+  
   /**
    * 停止指定任务
    */
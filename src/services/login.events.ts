@@ -0,0 +1,87 @@
+import { EventEmitter } from 'events';
+import { QrLoginStatus } from '../types';
+
+// 登录事件类型
+export type LoginEvent =
+  | {
+      type: 'status';
+      sessionId: string;
+      status: QrLoginStatus;
+      message?: string;
+      accountId?: number;  // confirmed: 已保存的账号ID
+      timestamp: Date;
+    }
+  | {
+      type: 'qrcode';
+      sessionId: string;   // 二维码已更新，重新获取二维码图片
+      timestamp: Date;
+    };
+
+export type LoginEventListener = (event: LoginEvent) => void;
+
+const EVENT_NAME = 'login';
+
+/**
+ * 登录事件总线
+ * 扫码登录在二维码更新、扫码状态变化时发布事件，由 SSE 接口转发给前端
+ */
+export class LoginEventBus {
+  private static instance: LoginEventBus;
+  private emitter = new EventEmitter();
+
+  private constructor() {
+    // 每个 SSE 连接都是一个订阅者，不限制数量
+    this.emitter.setMaxListeners(0);
+  }
+
+  static getInstance(): LoginEventBus {
+    if (!LoginEventBus.instance) {
+      LoginEventBus.instance = new LoginEventBus();
+    }
+    return LoginEventBus.instance;
+  }
+
+  /**
+   * 发布扫码状态变化
+   */
+  emitStatus(sessionId: string, status: QrLoginStatus, message?: string, accountId?: number): void {
+    this.emit({ type: 'status', sessionId, status, message, accountId, timestamp: new Date() });
+  }
+
+  /**
+   * 发布二维码更新
+   */
+  emitQrCode(sessionId: string): void {
+    this.emit({ type: 'qrcode', sessionId, timestamp: new Date() });
+  }
+
+  /**
+   * 订阅登录会话的事件
+   * @returns 取消订阅的函数
+   */
+  subscribe(sessionId: string, listener: LoginEventListener): () => void {
+    const handler = (event: LoginEvent) => {
+      if (event.sessionId === sessionId) {
+        listener(event);
+      }
+    };
+
+    this.emitter.on(EVENT_NAME, handler);
+
+    return () => {
+      this.emitter.off(EVENT_NAME, handler);
+    };
+  }
+
+  private emit(event: LoginEvent): void {
+    try {
+      this.emitter.emit(EVENT_NAME, event);
+    } catch (error) {
+      // 订阅者的异常不影响登录流程
+      console.error('❌ 发布登录事件失败:', error);
+    }
+  }
+}
+
+// 导出单例
+export const loginEvents = LoginEventBus.getInstance();
@@ -0,0 +1,209 @@
+import { BrowserContext, Page } from 'playwright';
+import { appConfig, LoginSessionOptions } from '../config/loader';
+import { LoginMode, LoginSessionInfo, LoginSessionState, NetworkProfile, Platform } from '../types';
+import { PlaywrightService } from './playwright.service';
+import { QrCodeLoginWatcher } from './qrcode.login';
+
+// 未配置时使用的默认登录会话配置
+export const DEFAULT_LOGIN_SESSION_OPTIONS: LoginSessionOptions = {
+  idleTimeoutMinutes: 15,
+};
+
+/**
+ * 获取登录会话配置
+ * 优先级: 配置文件 > 内置默认值
+ */
+export function resolveLoginSessionOptions(
+  options = appConfig.accounts.loginSessions
+): LoginSessionOptions {
+  return {
+    ...DEFAULT_LOGIN_SESSION_OPTIONS,
+    ...options,
+  };
+}
+
+// 登录会话
+export interface LoginSession {
+  sessionId: string;
+  platform: Platform;
+  accountName: string;
+  mode: LoginMode;
+  state: LoginSessionState;
+  createdAt: Date;
+  lastActiveAt: Date;
+  service: PlaywrightService;
+  context: BrowserContext;
+  profile: NetworkProfile | null;   // 登录使用的网络配置，完成登录时保存到账号
+  accountId?: number;               // 重新登录的账号，完成登录时更新该账号而不是创建新账号
+  qrWatcher?: QrCodeLoginWatcher;   // 扫码登录
+  onClose?: () => void;             // 会话被关闭（超时、取消、浏览器被关闭）时调用
+}
+
+export type NewLoginSession = Omit<LoginSession, 'state' | 'createdAt' | 'lastActiveAt'>;
+
+/**
+ * 登录会话管理
+ * 记录每个登录会话的平台、状态和最后操作时间，无操作超时后自动关闭浏览器；
+ * 用户直接关闭浏览器窗口时移除会话；服务关闭时关闭所有登录浏览器
+ */
+export class LoginSessionManager {
+  private static instance: LoginSessionManager;
+  private sessions: Map<string, LoginSession> = new Map();
+  private idleTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(private options: LoginSessionOptions = resolveLoginSessionOptions()) {}
+
+  static getInstance(): LoginSessionManager {
+    if (!LoginSessionManager.instance) {
+      LoginSessionManager.instance = new LoginSessionManager();
+    }
+    return LoginSessionManager.instance;
+  }
+
+  /**
+   * 登记新的登录会话
+   */
+  add(data: NewLoginSession): LoginSession {
+    const now = new Date();
+    const session: LoginSession = { ...data, state: 'active', createdAt: now, lastActiveAt: now };
+    this.sessions.set(session.sessionId, session);
+    this.watchActivity(session);
+    this.scheduleIdleClose(session);
+    return session;
+  }
+
+  get(sessionId: string): LoginSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  list(): LoginSessionInfo[] {
+    return Array.from(this.sessions.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(session => ({
+        sessionId: session.sessionId,
+        platform: session.platform,
+        accountName: session.accountName,
+        mode: session.mode,
+        state: session.state,
+        createdAt: session.createdAt,
+        lastActiveAt: session.lastActiveAt,
+        expiresAt: new Date(session.lastActiveAt.getTime() + this.options.idleTimeoutMinutes * 60 * 1000),
+        accountId: session.accountId,
+        qrStatus: session.qrWatcher?.getState().status,
+      }));
+  }
+
+  /**
+   * 记录会话有操作，重新计算超时
+   */
+  touch(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    session.lastActiveAt = new Date();
+    this.scheduleIdleClose(session);
+  }
+
+  setState(sessionId: string, state: LoginSessionState): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    session.state = state;
+
+    // 保存失败（如登录的账号不一致）回到等待登录时，从现在开始重新计时
+    if (state === 'active') {
+      this.touch(sessionId);
+    }
+  }
+
+  /**
+   * 移除会话（不关闭浏览器，由调用方负责）
+   */
+  remove(sessionId: string): LoginSession | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+
+    this.sessions.delete(sessionId);
+    this.clearIdleTimer(sessionId);
+    return session;
+  }
+
+  /**
+   * 关闭会话及其浏览器
+   */
+  async close(sessionId: string): Promise<void> {
+    const session = this.remove(sessionId);
+    if (!session) return;
+
+    session.onClose?.();
+
+    try {
+      await session.service.closeBrowser();
+    } catch (error: any) {
+      console.warn(`⚠️ 关闭登录浏览器失败 (${sessionId}):`, error.message);
+    }
+  }
+
+  /**
+   * 关闭所有登录会话（服务关闭时调用）
+   */
+  async closeAll(): Promise<void> {
+    const sessionIds = Array.from(this.sessions.keys());
+    if (sessionIds.length === 0) return;
+
+    await Promise.all(sessionIds.map(sessionId => this.close(sessionId)));
+    console.log(`🧹 已关闭 ${sessionIds.length} 个登录会话`);
+  }
+
+  private scheduleIdleClose(session: LoginSession): void {
+    this.clearIdleTimer(session.sessionId);
+
+    const timer = setTimeout(() => {
+      this.idleTimers.delete(session.sessionId);
+
+      // 正在保存账号时不关闭，保存成功后会话会被移除，保存失败时继续计时
+      if (session.state === 'finishing') {
+        this.scheduleIdleClose(session);
+        return;
+      }
+
+      console.log(`⏰ 登录会话 ${session.sessionId} 超过 ${this.options.idleTimeoutMinutes} 分钟无操作，关闭浏览器`);
+      this.close(session.sessionId).catch(() => undefined);
+    }, this.options.idleTimeoutMinutes * 60 * 1000);
+    timer.unref?.();
+
+    this.idleTimers.set(session.sessionId, timer);
+  }
+
+  private clearIdleTimer(sessionId: string): void {
+    const timer = this.idleTimers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.idleTimers.delete(sessionId);
+    }
+  }
+
+  /**
+   * 页面打开、跳转视为用户在操作；浏览器被关闭时移除会话
+   */
+  private watchActivity(session: LoginSession): void {
+    const touch = () => this.touch(session.sessionId);
+    const watchPage = (page: Page) => page.on('framenavigated', touch);
+
+    session.context.pages().forEach(watchPage);
+    session.context.on('page', (page) => {
+      touch();
+      watchPage(page);
+    });
+
+    session.context.on('close', () => {
+      if (this.sessions.get(session.sessionId) !== session) return;
+
+      console.log(`🚪 登录浏览器已关闭，移除会话 ${session.sessionId}`);
+      this.close(session.sessionId).catch(() => undefined);
+    });
+  }
+}
+
+// 导出单例
+export const loginSessions = LoginSessionManager.getInstance();
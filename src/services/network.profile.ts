@@ -0,0 +1,285 @@
+import { BrowserContextOptions } from 'playwright';
+import { PlatformAccount } from '@prisma/client';
+import { AccountModel } from '../models/account.model';
+import { NetworkProfile, ProxySettings } from '../types';
+import { proxyPool, toProxySettings, checkProxy, ProxyCheckResult } from './proxy.pool';
+import { secrets } from './secrets.service';
+
+const PROXY_PROTOCOLS = ['http:', 'https:', 'socks4:', 'socks5:'];
+
+// 接口返回账号时代替代理密码，原样提交时保留原密码
+export const REDACTED_PASSWORD = '******';
+
+function readStoredProfile(json: string | null | undefined): NetworkProfile | null {
+  if (!json) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(json) as NetworkProfile;
+  } catch {
+    console.warn('⚠️ 账号网络配置格式错误，已忽略');
+    return null;
+  }
+}
+
+/**
+ * 读取账号保存的网络配置（解密代理密码），JSON 损坏时视为未配置
+ */
+export function parseNetworkProfile(json: string | null | undefined): NetworkProfile | null {
+  const profile = readStoredProfile(json);
+
+  if (profile?.proxy?.password) {
+    profile.proxy.password = secrets.decrypt(profile.proxy.password);
+  }
+  return profile;
+}
+
+/**
+ * 把网络配置转换为保存到账号的 JSON，配置了主密钥时加密代理密码
+ */
+export function serializeNetworkProfile(profile: NetworkProfile | null): string | null {
+  if (!profile) {
+    return null;
+  }
+
+  const password = profile.proxy?.password;
+  if (!password || secrets.isEncrypted(password)) {
+    return JSON.stringify(profile);
+  }
+  return JSON.stringify({ ...profile, proxy: { ...profile.proxy, password: secrets.encrypt(password) } });
+}
+
+/**
+ * 隐藏账号网络配置中的代理密码（接口返回账号时使用）
+ */
+export function redactAccount<T extends Pick<PlatformAccount, 'networkProfile'>>(account: T): T {
+  const profile = readStoredProfile(account.networkProfile);
+
+  if (!profile?.proxy?.password) {
+    return account;
+  }
+  profile.proxy.password = REDACTED_PASSWORD;
+  return { ...account, networkProfile: JSON.stringify(profile) };
+}
+
+/**
+ * 校验接口传入的网络配置，只保留已知字段；不合法时抛出异常
+ * @returns 规范化后的配置，没有任何设置时返回 null
+ */
+export function normalizeNetworkProfile(input: any): NetworkProfile | null {
+  if (input === undefined || input === null) {
+    return null;
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('网络配置必须是对象');
+  }
+
+  const profile: NetworkProfile = {};
+
+  if (input.proxy !== undefined && input.proxy !== null) {
+    profile.proxy = normalizeProxy(input.proxy);
+  }
+
+  if (input.useProxyPool !== undefined) {
+    if (typeof input.useProxyPool !== 'boolean') {
+      throw new Error('useProxyPool 必须为布尔值');
+    }
+    if (input.useProxyPool) {
+      profile.useProxyPool = true;
+    }
+  }
+
+  if (input.poolProxy !== undefined && input.poolProxy !== null) {
+    profile.poolProxy = requireString(input.poolProxy, 'poolProxy');
+  }
+
+  if (input.userAgent !== undefined && input.userAgent !== null) {
+    profile.userAgent = requireString(input.userAgent, 'userAgent');
+  }
+
+  if (input.locale !== undefined && input.locale !== null) {
+    const locale = requireString(input.locale, 'locale');
+    if (!/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(locale)) {
+      throw new Error(`语言 ${locale} 格式错误，应为 zh-CN 这样的格式`);
+    }
+    profile.locale = locale;
+  }
+
+  if (input.timezoneId !== undefined && input.timezoneId !== null) {
+    const timezoneId = requireString(input.timezoneId, 'timezoneId');
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezoneId });
+    } catch {
+      throw new Error(`时区 ${timezoneId} 无效，应为 Asia/Shanghai 这样的 IANA 时区`);
+    }
+    profile.timezoneId = timezoneId;
+  }
+
+  if (input.viewport !== undefined && input.viewport !== null) {
+    const { width, height } = input.viewport;
+    if (![width, height].every(value => Number.isInteger(value) && value >= 200 && value <= 7680)) {
+      throw new Error('viewport 的 width 和 height 必须为 200-7680 之间的整数');
+    }
+    profile.viewport = { width, height };
+  }
+
+  if (input.geolocation !== undefined && input.geolocation !== null) {
+    const { latitude, longitude, accuracy } = input.geolocation;
+    if (typeof latitude !== 'number' || latitude < -90 || latitude > 90) {
+      throw new Error('geolocation.latitude 必须在 -90 到 90 之间');
+    }
+    if (typeof longitude !== 'number' || longitude < -180 || longitude > 180) {
+      throw new Error('geolocation.longitude 必须在 -180 到 180 之间');
+    }
+    if (accuracy !== undefined && (typeof accuracy !== 'number' || accuracy < 0)) {
+      throw new Error('geolocation.accuracy 必须为非负数');
+    }
+    profile.geolocation = accuracy !== undefined ? { latitude, longitude, accuracy } : { latitude, longitude };
+  }
+
+  return Object.keys(profile).length > 0 ? profile : null;
+}
+
+function normalizeProxy(input: any): ProxySettings {
+  if (typeof input !== 'object' || typeof input.server !== 'string') {
+    throw new Error('代理必须包含 server，如 http://127.0.0.1:7890');
+  }
+
+  let protocol: string;
+  try {
+    protocol = new URL(input.server).protocol;
+  } catch {
+    throw new Error(`代理地址 ${input.server} 格式错误，应为 http://host:port 或 socks5://host:port`);
+  }
+  if (!PROXY_PROTOCOLS.includes(protocol)) {
+    throw new Error(`不支持的代理协议 ${protocol}，支持: http / https / socks4 / socks5`);
+  }
+
+  const proxy: ProxySettings = { server: input.server };
+  for (const field of ['username', 'password', 'bypass'] as const) {
+    if (input[field] !== undefined && input[field] !== null) {
+      proxy[field] = requireString(input[field], `proxy.${field}`);
+    }
+  }
+  return proxy;
+}
+
+function requireString(value: any, field: string): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`${field} 必须为非空字符串`);
+  }
+  return value.trim();
+}
+
+/**
+ * 把网络配置转换为 Playwright 上下文参数
+ * @param proxy 实际使用的代理（专用代理或代理池分配的代理）
+ */
+export function toContextOptions(profile: NetworkProfile | null, proxy?: ProxySettings): BrowserContextOptions {
+  const options: BrowserContextOptions = {};
+
+  if (proxy) options.proxy = proxy;
+  if (profile?.userAgent) options.userAgent = profile.userAgent;
+  if (profile?.locale) options.locale = profile.locale;
+  if (profile?.timezoneId) options.timezoneId = profile.timezoneId;
+  if (profile?.viewport) options.viewport = profile.viewport;
+  if (profile?.geolocation) {
+    options.geolocation = profile.geolocation;
+    options.permissions = ['geolocation'];
+  }
+
+  return options;
+}
+
+/**
+ * 账号网络配置服务
+ * 解析账号实际使用的代理（专用代理或代理池），生成浏览器上下文参数
+ */
+export class NetworkProfileService {
+  /**
+   * 确定网络配置实际使用的代理
+   * 使用代理池时沿用已分配的代理，未分配或已不可用时重新分配（传入 accountId 时保存到账号）
+   */
+  async resolveProxy(
+    profile: NetworkProfile | null,
+    accountId?: number
+  ): Promise<{ profile: NetworkProfile | null; proxy?: ProxySettings }> {
+    if (!profile) {
+      return { profile };
+    }
+    if (profile.proxy) {
+      return { profile, proxy: profile.proxy };
+    }
+    if (!profile.useProxyPool) {
+      return { profile };
+    }
+
+    const current = profile.poolProxy ? proxyPool.find(profile.poolProxy) : undefined;
+    if (current && proxyPool.isHealthy(current.name)) {
+      return { profile, proxy: toProxySettings(current) };
+    }
+
+    const entry = proxyPool.assign(await this.getPoolLoads(accountId));
+    if (!entry) {
+      // 不回退到直连，避免账号暴露真实 IP
+      throw new Error('代理池中没有可用的代理');
+    }
+
+    console.log(`🔀 ${current ? `代理 ${current.name} 不可用，` : ''}分配代理池中的代理: ${entry.name}`);
+
+    const updated: NetworkProfile = { ...profile, poolProxy: entry.name };
+    if (accountId !== undefined) {
+      await AccountModel.update(accountId, { networkProfile: serializeNetworkProfile(updated) });
+    }
+
+    return { profile: updated, proxy: toProxySettings(entry) };
+  }
+
+  /**
+   * 获取账号的浏览器上下文参数
+   */
+  async getAccountContextOptions(account: PlatformAccount): Promise<BrowserContextOptions> {
+    const { profile, proxy } = await this.resolveProxy(parseNetworkProfile(account.networkProfile), account.id);
+    return toContextOptions(profile, proxy);
+  }
+
+  /**
+   * 根据 Cookie 文件获取账号的浏览器上下文参数（浏览器池创建上下文时使用）
+   */
+  async getContextOptions(cookiePath: string): Promise<BrowserContextOptions> {
+    const account = await AccountModel.findByCookiePath(cookiePath);
+    return account ? await this.getAccountContextOptions(account) : {};
+  }
+
+  /**
+   * 检测账号实际使用的代理（未配置代理时检测直连网络）
+   */
+  async checkAccount(account: PlatformAccount): Promise<ProxyCheckResult & { proxy: string | null }> {
+    const { proxy } = await this.resolveProxy(parseNetworkProfile(account.networkProfile), account.id);
+    const result = await checkProxy(proxy);
+    return { proxy: proxy?.server ?? null, ...result };
+  }
+
+  /**
+   * 统计代理池中每个代理分配的账号数
+   * @param excludeAccountId 不计入的账号（重新分配时排除自己）
+   */
+  async getPoolLoads(excludeAccountId?: number): Promise<Map<string, number>> {
+    const loads = new Map<string, number>();
+
+    for (const account of await AccountModel.findAll()) {
+      if (account.id === excludeAccountId) continue;
+
+      const profile = readStoredProfile(account.networkProfile);
+      if (profile?.useProxyPool && !profile.proxy && profile.poolProxy) {
+        loads.set(profile.poolProxy, (loads.get(profile.poolProxy) ?? 0) + 1);
+      }
+    }
+
+    return loads;
+  }
+}
+
+// 导出单例
+export const networkProfileService = new NetworkProfileService();
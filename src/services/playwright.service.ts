@@ -1,14 +1,18 @@
-import { chromium, Browser, BrowserContext } from 'playwright';
+import { chromium, Browser, BrowserContext, BrowserContextOptions, Page } from 'playwright';
 import { Platform, OriginData } from '../types';
 import { PlatformRegistry, PlatformLoginFactory } from '../platforms';
 import { CookieStorageService } from './cookie.storage';
+import { browserPool, BrowserLease } from './browser.pool';
 
 export class PlaywrightService {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
+  private lease: BrowserLease | null = null;  // 从浏览器池租用的账号上下文
 
   // 启动浏览器供用户登录（使用工厂模式）
-  async launchForLogin(platform: Platform): Promise<BrowserContext> {
+  // network: 账号网络配置生成的上下文参数（代理、指纹），与之后验证、上传时使用的一致
+  // headless: 扫码登录时在后台打开登录页，由前端显示二维码
+  async launchForLogin(platform: Platform, network: BrowserContextOptions = {}, headless = false): Promise<BrowserContext> {
     // 检查平台是否已注册
     if (!PlatformRegistry.isRegistered(platform)) {
       throw new Error(`平台 ${platform} 未注册`);
@@ -26,12 +30,14 @@ export class PlaywrightService {
 
     // 启动浏览器
     this.browser = await chromium.launch({
-      headless: false,
-      args: ['--start-maximized'],
+      headless,
+      args: headless ? [] : ['--start-maximized'],
     });
 
     this.context = await this.browser.newContext({
-      viewport: null,
+      // 无头模式没有窗口大小，使用固定视口
+      viewport: headless ? { width: 1280, height: 800 } : null,
+      ...network,
     });
 
     // 获取平台登录器
@@ -41,14 +47,19 @@ export class PlaywrightService {
     await loginHandler.openLoginPage(this.context);
 
     const config = PlatformRegistry.getConfig(platform);
-    console.log(`\n⏸️  浏览器已打开，请在浏览器中完成登录`);
+    if (headless) {
+      console.log(`\n📱 已在后台打开登录页，等待扫码登录`);
+    } else {
+      console.log(`\n⏸️  浏览器已打开，请在浏览器中完成登录`);
+    }
     console.log(`   平台: ${config?.name || platform}`);
 
     return this.context;
   }
 
   // 保存登录信息（使用新的存储结构）
-  async saveLoginData(platform: Platform, accountId?: string): Promise<string> {
+  // existingPath: 重新登录已有账号时写回原 Cookie 文件，文件不可用时另存为新文件
+  async saveLoginData(platform: Platform, accountId?: string, existingPath?: string): Promise<string> {
     if (!this.context) {
       throw new Error('浏览器上下文不存在');
     }
@@ -59,14 +70,18 @@ export class PlaywrightService {
     // 获取 Cookies
     const cookies = await loginHandler.getCookies(this.context);
     
-    // 获取 localStorage（如果登录器支持）
+    // 获取 localStorage（登录器未单独实现时保存上下文中访问过的各 origin 的 localStorage）
     let origins: OriginData[] = [];
-    if (loginHandler.getLocalStorage) {
-      try {
-        origins = await loginHandler.getLocalStorage(this.context);
-      } catch (error) {
-        console.warn('⚠️ 获取 localStorage 失败:', error);
-      }
+    try {
+      origins = loginHandler.getLocalStorage
+        ? await loginHandler.getLocalStorage(this.context)
+        : (await this.context.storageState()).origins;
+    } catch (error) {
+      console.warn('⚠️ 获取 localStorage 失败:', error);
+    }
+
+    if (existingPath && CookieStorageService.updateCookieFile(existingPath, cookies, origins)) {
+      return existingPath;
     }
 
     // 保存到文件
@@ -80,8 +95,15 @@ export class PlaywrightService {
     return filePath;
   }
 
-  // 关闭浏览器
+  // 关闭浏览器（从浏览器池租用的上下文归还给浏览器池）
   async closeBrowser(): Promise<void> {
+    if (this.lease) {
+      const lease = this.lease;
+      this.lease = null;
+      this.context = null;
+      await lease.release();
+      return;
+    }
     if (this.context) {
       await this.context.close();
       this.context = null;
@@ -97,47 +119,25 @@ export class PlaywrightService {
     return this.context;
   }
 
-  // 使用已保存的 Cookie 启动浏览器
+  // 使用已保存的 Cookie 启动浏览器（从浏览器池租用账号的上下文）
   async launchWithCookie(platform: Platform, cookiePath: string): Promise<BrowserContext> {
-    // 读取 Cookie 文件
-    const cookieData = CookieStorageService.readCookieFile(cookiePath);
-    if (!cookieData) {
+    if (!CookieStorageService.readCookieFile(cookiePath)) {
       throw new Error('Cookie 文件读取失败');
     }
 
-    // 启动浏览器
-    this.browser = await chromium.launch({
-      headless: true,  // 无头模式
-    });
-
-    this.context = await this.browser.newContext();
-
-    // 设置 Cookies
-    if (cookieData.cookies && cookieData.cookies.length > 0) {
-      await this.context.addCookies(cookieData.cookies);
-    }
-
-    // 设置 localStorage
-    if (cookieData.origins && cookieData.origins.length > 0) {
-      for (const originData of cookieData.origins) {
-        const page = await this.context.newPage();
-        await page.goto(originData.origin);
-        
-        // 注入 localStorage
-        for (const item of originData.localStorage) {
-          await page.evaluate(({key, value}) => {
-            // @ts-ignore
-            localStorage.setItem(key, value);
-          }, { key: item.name, value: item.value });
-        }
-        
-        await page.close();
-      }
-    }
+    // 上下文创建时已加载 Cookie 和 localStorage
+    this.lease = await browserPool.acquire(cookiePath);
+    this.context = this.lease.context;
 
     return this.context;
   }
 
+  // 获取当前页面（最近打开的页面，登录时可能弹出新窗口）
+  getPage(): Page | undefined {
+    const pages = this.context?.pages().filter(page => !page.isClosed()) ?? [];
+    return pages[pages.length - 1];
+  }
+
   // 获取账号信息
   async getAccountInfo(platform: Platform) {
     if (!this.context) {
@@ -0,0 +1,161 @@
+import { request } from 'playwright';
+import { appConfig, ProxyPoolEntry } from '../config/loader';
+import { ProxySettings } from '../types';
+
+// 未配置时的代理检测地址和超时时间
+const DEFAULT_CHECK_URL = 'https://www.douyin.com';
+const DEFAULT_CHECK_TIMEOUT_SECONDS = 10;
+
+// 代理检测结果
+export interface ProxyCheckResult {
+  healthy: boolean;
+  latencyMs: number;   // 请求耗时（毫秒）
+  status?: number;     // 检测地址返回的 HTTP 状态码
+  error?: string;
+}
+
+// 代理池中代理的状态
+export interface ProxyHealth extends ProxyCheckResult {
+  name: string;
+  server: string;
+  checkedAt: Date;
+}
+
+/**
+ * 转换为 Playwright 的代理配置
+ */
+export function toProxySettings(entry: ProxyPoolEntry): ProxySettings {
+  const { name, ...proxy } = entry;
+  return proxy;
+}
+
+/**
+ * 为账号选择代理：跳过不可用的代理，选已分配账号最少的（数量相同时按配置顺序）
+ * @param loads 每个代理已分配的账号数
+ */
+export function pickProxy(
+  proxies: ProxyPoolEntry[],
+  loads: Map<string, number>,
+  isHealthy: (name: string) => boolean
+): ProxyPoolEntry | undefined {
+  return proxies
+    .filter(proxy => isHealthy(proxy.name))
+    .reduce<ProxyPoolEntry | undefined>((best, proxy) =>
+      !best || (loads.get(proxy.name) ?? 0) < (loads.get(best.name) ?? 0) ? proxy : best,
+      undefined
+    );
+}
+
+/**
+ * 通过代理访问检测地址，收到响应即视为可用（代理认证失败、网关错误除外）
+ * @param proxy 要检测的代理，不传时检测直连网络
+ */
+export async function checkProxy(
+  proxy?: ProxySettings,
+  options: { url?: string; timeoutSeconds?: number } = {}
+): Promise<ProxyCheckResult> {
+  const healthCheck = appConfig.proxyPool?.healthCheck;
+  const url = options.url ?? healthCheck?.url ?? DEFAULT_CHECK_URL;
+  const timeoutSeconds = options.timeoutSeconds ?? healthCheck?.timeoutSeconds ?? DEFAULT_CHECK_TIMEOUT_SECONDS;
+  const startedAt = Date.now();
+
+  const context = await request.newContext({ proxy, timeout: timeoutSeconds * 1000 });
+  try {
+    const response = await context.get(url);
+    const status = response.status();
+    return {
+      healthy: status !== 407 && status !== 502 && status !== 503,
+      latencyMs: Date.now() - startedAt,
+      status,
+    };
+  } catch (error: any) {
+    return {
+      healthy: false,
+      latencyMs: Date.now() - startedAt,
+      error: error.message,
+    };
+  } finally {
+    await context.dispose().catch(() => undefined);
+  }
+}
+
+/**
+ * 代理池
+ * 账号开启 useProxyPool 后从这里分配代理，定时检测代理可用性，不可用的代理不再分配
+ */
+export class ProxyPool {
+  private static instance: ProxyPool;
+  private health: Map<string, ProxyHealth> = new Map();
+
+  constructor(
+    private loadProxies: () => ProxyPoolEntry[] = () => appConfig.proxyPool?.proxies ?? []
+  ) {}
+
+  static getInstance(): ProxyPool {
+    if (!ProxyPool.instance) {
+      ProxyPool.instance = new ProxyPool();
+    }
+    return ProxyPool.instance;
+  }
+
+  getProxies(): ProxyPoolEntry[] {
+    return this.loadProxies();
+  }
+
+  find(name: string): ProxyPoolEntry | undefined {
+    return this.getProxies().find(proxy => proxy.name === name);
+  }
+
+  /**
+   * 代理是否可用（未检测过的视为可用）
+   */
+  isHealthy(name: string): boolean {
+    return this.health.get(name)?.healthy ?? true;
+  }
+
+  /**
+   * 分配一个代理，没有可用代理时返回 undefined
+   * @param loads 每个代理已分配的账号数
+   */
+  assign(loads: Map<string, number>): ProxyPoolEntry | undefined {
+    return pickProxy(this.getProxies(), loads, name => this.isHealthy(name));
+  }
+
+  /**
+   * 检测代理池中的所有代理
+   */
+  async checkAll(): Promise<ProxyHealth[]> {
+    const results: ProxyHealth[] = [];
+
+    for (const entry of this.getProxies()) {
+      const result = await checkProxy(toProxySettings(entry));
+      const health: ProxyHealth = { name: entry.name, server: entry.server, ...result, checkedAt: new Date() };
+      this.health.set(entry.name, health);
+      results.push(health);
+
+      if (result.healthy) {
+        console.log(`  ✅ 代理 ${entry.name} 可用 (${result.latencyMs}ms)`);
+      } else {
+        console.warn(`  ⚠️ 代理 ${entry.name} 不可用: ${result.error ?? `HTTP ${result.status}`}`);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * 代理池状态（不含认证信息）
+   */
+  getStatus(loads: Map<string, number> = new Map()) {
+    return this.getProxies().map(entry => ({
+      name: entry.name,
+      server: entry.server,
+      healthy: this.isHealthy(entry.name),
+      accounts: loads.get(entry.name) ?? 0,
+      lastCheck: this.health.get(entry.name) ?? null,
+    }));
+  }
+}
+
+// 导出单例
+export const proxyPool = ProxyPool.getInstance();
@@ -0,0 +1,214 @@
+import { BrowserContext, Page } from 'playwright';
+import { IPlatformLogin, QrCodeLoginDescriptor, QrLoginStatus } from '../types';
+import { loginEvents } from './login.events';
+
+// 检查扫码状态的间隔
+const POLL_INTERVAL_MS = 2000;
+
+// 二维码过期后自动刷新的次数，用完后需要重新开始登录
+const MAX_QR_REFRESHES = 5;
+
+// 扫码登录的当前状态
+export interface QrLoginState {
+  status: QrLoginStatus;
+  message?: string;
+  accountId?: number;   // confirmed: 已保存的账号ID
+  hasQrCode: boolean;   // 是否已截取到二维码
+  refreshes: number;    // 已自动刷新的次数
+}
+
+/**
+ * 无头扫码登录
+ * 在无头浏览器中打开平台登录页，截取二维码供前端显示，过期时自动刷新，
+ * 根据页面提示更新扫码状态，确认登录后调用 onConfirmed 保存账号
+ */
+export class QrCodeLoginWatcher {
+  private qrCode: QrCodeLoginDescriptor;
+  private status: QrLoginStatus = 'waiting';
+  private message?: string = '等待扫码';
+  private accountId?: number;
+  private image?: Buffer;
+  private refreshes = 0;
+  private finished = false;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private sessionId: string,
+    private context: BrowserContext,
+    private handler: IPlatformLogin,
+    private onConfirmed: () => Promise<number>,
+    private pollIntervalMs: number = POLL_INTERVAL_MS
+  ) {
+    if (!handler.qrCode) {
+      throw new Error(`平台 ${handler.platform} 不支持扫码登录`);
+    }
+    this.qrCode = handler.qrCode;
+  }
+
+  /**
+   * 开始定时检查扫码状态
+   */
+  start(): void {
+    this.schedule(0);
+  }
+
+  /**
+   * 停止检查（完成、取消登录时调用）
+   */
+  stop(): void {
+    this.finished = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * 登录会话被关闭（超时、取消），未完成的扫码登录以失败结束
+   */
+  abort(message: string): void {
+    const finished = this.finished;
+    this.stop();
+
+    if (!finished) {
+      this.setStatus('failed', message);
+    }
+  }
+
+  getState(): QrLoginState {
+    return {
+      status: this.status,
+      message: this.message,
+      accountId: this.accountId,
+      hasQrCode: this.image !== undefined,
+      refreshes: this.refreshes,
+    };
+  }
+
+  /**
+   * 获取最近截取的二维码图片（PNG）
+   */
+  getQrCode(): Buffer | undefined {
+    return this.image;
+  }
+
+  /**
+   * 检查一次扫码状态
+   */
+  async poll(): Promise<QrLoginStatus> {
+    if (this.finished) {
+      return this.status;
+    }
+
+    if (await this.handler.checkLoginStatus(this.context)) {
+      await this.confirm();
+      return this.status;
+    }
+
+    const page = this.getPage();
+    if (!page) {
+      return this.status;
+    }
+
+    if (this.qrCode.expiredSelector && await this.isVisible(page, this.qrCode.expiredSelector)) {
+      await this.refresh(page);
+      if (this.finished) {
+        return this.status;
+      }
+    } else if (this.qrCode.scannedSelector && await this.isVisible(page, this.qrCode.scannedSelector)) {
+      this.setStatus('scanned', '已扫码，请在手机上确认登录');
+      return this.status;
+    } else if (this.status !== 'waiting') {
+      // 手机上取消了确认，二维码重新可用
+      this.setStatus('waiting', '等待扫码');
+    }
+
+    await this.captureQrCode(page);
+    return this.status;
+  }
+
+  private schedule(delay: number): void {
+    if (this.finished) return;
+
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error: any) {
+        console.warn('⚠️ 检查扫码状态失败:', error.message);
+      }
+      this.schedule(this.pollIntervalMs);
+    }, delay);
+    this.timer.unref?.();
+  }
+
+  /**
+   * 二维码过期时自动刷新，次数用完后结束登录
+   */
+  private async refresh(page: Page): Promise<void> {
+    if (this.refreshes >= MAX_QR_REFRESHES) {
+      this.stop();
+      this.setStatus('expired', '二维码多次过期，请重新开始登录');
+      return;
+    }
+
+    this.refreshes++;
+    this.setStatus('expired', '二维码已过期，正在刷新');
+    await page.locator(this.qrCode.refreshSelector ?? this.qrCode.selector).first().click();
+    this.setStatus('waiting', '二维码已刷新，请重新扫码');
+  }
+
+  /**
+   * 截取二维码，图片变化时通知前端重新获取
+   */
+  private async captureQrCode(page: Page): Promise<void> {
+    const element = page.locator(this.qrCode.selector).first();
+
+    if (!(await element.isVisible().catch(() => false)) && this.qrCode.switchSelector) {
+      await page.locator(this.qrCode.switchSelector).first().click().catch(() => undefined);
+    }
+    if (!(await element.isVisible().catch(() => false))) {
+      return;
+    }
+
+    const image = await element.screenshot();
+    if (!this.image || !this.image.equals(image)) {
+      this.image = image;
+      loginEvents.emitQrCode(this.sessionId);
+    }
+  }
+
+  /**
+   * 已确认登录，保存账号
+   */
+  private async confirm(): Promise<void> {
+    this.stop();
+
+    try {
+      this.accountId = await this.onConfirmed();
+      this.setStatus('confirmed', '登录成功，账号已保存');
+      console.log(`✅ 扫码登录成功，账号ID: ${this.accountId}`);
+    } catch (error: any) {
+      this.setStatus('failed', `保存账号失败: ${error.message}`);
+    }
+  }
+
+  private setStatus(status: QrLoginStatus, message: string): void {
+    const changed = status !== this.status || message !== this.message;
+    this.status = status;
+    this.message = message;
+
+    if (changed) {
+      loginEvents.emitStatus(this.sessionId, status, message, this.accountId);
+    }
+  }
+
+  // 登录可能弹出新窗口，使用最近打开的页面
+  private getPage(): Page | undefined {
+    const pages = this.context.pages().filter(page => !page.isClosed());
+    return pages[pages.length - 1];
+  }
+
+  private async isVisible(page: Page, selector: string): Promise<boolean> {
+    return await page.locator(selector).first().isVisible().catch(() => false);
+  }
+}
@@ -0,0 +1,193 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { CDPSession, Page } from 'playwright';
+
+// MJPEG 分隔符
+const MJPEG_BOUNDARY = 'screencastframe';
+
+// CDP 录屏参数：画面缩放到 1280 以内，每 2 帧取 1 帧，降低带宽和 CPU 占用
+const SCREENCAST_OPTIONS = {
+  format: 'jpeg',
+  quality: 60,
+  maxWidth: 1280,
+  maxHeight: 1280,
+  everyNthFrame: 2,
+} as const;
+
+// 录屏观看者
+export interface ScreencastViewer {
+  onFrame(frame: Buffer): void;  // 收到一帧 JPEG 画面
+  onEnd(): void;                 // 页面已关闭，录屏结束
+}
+
+interface PageScreencast {
+  ready: Promise<CDPSession>;
+  viewers: Set<ScreencastViewer>;
+  lastFrame?: Buffer;  // 页面静止时不会产生新帧，新的观看者先收到最近一帧
+}
+
+/**
+ * 浏览器页面录屏服务
+ * 通过 CDP 的 Page.startScreencast 获取页面画面（仅 Chromium），
+ * 同一页面的多个观看者共用一个录屏，最后一个观看者离开时停止录屏
+ */
+export class ScreencastService {
+  private static instance: ScreencastService;
+  private screencasts: Map<Page, PageScreencast> = new Map();
+
+  static getInstance(): ScreencastService {
+    if (!ScreencastService.instance) {
+      ScreencastService.instance = new ScreencastService();
+    }
+    return ScreencastService.instance;
+  }
+
+  /**
+   * 观看页面录屏
+   * @returns 停止观看的函数
+   */
+  async watch(page: Page, viewer: ScreencastViewer): Promise<() => Promise<void>> {
+    if (page.isClosed()) {
+      throw new Error('页面已关闭');
+    }
+
+    let screencast = this.screencasts.get(page);
+    if (!screencast) {
+      // start 需要引用录屏本身，先创建录屏再开始
+      let resolveReady!: (session: CDPSession) => void;
+      let rejectReady!: (error: unknown) => void;
+      const created: PageScreencast = {
+        ready: new Promise<CDPSession>((resolve, reject) => {
+          resolveReady = resolve;
+          rejectReady = reject;
+        }),
+        viewers: new Set(),
+      };
+      this.start(page, created).then(resolveReady, rejectReady);
+      screencast = created;
+      this.screencasts.set(page, screencast);
+    }
+
+    try {
+      await screencast.ready;
+    } catch (error) {
+      if (this.screencasts.get(page) === screencast) {
+        this.screencasts.delete(page);
+      }
+      throw error;
+    }
+
+    // 等待开始录屏期间页面可能已关闭，此时录屏已结束，不会再通知新的观看者
+    if (page.isClosed() || this.screencasts.get(page) !== screencast) {
+      throw new Error('页面已关闭');
+    }
+
+    screencast.viewers.add(viewer);
+    if (screencast.lastFrame) {
+      viewer.onFrame(screencast.lastFrame);
+    }
+
+    const current = screencast;
+    return async () => {
+      current.viewers.delete(viewer);
+      if (current.viewers.size === 0 && this.screencasts.get(page) === current) {
+        this.screencasts.delete(page);
+        await this.stop(current);
+      }
+    };
+  }
+
+  /**
+   * 以 MJPEG (multipart/x-mixed-replace) 推送页面录屏，直到客户端断开或页面关闭
+   * 浏览器可以直接用 <img src="..."> 显示
+   */
+  async stream(page: Page, req: IncomingMessage, res: ServerResponse): Promise<void> {
+    // 开始录屏失败时调用方还可以返回错误响应，响应头在第一次写入时才发送
+    res.setHeader('Content-Type', `multipart/x-mixed-replace; boundary=${MJPEG_BOUNDARY}`);
+    res.setHeader('Cache-Control', 'no-cache, no-store');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+
+    // 客户端接收不过来时丢帧，避免在内存中堆积画面
+    let congested = false;
+
+    const unwatch = await this.watch(page, {
+      onFrame: (frame) => {
+        if (congested || res.writableEnded) return;
+
+        res.write(`--${MJPEG_BOUNDARY}\r\nContent-Type: image/jpeg\r\nContent-Length: ${frame.length}\r\n\r\n`);
+        res.write(frame);
+        if (!res.write('\r\n')) {
+          congested = true;
+          res.once('drain', () => {
+            congested = false;
+          });
+        }
+      },
+      onEnd: () => res.end(),
+    });
+
+    res.flushHeaders();
+
+    const stop = () => {
+      unwatch().catch(error => console.warn('⚠️ 停止录屏失败:', error));
+    };
+
+    // 开始录屏期间客户端可能已经断开
+    if (req.destroyed) {
+      stop();
+    } else {
+      req.on('close', stop);
+    }
+  }
+
+  /**
+   * 开始录屏
+   */
+  private async start(page: Page, screencast: PageScreencast): Promise<CDPSession> {
+    let session: CDPSession;
+    try {
+      session = await page.context().newCDPSession(page);
+    } catch (error: any) {
+      throw new Error(`无法录制页面（仅支持 Chromium）: ${error.message}`);
+    }
+
+    session.on('Page.screencastFrame', (frame) => {
+      // 必须确认收到，浏览器才会继续发送下一帧
+      session.send('Page.screencastFrameAck', { sessionId: frame.sessionId }).catch(() => undefined);
+
+      const data = Buffer.from(frame.data, 'base64');
+      screencast.lastFrame = data;
+      screencast.viewers.forEach(viewer => viewer.onFrame(data));
+    });
+
+    page.once('close', () => {
+      if (this.screencasts.get(page) !== screencast) return;
+
+      this.screencasts.delete(page);
+      screencast.viewers.forEach(viewer => viewer.onEnd());
+      screencast.viewers.clear();
+    });
+
+    await session.send('Page.startScreencast', SCREENCAST_OPTIONS);
+    console.log('🎥 已开始页面录屏');
+
+    return session;
+  }
+
+  /**
+   * 停止录屏
+   */
+  private async stop(screencast: PageScreencast): Promise<void> {
+    try {
+      const session = await screencast.ready;
+      await session.send('Page.stopScreencast');
+      await session.detach();
+      console.log('⏹️ 已停止页面录屏');
+    } catch {
+      // 页面已关闭时录屏随之结束
+    }
+  }
+}
+
+// 导出单例
+export const screencastService = ScreencastService.getInstance();
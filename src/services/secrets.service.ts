@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { appConfig } from '../config/loader';
+
+// 加密数据的前缀：enc:v1:<密钥ID>:<iv>:<tag>:<密文>
+const ENVELOPE_PREFIX = 'enc:v1:';
+
+// AES-256-GCM 参数
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+/**
+ * 解析主密钥：32 字节，64 位十六进制或 base64
+ */
+export function parseMasterKey(value: string): Buffer {
+  const text = value.trim();
+
+  if (/^[0-9a-fA-F]{64}$/.test(text)) {
+    return Buffer.from(text, 'hex');
+  }
+
+  const key = Buffer.from(text, 'base64');
+  if (key.length !== KEY_LENGTH || key.toString('base64').replace(/=+$/, '') !== text.replace(/=+$/, '')) {
+    throw new Error('主密钥必须是 32 字节（64 位十六进制或 base64），可用 openssl rand -base64 32 生成');
+  }
+  return key;
+}
+
+/**
+ * 读取主密钥
+ * 优先级: 环境变量 SPO_SECRET_KEY > 环境变量 SPO_SECRET_KEY_FILE 指定的文件 > 配置文件 secrets.keyFile
+ * @returns 未配置时返回 null（不加密）
+ */
+export function loadMasterKey(
+  env: NodeJS.ProcessEnv = process.env,
+  keyFile = appConfig.secrets?.keyFile
+): Buffer | null {
+  if (env.SPO_SECRET_KEY) {
+    return parseMasterKey(env.SPO_SECRET_KEY);
+  }
+
+  const filePath = env.SPO_SECRET_KEY_FILE || keyFile;
+  if (!filePath) {
+    return null;
+  }
+
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`主密钥文件不存在: ${resolved}`);
+  }
+  return parseMasterKey(fs.readFileSync(resolved, 'utf-8'));
+}
+
+/**
+ * 使用一个主密钥加解密（AES-256-GCM）
+ */
+export class SecretCipher {
+  readonly keyId: string;  // 密钥指纹，用于发现数据是用哪个密钥加密的
+
+  constructor(private key: Buffer) {
+    if (key.length !== KEY_LENGTH) {
+      throw new Error('主密钥必须是 32 字节');
+    }
+    this.keyId = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return `${ENVELOPE_PREFIX}${this.keyId}:${iv.toString('base64')}:${tag.toString('base64')}:${data.toString('base64')}`;
+  }
+
+  decrypt(envelope: string): string {
+    const parts = envelope.slice(ENVELOPE_PREFIX.length).split(':');
+    if (!envelope.startsWith(ENVELOPE_PREFIX) || parts.length !== 4) {
+      throw new Error('加密数据格式错误');
+    }
+
+    const [keyId, iv, tag, data] = parts;
+    if (keyId !== this.keyId) {
+      throw new Error(`数据使用其他主密钥加密（密钥ID ${keyId}），当前密钥ID ${this.keyId}`);
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv(ALGORITHM, this.key, Buffer.from(iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf-8');
+    } catch {
+      throw new Error('解密失败，数据已损坏或主密钥不正确');
+    }
+  }
+}
+
+/**
+ * 敏感数据加密
+ * 配置了主密钥时加密 Cookie 文件和资源库密码，读取时自动解密；
+ * 未配置主密钥时按明文保存，已有的明文数据始终可以读取（配置密钥后下次保存时加密）
+ */
+export class SecretsService {
+  private static instance: SecretsService;
+  private cipher: SecretCipher | null;
+
+  constructor(key: Buffer | null = loadMasterKey()) {
+    this.cipher = key ? new SecretCipher(key) : null;
+  }
+
+  static getInstance(): SecretsService {
+    if (!SecretsService.instance) {
+      SecretsService.instance = new SecretsService();
+    }
+    return SecretsService.instance;
+  }
+
+  /**
+   * 是否已配置主密钥
+   */
+  isEnabled(): boolean {
+    return this.cipher !== null;
+  }
+
+  /**
+   * 更换主密钥（密钥轮换时使用），null 表示不再加密
+   */
+  useKey(key: Buffer | null): void {
+    this.cipher = key ? new SecretCipher(key) : null;
+  }
+
+  isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(ENVELOPE_PREFIX);
+  }
+
+  /**
+   * 加密文本，未配置主密钥时原样返回
+   */
+  encrypt(plaintext: string): string {
+    return this.cipher ? this.cipher.encrypt(plaintext) : plaintext;
+  }
+
+  /**
+   * 解密文本，未加密的数据原样返回
+   */
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) {
+      return value;
+    }
+    if (!this.cipher) {
+      throw new Error('数据已加密，但未配置主密钥（SPO_SECRET_KEY 或 SPO_SECRET_KEY_FILE）');
+    }
+    return this.cipher.decrypt(value);
+  }
+}
+
+// 导出单例
+export const secrets = SecretsService.getInstance();
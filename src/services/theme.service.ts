@@ -2,8 +2,14 @@ import { ThemeModel } from '../models/theme.model';
 import { TagModel } from '../models/tag.model';
 import { ResourceService } from '../resources/resource.service';
 import { UploadService } from '../uploaders/upload.service';
+import { uploadEvents } from '../uploaders/upload.events';
+import { UploadValidationService } from '../uploaders/upload.validation';
+import { CoverOption } from '../uploaders/base/uploader.types';
 import * as path from 'path';
 
+// 不会再继续执行的任务状态（失败的任务已用完自动重试次数）
+const FINISHED_STATUSES = ['success', 'failed', 'cancelled'];
+
 /**
  * 主题库服务
  */
@@ -268,6 +274,8 @@ export class ThemeService {
       scheduledAt?: Date;         // 定时发布时间
       useTagsAsTitle?: boolean;   // 是否使用关键词生成标题（默认 true）
       tagCount?: number;          // 关键词数量（默认 5）
+      cover?: CoverOption;        // 封面设置（应用到每个任务）
+      config?: Record<string, any>;  // 平台发布选项（应用到每个任务，账号所在平台不支持的选项忽略）
     }
   ) {
     const theme = await ThemeModel.findById(themeId);
@@ -295,11 +303,14 @@ export class ThemeService {
       throw new Error('没有找到匹配的视频');
     }
     
-    // 创建上传任务
-    const tasks = [];
     const autoArchive = options.autoArchive !== false; // 默认 true
     const useTagsAsTitle = options.useTagsAsTitle !== false; // 默认 true
     const tagCount = options.tagCount || 5;
+    const tags = options.tags?.join(',') || '';
+    
+    // 1. 生成每个任务的标题并校验，全部通过后才创建任务
+    const validator = new UploadValidationService();
+    const plans = [];
     
     for (const accountId of options.accountIds) {
       for (const video of videosToPublish) {
@@ -316,38 +327,82 @@ export class ThemeService {
           }
         }
         
-        // 创建上传任务
-        const task = await this.uploadService.createTask({
+        const validation = await this.uploadService.validateTask({
           platformId: accountId,
           libraryId: video.libraryId,
           resourcePath: video.fullPath,
           title,
-          tags: options.tags?.join(',') || '',
-          scheduledAt: options.scheduledAt,
-        });
+          tags,
+          cover: options.cover,
+          config: options.config,
+        }, validator);
         
-        tasks.push({
-          taskId: task.id,
-          accountId,
-          videoName: video.name,
-          videoPath: video.fullPath,
-          libraryId: video.libraryId,
-          autoArchive,
-          generatedTitle: title, // 返回生成的标题
-        });
+        plans.push({ accountId, video, title, validation });
       }
     }
     
+    const validation = plans.map(plan => ({
+      accountId: plan.accountId,
+      videoName: plan.video.name,
+      videoPath: plan.video.fullPath,
+      ...plan.validation,
+    }));
+    
+    const rejected = plans.filter(plan => !plan.validation.valid);
+    if (rejected.length > 0) {
+      console.warn(`⚠️ 批量发布校验未通过: ${rejected.length}/${plans.length} 个任务有违规项，未创建任何任务`);
+      return {
+        valid: false,
+        tasks: [],
+        totalTasks: 0,
+        accountCount: options.accountIds.length,
+        videoCount: videosToPublish.length,
+        validation,
+      };
+    }
+    
+    // 2. 创建上传任务
+    const tasks = [];
+    
+    for (const plan of plans) {
+      const task = await this.uploadService.createTask({
+        platformId: plan.accountId,
+        libraryId: plan.video.libraryId,
+        resourcePath: plan.video.fullPath,
+        title: plan.title,
+        tags,
+        scheduledAt: options.scheduledAt,
+        cover: options.cover,
+        config: options.config,
+        skipValidation: true,
+        archiveThemeId: autoArchive ? themeId : undefined,
+      });
+      
+      tasks.push({
+        taskId: task.id,
+        accountId: plan.accountId,
+        videoName: plan.video.name,
+        videoPath: plan.video.fullPath,
+        libraryId: plan.video.libraryId,
+        autoArchive,
+        generatedTitle: plan.title, // 返回生成的标题
+        warnings: plan.validation.warnings,
+      });
+    }
+    
     return {
+      valid: true,
       tasks,
       totalTasks: tasks.length,
       accountCount: options.accountIds.length,
       videoCount: videosToPublish.length,
+      validation,
     };
   }
   
   /**
-   * 执行批量发布任务并归档
+   * 执行批量发布任务
+   * 要求归档时，视频在发布成功后自动归档（包括因发布限制推迟、等待平台确认的任务，见 startAutoArchive）
    */
   async executeBatchPublish(
     themeId: number,
@@ -359,6 +414,8 @@ export class ThemeService {
       throw new Error('主题库不存在');
     }
     
+    await this.uploadService.setArchiveTheme(taskIds, autoArchive ? themeId : null);
+    
     const results = [];
     
     for (const taskId of taskIds) {
@@ -366,35 +423,101 @@ export class ThemeService {
         // 执行上传
         const result = await this.uploadService.executeTask(taskId);
         
-        // 如果成功且需要归档
-        if (result.success && autoArchive) {
-          const task = await this.uploadService.getTask(taskId);
-          if (task) {
-            await this.archiveVideo(
-              themeId,
-              task.libraryId,
-              task.resourcePath
-            );
-          }
-        }
-        
         results.push({
           taskId,
           success: result.success,
+          deferred: result.deferred ?? false,
+          deferredUntil: result.deferredUntil,
           message: result.message,
         });
       } catch (error: any) {
         results.push({
           taskId,
           success: false,
+          deferred: false,
           message: error.message,
         });
       }
     }
     
+    const deferredCount = results.filter(r => r.deferred).length;
+    if (deferredCount > 0) {
+      console.log(`⏸️ 批量发布中有 ${deferredCount} 个任务因账号发布限制被推迟，将由调度器自动执行`);
+    }
+    
     return results;
   }
   
+  /**
+   * 开始监听上传任务状态，要求自动归档的任务结束后归档视频
+   * @returns 停止监听的函数
+   */
+  startAutoArchive(): () => void {
+    return uploadEvents.subscribe((event) => {
+      if (event.type === 'status' && FINISHED_STATUSES.includes(event.status)) {
+        this.archivePublishedTask(event.taskId).catch((error) => {
+          console.error(`❌ 任务 #${event.taskId} 的视频自动归档失败:`, error);
+        });
+      }
+    });
+  }
+  
+  /**
+   * 归档服务停止期间已结束的任务的视频（启动时调用，补上未收到的状态事件）
+   * @returns 归档的视频数
+   */
+  async archiveFinishedTasks(): Promise<number> {
+    const tasks = await this.uploadService.getTasksAwaitingArchive(FINISHED_STATUSES);
+    
+    // 同一视频只需检查一次
+    const videos = new Map<string, number>();
+    for (const task of tasks) {
+      videos.set(`${task.archiveThemeId}:${task.libraryId}:${task.resourcePath}`, task.id);
+    }
+    
+    let archived = 0;
+    for (const taskId of videos.values()) {
+      try {
+        if (await this.archivePublishedTask(taskId)) {
+          archived++;
+        }
+      } catch (error) {
+        console.error(`❌ 任务 #${taskId} 的视频自动归档失败:`, error);
+      }
+    }
+    
+    if (archived > 0) {
+      console.log(`📦 已归档 ${archived} 个已发布的视频`);
+    }
+    return archived;
+  }
+  
+  /**
+   * 归档任务发布的视频
+   * 同一视频发布到多个账号时，等所有任务结束后再归档，避免其他账号找不到视频；没有任务发布成功时不归档
+   * @returns 是否已归档
+   */
+  async archivePublishedTask(taskId: number): Promise<boolean> {
+    const task = await this.uploadService.getTask(taskId);
+    if (!task?.archiveThemeId) {
+      return false;
+    }
+    
+    const { archiveThemeId, libraryId, resourcePath } = task;
+    const tasks = await this.uploadService.getArchiveTasks(archiveThemeId, libraryId, resourcePath);
+    
+    if (!tasks.every(t => FINISHED_STATUSES.includes(t.status)) || !tasks.some(t => t.status === 'success')) {
+      return false;
+    }
+    
+    if (!(await this.uploadService.claimArchive(tasks.map(t => t.id), archiveThemeId))) {
+      return false;
+    }
+    
+    await this.archiveVideo(archiveThemeId, libraryId, resourcePath);
+    return true;
+  }
+  
   /**
    * 归档视频（移动到归档文件夹）
    */
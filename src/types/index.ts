@@ -7,7 +7,8 @@ export type Platform =
   | 'xiaohongshu' // 小红书
   | 'kuaishou'    // 快手
   | 'tencent'     // 视频号
-  | 'tiktok';     // TikTok
+  | 'tiktok'      // TikTok
+  | 'mock';       // 模拟平台（本地测试/演示）
 
 // 平台配置接口
 export interface PlatformConfig {
@@ -15,6 +16,7 @@ export interface PlatformConfig {
   loginUrl: string;
   uploadUrl?: string;
   enabled: boolean;
+  authCookies?: string[];  // 登录态关键 Cookie，用于预测登录过期时间
 }
 
 // localStorage 数据结构
@@ -86,6 +88,71 @@ export interface IPlatformLogin {
   
   // 获取 localStorage 数据（可选实现）
   getLocalStorage?(context: BrowserContext): Promise<OriginData[]>;
+  
+  // 登录页上的二维码（可选，提供后支持无头扫码登录）
+  qrCode?: QrCodeLoginDescriptor;
+}
+
+// 登录页二维码的选择器，无头扫码登录时据此截取二维码和判断扫码状态
+export interface QrCodeLoginDescriptor {
+  selector: string;           // 二维码元素（img 或 canvas）
+  switchSelector?: string;    // 切换到扫码登录的入口（二维码不可见时点击）
+  scannedSelector?: string;   // 已扫码、等待手机确认的提示
+  expiredSelector?: string;   // 二维码已过期的提示
+  refreshSelector?: string;   // 刷新二维码的按钮（未设置时点击二维码本身）
+}
+
+// 扫码登录状态
+export type QrLoginStatus =
+  | 'waiting'    // 等待扫码
+  | 'scanned'    // 已扫码，等待手机确认
+  | 'confirmed'  // 已确认登录，账号已保存
+  | 'expired'    // 二维码已过期（正在自动刷新，或刷新次数用完）
+  | 'failed';    // 登录失败
+
+// 登录方式：browser 打开浏览器窗口手动登录；qrcode 后台打开登录页，由前端显示二维码
+export type LoginMode = 'browser' | 'qrcode';
+
+// 登录会话状态
+export type LoginSessionState =
+  | 'active'      // 等待用户登录
+  | 'finishing';  // 正在保存账号
+
+// 登录会话信息（GET /api/accounts/login/sessions）
+export interface LoginSessionInfo {
+  sessionId: string;
+  platform: Platform;
+  accountName: string;
+  mode: LoginMode;
+  state: LoginSessionState;
+  createdAt: Date;
+  lastActiveAt: Date;
+  expiresAt: Date;            // 无操作时自动关闭的时间
+  accountId?: number;         // 重新登录的账号ID
+  qrStatus?: QrLoginStatus;   // 扫码登录的扫码状态
+}
+
+// 平台审核状态
+export type VideoReviewStatus =
+  | 'under_review'  // 审核中
+  | 'rejected'      // 审核未通过
+  | 'published';    // 已发布
+
+// 发布后在作品列表中查找视频的条件
+export interface PublishedVideoQuery {
+  videoId?: string;       // 已知视频ID时按ID查找
+  title: string;          // 发布标题（平台可能在后面拼接话题）
+  publishedAfter: Date;   // 提交发布的时间，早于该时间的作品不匹配
+  excludeVideoIds?: string[];  // 同一账号其他任务已确认的视频ID，按标题匹配时跳过
+}
+
+// 作品列表中找到的视频及其审核状态
+export interface PublishedVideo {
+  videoId: string;
+  title?: string;
+  publishTime?: Date;
+  videoUrl?: string;
+  reviewStatus: VideoReviewStatus;
 }
 
 // 平台账号视频统计采集接口
@@ -99,6 +166,9 @@ export interface IPlatformVideoStatsCollector {
       limit?: number;
     }
   ): Promise<PlatformVideoData[]>;
+  
+  // 在作品列表中查找刚发布的视频并获取审核状态（可选实现，用于发布后确认）
+  findPublishedVideo?(context: BrowserContext, query: PublishedVideoQuery): Promise<PublishedVideo | null>;
 }
 
 // 平台上传器接口（未来扩展）
@@ -135,6 +205,26 @@ export interface PlatformAccount {
   updatedAt: Date;
 }
 
+// 代理服务器（Playwright proxy 格式）
+export interface ProxySettings {
+  server: string;      // 如 http://127.0.0.1:7890、socks5://127.0.0.1:1080
+  username?: string;
+  password?: string;
+  bypass?: string;     // 不走代理的域名，逗号分隔
+}
+
+// 账号网络配置（代理和浏览器指纹），登录、验证、数据同步和上传时使用同一套配置
+export interface NetworkProfile {
+  proxy?: ProxySettings;     // 账号专用代理
+  useProxyPool?: boolean;    // 未设置专用代理时从代理池分配
+  poolProxy?: string;        // 代理池分配给账号的代理名称（首次使用时分配并保存，保持出口 IP 固定）
+  userAgent?: string;
+  locale?: string;           // 如 zh-CN
+  timezoneId?: string;       // 如 Asia/Shanghai
+  viewport?: { width: number; height: number };
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+}
+
 // 全局配置接口
 export interface GlobalConfig {
   cookiesStoragePath: string;  // Cookies 存储根目录
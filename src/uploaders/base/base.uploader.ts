@@ -1,10 +1,25 @@
-import { Browser, BrowserContext, Page, chromium } from 'playwright';
+import { BrowserContext, Page } from 'playwright';
 import * as path from 'path';
 import { IUploader } from './uploader.interface';
-import { UploadTaskData, UploadResult, UploadProgress } from './uploader.types';
+import {
+  UploadTaskData,
+  UploadResult,
+  UploadProgress,
+  UploadIntervention,
+  VerificationDialog,
+  InterventionInput,
+} from './uploader.types';
 import { ResourceService } from '../../resources/resource.service';
 import ffmpeg from 'fluent-ffmpeg';
 import ffmpegStatic from 'ffmpeg-static';
+import { ARTIFACT_FILES, getAttemptArtifactDir } from '../upload.artifacts';
+import { TranscodeService, isTranscodeEnabled } from '../upload.transcode';
+import { CoverService } from '../upload.cover';
+import { browserPool, BrowserLease } from '../../services/browser.pool';
+import { PlatformVideoStatsFactory } from '../../platforms/stats/factory';
+import { resolveVerificationPolicy } from '../upload.verification';
+import { resolveInterventionPolicy, applyInterventionInput } from '../upload.intervention';
+import { Platform, PublishedVideo } from '../../types';
 
 /**
  * 基础上传器抽象类
@@ -13,7 +28,6 @@ import ffmpegStatic from 'ffmpeg-static';
 export abstract class BaseUploader implements IUploader {
   protected platform: string;
   protected accountFile: string;
-  protected browser?: Browser;
   protected context?: BrowserContext;
   protected page?: Page;
   protected resourceService: ResourceService;
@@ -28,6 +42,22 @@ export abstract class BaseUploader implements IUploader {
   // 是否已取消
   protected isCancelled = false;
   
+  // 会打断上传、需要人工处理的验证弹窗，由各平台上传器设置
+  protected verificationDialogs: VerificationDialog[] = [];
+  
+  // 正在等待的人工处理
+  private intervention?: { reason: string; since: Date; resumeRequested: boolean };
+  
+  // 进度监听器
+  private progressListener?: (progress: UploadProgress) => void;
+  
+  // 从浏览器池租用的账号上下文
+  private browserLease?: BrowserLease;
+  
+  // 本次执行的现场文件目录（trace、失败截图等）
+  protected artifactDir?: string;
+  private isTracing = false;
+  
   constructor(platform: string, accountFile: string) {
     this.platform = platform;
     this.accountFile = accountFile;
@@ -42,17 +72,25 @@ export abstract class BaseUploader implements IUploader {
   
   /**
    * 上传前的准备工作
-   * 获取视频路径并填充元数据
+   * 获取视频路径、填充元数据、准备封面，并按平台配置转码
    */
   protected async prepareUpload(task: UploadTaskData): Promise<{
     task: UploadTaskData;
     videoPath: string;
   }> {
     // 1. 获取视频文件路径（可能需要下载）
-    const videoPath = await this.getResourcePath(task);
+    const sourcePath = await this.getResourcePath(task);
     
     // 2. 填充任务数据（从视频元数据读取标题/描述）
-    const enrichedTask = await this.enrichTaskData(task, videoPath);
+    const enrichedTask = await this.enrichTaskData(task, sourcePath);
+    
+    // 3. 准备封面（封面从源视频截取，需在转码前完成）
+    if (task.cover) {
+      enrichedTask.coverPath = await this.prepareCover(task);
+    }
+    
+    // 4. 转码为平台推荐的编码和画面（未启用或已符合要求时使用源文件）
+    const videoPath = await this.transcodeIfNeeded(sourcePath);
     
     return {
       task: enrichedTask,
@@ -61,24 +99,87 @@ export abstract class BaseUploader implements IUploader {
   }
   
   /**
-   * 初始化浏览器
-   * @param headless 是否无头模式
+   * 把任务的封面设置转换为本地图片
+   * 截取的画面保存在临时目录，上传结束后和视频一起清理；失败时不设置封面，不影响发布
    */
-  protected async initBrowser(headless: boolean = false): Promise<void> {
+  protected async prepareCover(task: UploadTaskData): Promise<string | undefined> {
+    const cover = task.cover;
+    if (!cover) {
+      return undefined;
+    }
+    
     try {
-      // 启动浏览器
-      this.browser = await chromium.launch({
-        headless,
-        // 可以配置其他选项,如指定 Chrome 路径等
-      });
+      if (cover.source === 'library') {
+        return await this.getLibraryFilePath(cover.libraryId ?? task.libraryId, cover.path!);
+      }
+      
+      const coverService = new CoverService();
+      const image = cover.source === 'frame'
+        ? await coverService.extractFrame(task.libraryId, task.resourcePath, cover.time ?? 0)
+        : (await coverService.extractBestFrame(task.libraryId, task.resourcePath)).image;
+      
+      const fs = await import('fs/promises');
+      const tmpDir = path.join(process.cwd(), 'temp', 'uploads');
+      await fs.mkdir(tmpDir, { recursive: true });
       
-      // 创建浏览器上下文,加载 Cookie
-      this.context = await this.browser.newContext({
-        storageState: this.accountFile
+      const coverPath = path.join(tmpDir, `${Date.now()}_cover_${task.taskId}.jpg`);
+      await fs.writeFile(coverPath, image);
+      
+      console.log(`🖼️ 封面已生成: ${coverPath}`);
+      return coverPath;
+    } catch (error) {
+      console.warn('⚠️ 准备封面失败，将使用平台默认封面:', error);
+      return undefined;
+    }
+  }
+  
+  /**
+   * 按平台转码配置转码视频
+   * 转码结果保存在缓存目录中，下载到临时目录的源文件会被清理
+   */
+  protected async transcodeIfNeeded(sourcePath: string): Promise<string> {
+    if (!isTranscodeEnabled()) {
+      return sourcePath;
+    }
+    
+    const basePercentage = this.progress.percentage;
+    this.updateProgress('transcoding', basePercentage, '检查是否需要转码');
+    
+    try {
+      const result = await TranscodeService.transcode(sourcePath, this.platform, (percent) => {
+        this.updateProgress('transcoding', basePercentage, `转码中 ${percent}%`);
       });
       
-      // 设置初始化脚本(反检测)
-      await this.setInitScript();
+      if (result.transcoded) {
+        this.updateProgress('transcoding', basePercentage, result.cached ? '使用已转码的视频' : '转码完成');
+        await this.cleanupTempFile(sourcePath);
+      }
+      
+      return result.outputPath;
+    } catch (error) {
+      // 转码失败时调用方拿不到源文件路径，在这里清理
+      await this.cleanupTempFile(sourcePath);
+      throw error;
+    }
+  }
+  
+  /**
+   * 初始化浏览器
+   * 从浏览器池租用账号的上下文（已加载 Cookie 和 localStorage），同一账号的上下文在多次上传、统计同步之间复用
+   * 是否无头模式由浏览器池配置决定
+   */
+  protected async initBrowser(): Promise<void> {
+    try {
+      this.browserLease = await browserPool.acquire(this.accountFile);
+      this.context = this.browserLease.context;
+      
+      // 设置初始化脚本(反检测)，复用的上下文已经设置过
+      if (this.browserLease.isNew) {
+        await this.setInitScript();
+      }
+      
+      // 记录 Playwright trace
+      await this.startTracing();
       
       // 创建新页面
       this.page = await this.context.newPage();
@@ -92,25 +193,110 @@ export abstract class BaseUploader implements IUploader {
   
   /**
    * 关闭浏览器
+   * 归还上下文给浏览器池，归还时保存最新的 Cookie 状态
    */
   protected async closeBrowser(): Promise<void> {
     try {
       if (this.context) {
-        // 保存 Cookie 状态
-        await this.context.storageState({ path: this.accountFile });
-        await this.context.close();
+        await this.stopTracing();
       }
       
-      if (this.browser) {
-        await this.browser.close();
+      if (this.browserLease) {
+        const lease = this.browserLease;
+        this.browserLease = undefined;
+        await lease.release();
       }
       
-      console.log('✅ 浏览器已关闭');
+      this.context = undefined;
+      this.page = undefined;
+      
+      console.log('✅ 浏览器已归还');
     } catch (error) {
       console.error('❌ 关闭浏览器失败:', error);
     }
   }
   
+  /**
+   * 设置本次执行的现场文件目录
+   * 需要在 initBrowser 之前调用，未设置时不记录现场
+   */
+  protected setupArtifacts(task: UploadTaskData): void {
+    if (task.attemptNumber) {
+      this.artifactDir = getAttemptArtifactDir(task.taskId, task.attemptNumber);
+    }
+  }
+  
+  /**
+   * 开始记录 Playwright trace
+   */
+  private async startTracing(): Promise<void> {
+    if (!this.context || !this.artifactDir) return;
+    
+    try {
+      await this.context.tracing.start({ screenshots: true, snapshots: true });
+      this.isTracing = true;
+    } catch (error) {
+      console.warn('⚠️ 启动 trace 记录失败:', error);
+    }
+  }
+  
+  /**
+   * 停止记录并保存 trace
+   */
+  private async stopTracing(): Promise<void> {
+    if (!this.context || !this.artifactDir || !this.isTracing) return;
+    
+    try {
+      const fs = await import('fs/promises');
+      await fs.mkdir(this.artifactDir, { recursive: true });
+      await this.context.tracing.stop({ path: path.join(this.artifactDir, ARTIFACT_FILES.trace) });
+      console.log(`🧾 trace 已保存: ${this.artifactDir}`);
+    } catch (error) {
+      console.warn('⚠️ 保存 trace 失败:', error);
+    } finally {
+      this.isTracing = false;
+    }
+  }
+  
+  /**
+   * 保存失败现场：整页截图、页面 DOM 和失败信息
+   * 需要在关闭浏览器之前调用
+   */
+  protected async captureFailureArtifacts(error: unknown): Promise<void> {
+    if (!this.artifactDir) return;
+    
+    try {
+      const fs = await import('fs/promises');
+      await fs.mkdir(this.artifactDir, { recursive: true });
+      
+      const page = this.page && !this.page.isClosed() ? this.page : undefined;
+      
+      if (page) {
+        await page.screenshot({ path: path.join(this.artifactDir, ARTIFACT_FILES.screenshot), fullPage: true })
+          .catch(err => console.warn('⚠️ 保存失败截图失败:', err));
+        
+        const html = await page.content().catch(() => null);
+        if (html !== null) {
+          await fs.writeFile(path.join(this.artifactDir, ARTIFACT_FILES.dom), html, 'utf-8');
+        }
+      }
+      
+      const meta = {
+        platform: this.platform,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        url: page?.url(),
+        progress: this.progress,
+        capturedAt: new Date(),
+      };
+      await fs.writeFile(path.join(this.artifactDir, ARTIFACT_FILES.meta), JSON.stringify(meta, null, 2), 'utf-8');
+      
+      console.log(`📸 失败现场已保存: ${this.artifactDir}`);
+    } catch (captureError) {
+      console.warn('⚠️ 保存失败现场失败:', captureError);
+    }
+  }
+  
   /**
    * 清理临时文件
    */
@@ -164,15 +350,23 @@ export abstract class BaseUploader implements IUploader {
    * 对于远程资源（WebDAV等），会下载到临时目录
    */
   protected async getResourcePath(task: UploadTaskData): Promise<string> {
-    const library = await ResourceService.getLibraryInstance(task.libraryId);
+    return await this.getLibraryFilePath(task.libraryId, task.resourcePath);
+  }
+  
+  /**
+   * 获取资源库中文件的本地路径
+   * 本地资源库直接返回路径，远程资源库下载到临时目录
+   */
+  protected async getLibraryFilePath(libraryId: number, filePath: string): Promise<string> {
+    const library = await ResourceService.getLibraryInstance(libraryId);
     const libraryConfig = await this.resourceService.getAllLibraries();
-    const currentLib = libraryConfig.find(lib => lib.id === task.libraryId);
+    const currentLib = libraryConfig.find(lib => lib.id === libraryId);
     
     // 如果是本地资源库，直接返回路径
     if (currentLib?.type === 'local') {
       return await this.resourceService.getResourceAccessPath(
-        task.libraryId,
-        task.resourcePath
+        libraryId,
+        filePath
       );
     }
     
@@ -181,7 +375,7 @@ export abstract class BaseUploader implements IUploader {
     const fs = await import('fs/promises');
     await fs.mkdir(tmpDir, { recursive: true });
     
-    const fileName = path.basename(task.resourcePath);
+    const fileName = path.basename(filePath);
     const tmpFilePath = path.join(tmpDir, `${Date.now()}_${fileName}`);
     
     console.log(`📥 正在下载远程文件到临时目录: ${fileName}`);
@@ -189,8 +383,8 @@ export abstract class BaseUploader implements IUploader {
     try {
       // 获取文件流
       const stream = await this.resourceService.getResourceStream(
-        task.libraryId,
-        task.resourcePath
+        libraryId,
+        filePath
       );
       
       // 写入临时文件
@@ -227,6 +421,84 @@ export abstract class BaseUploader implements IUploader {
     await this.page.waitForURL(url, { timeout });
   }
   
+  /**
+   * 发布后确认：在作品列表中轮询刚发布的视频，获取真实的视频ID和审核状态
+   * 找到后继续等待审核结果，直到审核有结果或超过等待时间
+   * @param submittedAt 点击发布的时间
+   * @returns 平台没有实现作品查找时返回 undefined；等待时间内未找到时返回 null
+   */
+  protected async confirmPublished(task: UploadTaskData, submittedAt: Date): Promise<PublishedVideo | null | undefined> {
+    const platform = this.platform as Platform;
+    const collector = PlatformVideoStatsFactory.isSupported(platform)
+      ? PlatformVideoStatsFactory.getHandler(platform)
+      : undefined;
+    
+    if (!collector?.findPublishedVideo || !this.context) {
+      return undefined;
+    }
+    
+    this.updateProgress('verifying', 95, '已提交发布，等待平台确认');
+    
+    const policy = resolveVerificationPolicy();
+    const deadline = Date.now() + policy.waitSeconds * 1000;
+    let found: PublishedVideo | null = null;
+    
+    while (true) {
+      try {
+        // 找到后按视频ID查询，避免之后匹配到同名的其他视频
+        const video: PublishedVideo | null = await collector.findPublishedVideo(this.context, {
+          videoId: found ? found.videoId : undefined,
+          title: task.title,
+          publishedAfter: submittedAt,
+          excludeVideoIds: task.claimedVideoIds,
+        });
+        found = video ?? found;
+        
+        if (found && found.reviewStatus !== 'under_review') {
+          return found;
+        }
+      } catch (error: any) {
+        console.warn('⚠️ 查询作品列表失败:', error.message);
+      }
+      
+      if (Date.now() + policy.pollIntervalSeconds * 1000 > deadline) {
+        return found;
+      }
+      
+      console.log(found ? `⌛ 视频 ${found.videoId} 审核中...` : '⌛ 等待视频出现在作品列表...');
+      await this.sleep(policy.pollIntervalSeconds * 1000);
+    }
+  }
+  
+  /**
+   * 把发布确认结果转换为上传结果
+   * 审核未通过时失败且不重试；审核中或未找到时任务保持确认中，由定时任务继续确认
+   */
+  protected toPublishResult(video: PublishedVideo | null | undefined): UploadResult {
+    if (video === undefined) {
+      return { success: true, message: '视频上传成功' };
+    }
+    
+    if (video === null) {
+      return {
+        success: true,
+        pendingConfirmation: true,
+        message: '已提交发布，暂未在作品列表中找到视频，稍后继续确认',
+      };
+    }
+    
+    const base = { videoId: video.videoId, videoUrl: video.videoUrl, reviewStatus: video.reviewStatus };
+    
+    switch (video.reviewStatus) {
+      case 'published':
+        return { ...base, success: true, message: '平台已确认发布' };
+      case 'rejected':
+        return { ...base, success: false, retryable: false, message: '平台审核未通过' };
+      default:
+        return { ...base, success: true, pendingConfirmation: true, message: '已提交发布，平台审核中' };
+    }
+  }
+  
   /**
    * 更新上传进度
    */
@@ -243,6 +515,14 @@ export abstract class BaseUploader implements IUploader {
     };
     
     console.log(`📊 上传进度: ${percentage}% - ${message}`);
+    
+    if (this.progressListener) {
+      try {
+        this.progressListener(this.getProgress());
+      } catch (error) {
+        console.warn('⚠️ 进度监听器执行失败:', error);
+      }
+    }
   }
   
   /**
@@ -252,6 +532,13 @@ export abstract class BaseUploader implements IUploader {
     return { ...this.progress };
   }
   
+  /**
+   * 设置进度监听器
+   */
+  onProgress(listener: (progress: UploadProgress) => void): void {
+    this.progressListener = listener;
+  }
+  
   /**
    * 取消上传
    */
@@ -261,6 +548,137 @@ export abstract class BaseUploader implements IUploader {
     await this.closeBrowser();
   }
   
+  /**
+   * 检查页面是否出现验证弹窗，出现时暂停上传，等待人工处理完成后继续
+   * 在各步骤之间和长时间等待的循环中调用
+   */
+  protected async checkForIntervention(): Promise<void> {
+    this.checkCancelled();
+    
+    const dialog = await this.detectVerificationDialog();
+    if (dialog) {
+      await this.waitForIntervention(dialog.name);
+    }
+  }
+  
+  /**
+   * 查找当前可见的验证弹窗
+   */
+  private async detectVerificationDialog(): Promise<VerificationDialog | undefined> {
+    if (!this.page || this.page.isClosed()) return undefined;
+    
+    for (const dialog of this.verificationDialogs) {
+      const visible = await this.page.locator(dialog.selector).first().isVisible().catch(() => false);
+      if (visible) {
+        return dialog;
+      }
+    }
+    
+    return undefined;
+  }
+  
+  /**
+   * 等待人工处理验证弹窗
+   * 操作人员通过远程操作接口或有头浏览器完成验证后，弹窗消失或调用 resumeIntervention 时继续上传
+   */
+  private async waitForIntervention(reason: string): Promise<void> {
+    const policy = resolveInterventionPolicy();
+    const deadline = Date.now() + policy.timeoutMinutes * 60 * 1000;
+    const previous = this.getProgress();
+    
+    this.intervention = { reason, since: new Date(), resumeRequested: false };
+    await this.saveInterventionScreenshot();
+    this.updateProgress('needs_attention', previous.percentage, `需要人工处理: ${reason}`);
+    console.warn(`🙋 上传被${reason}打断，等待人工处理...`);
+    
+    try {
+      while (!this.intervention.resumeRequested) {
+        await this.sleep(policy.pollIntervalSeconds * 1000);
+        this.checkCancelled();
+        
+        if (!(await this.detectVerificationDialog())) {
+          break;
+        }
+        if (Date.now() > deadline) {
+          throw new Error(`${policy.timeoutMinutes} 分钟内未完成人工处理: ${reason}`);
+        }
+      }
+    } finally {
+      this.intervention = undefined;
+    }
+    
+    console.log('✅ 人工处理完成，继续上传');
+    this.updateProgress(previous.status, previous.percentage, '人工处理完成，继续上传');
+  }
+  
+  /**
+   * 保存需要人工处理时的页面截图
+   */
+  private async saveInterventionScreenshot(): Promise<void> {
+    if (!this.artifactDir || !this.page) return;
+    
+    try {
+      const fs = await import('fs/promises');
+      await fs.mkdir(this.artifactDir, { recursive: true });
+      await this.page.screenshot({ path: path.join(this.artifactDir, ARTIFACT_FILES.intervention) });
+    } catch (error) {
+      console.warn('⚠️ 保存人工处理截图失败:', error);
+    }
+  }
+  
+  /**
+   * 获取当前打开的上传页面
+   */
+  getPage(): Page | undefined {
+    return this.page && !this.page.isClosed() ? this.page : undefined;
+  }
+  
+  /**
+   * 获取正在等待的人工处理，没有时返回 null
+   */
+  getIntervention(): UploadIntervention | null {
+    if (!this.intervention) return null;
+    
+    return {
+      reason: this.intervention.reason,
+      since: this.intervention.since,
+      viewport: this.page?.viewportSize() ?? null,
+    };
+  }
+  
+  /**
+   * 截取当前页面（可视区域）
+   */
+  async captureScreenshot(): Promise<Buffer> {
+    if (!this.page || this.page.isClosed()) {
+      throw new Error('上传页面未打开');
+    }
+    
+    return await this.page.screenshot({ type: 'jpeg', quality: 70 });
+  }
+  
+  /**
+   * 把远程操作转发到上传页面，只在等待人工处理时可用
+   */
+  async sendInput(input: InterventionInput): Promise<void> {
+    if (!this.intervention || !this.page) {
+      throw new Error('任务当前不需要人工处理');
+    }
+    
+    await applyInterventionInput(this.page, input);
+  }
+  
+  /**
+   * 人工处理完成，继续上传（在有头浏览器中完成验证时使用）
+   */
+  resumeIntervention(): void {
+    if (!this.intervention) {
+      throw new Error('任务当前不需要人工处理');
+    }
+    
+    this.intervention.resumeRequested = true;
+  }
+  
   /**
    * 检查是否已取消
    */
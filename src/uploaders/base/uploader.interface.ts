@@ -1,4 +1,11 @@
-import { UploadTaskData, UploadResult, UploadProgress } from './uploader.types';
+import { Page } from 'playwright';
+import {
+  UploadTaskData,
+  UploadResult,
+  UploadProgress,
+  UploadIntervention,
+  InterventionInput,
+} from './uploader.types';
 
 /**
  * 上传器接口
@@ -25,4 +32,34 @@ export interface IUploader {
    * 获取上传进度
    */
   getProgress(): UploadProgress;
+  
+  /**
+   * 设置进度监听器，每次进度更新时调用
+   */
+  onProgress(listener: (progress: UploadProgress) => void): void;
+  
+  /**
+   * 获取当前打开的上传页面（录屏使用），未打开浏览器时返回 undefined
+   */
+  getPage(): Page | undefined;
+  
+  /**
+   * 获取正在等待的人工处理（验证码、短信验证等），没有时返回 null
+   */
+  getIntervention(): UploadIntervention | null;
+  
+  /**
+   * 截取上传页面当前画面
+   */
+  captureScreenshot(): Promise<Buffer>;
+  
+  /**
+   * 把远程操作（点击、拖动、输入）转发到上传页面
+   */
+  sendInput(input: InterventionInput): Promise<void>;
+  
+  /**
+   * 人工处理完成，继续上传
+   */
+  resumeIntervention(): void;
 }
@@ -1,8 +1,11 @@
+import { VideoReviewStatus } from '../../types';
+
 // 上传任务数据
 export interface UploadTaskData {
   // 任务信息
   taskId: number;
   accountId: number;
+  attemptNumber?: number;  // 第几次执行（用于保存现场文件）
   
   // 资源信息
   libraryId: number;
@@ -12,15 +15,33 @@ export interface UploadTaskData {
   title: string;
   description?: string;
   tags: string[];
-  coverPath?: string;  // 封面路径(可选)
+  cover?: CoverOption; // 封面来源(可选)，由 prepareUpload 解析为 coverPath
+  coverPath?: string;  // 封面图片的本地路径
   
   // 定时发布
   scheduledAt?: Date;
   
-  // 平台特定配置
+  // 同一账号其他任务已确认的视频ID（发布确认时跳过，避免认领其他任务的同名视频）
+  claimedVideoIds?: string[];
+  
+  // 平台发布选项（由各平台上传器解析，如 DouyinPublishOptions）
   config?: Record<string, any>;
 }
 
+// 封面来源
+export type CoverSource =
+  | 'library'  // 资源库中的图片
+  | 'frame'    // 视频指定时间的画面
+  | 'auto';    // 自动选择画面最丰富的一帧
+
+// 封面设置
+export interface CoverOption {
+  source: CoverSource;
+  libraryId?: number;  // library: 图片所在资源库（默认与视频相同）
+  path?: string;       // library: 图片路径
+  time?: number;       // frame: 截取时间（秒）
+}
+
 // 上传结果
 export interface UploadResult {
   success: boolean;
@@ -28,15 +49,66 @@ export interface UploadResult {
   videoUrl?: string;     // 视频链接
   message?: string;
   error?: Error;
+  deferred?: boolean;    // 是否因发布限制被推迟
+  deferredUntil?: Date;  // 推迟到的时间
+  reviewStatus?: VideoReviewStatus;  // 平台审核状态（发布后在作品列表中确认）
+  pendingConfirmation?: boolean;     // 已提交发布，但平台尚未确认（审核中或还未出现在作品列表），由定时任务继续确认
+  retryable?: boolean;               // 失败后是否允许自动重试（已点击发布后失败时为 false，避免重复发布）
 }
 
+
 // 上传进度
 export interface UploadProgress {
-  status: 'pending' | 'uploading' | 'processing' | 'success' | 'failed';
+  status: 'pending' | 'transcoding' | 'uploading' | 'processing' | 'needs_attention' | 'verifying' | 'success' | 'failed';
   percentage: number;    // 0-100
   message: string;
   uploadedAt?: Date;     // 完成时间
 }
 
+// 上传器能力描述（前端据此调整发布表单）
+export interface UploaderCapabilities {
+  resourceTypes: Array<'video' | 'image' | 'audio'>;  // 支持的资源类型
+  supportsScheduling: boolean;   // 是否支持平台定时发布
+  maxTitleLength?: number;       // 标题最大长度
+  maxTags?: number;              // 最多标签数
+  supportsCover: boolean;        // 是否支持自定义封面
+  media?: MediaPublishRules;     // 视频发布规则（创建任务前校验）
+  publishOptions?: string[];     // 支持的平台发布选项（UploadTaskData.config 的字段）
+}
+
+// 视频发布规则（未设置的项不检查）
+export interface MediaPublishRules {
+  minDurationSeconds?: number;    // 最短时长（秒）
+  maxDurationSeconds?: number;    // 最长时长（秒）
+  maxFileSizeMB?: number;         // 最大文件大小（MB）
+  maxLongSide?: number;           // 长边最大像素
+  minShortSide?: number;          // 短边建议最小像素（低于时提示画质偏低）
+  orientation?: 'portrait' | 'landscape';  // 建议的画面方向
+  minBitrateKbps?: number;        // 建议最低码率（kbps）
+  allowedCodecs?: string[];       // 支持的视频编码（ffprobe codec_name）
+}
+
 // 上传状态
-export type UploadStatus = 'pending' | 'uploading' | 'processing' | 'success' | 'failed';
+export type UploadStatus = 'pending' | 'transcoding' | 'uploading' | 'processing' | 'needs_attention' | 'verifying' | 'success' | 'failed';
+
+// 会打断上传、需要人工处理的验证弹窗（滑块验证码、短信验证等）
+export interface VerificationDialog {
+  name: string;      // 弹窗名称，用于提示操作人员
+  selector: string;  // 弹窗可见时即认为需要人工处理
+}
+
+// 正在等待的人工处理
+export interface UploadIntervention {
+  reason: string;    // 触发的验证弹窗名称
+  since: Date;       // 开始等待的时间
+  viewport: { width: number; height: number } | null;  // 页面可视区域，远程操作的坐标基于截图
+}
+
+// 远程操作，坐标为页面可视区域内的像素（与截图一致）
+export type InterventionInput =
+  | { type: 'click'; x: number; y: number; button?: 'left' | 'right' | 'middle' }
+  | { type: 'drag'; from: { x: number; y: number }; to: { x: number; y: number }; steps?: number }
+  | { type: 'move'; x: number; y: number }
+  | { type: 'scroll'; deltaX?: number; deltaY: number }
+  | { type: 'type'; text: string }
+  | { type: 'press'; key: string };
@@ -0,0 +1,82 @@
+import { Platform } from '../types';
+import { IUploader } from './base/uploader.interface';
+import { UploaderCapabilities } from './base/uploader.types';
+import { DouyinUploader } from './platforms/douyin/douyin.uploader';
+import { DouyinCapabilities } from './platforms/douyin/douyin.config';
+import { parseDouyinPublishOptions } from './platforms/douyin/douyin.options';
+import { MockUploader } from './platforms/mock/mock.uploader';
+import { MockCapabilities } from './platforms/mock/mock.config';
+
+// 上传器构造函数（每个任务使用独立的上传器实例）
+export type UploaderCreator = (accountFile: string) => IUploader;
+
+// 平台发布选项解析函数，不合法时抛出异常
+export type PublishConfigParser = (input: any) => Record<string, any> | undefined;
+
+interface UploaderRegistration {
+  create: UploaderCreator;
+  capabilities: UploaderCapabilities;
+  parseConfig?: PublishConfigParser;
+}
+
+// 上传器工厂
+export class UploaderFactory {
+  private static uploaders: Map<Platform, UploaderRegistration> = new Map();
+
+  // 注册上传器
+  static register(
+    platform: Platform,
+    create: UploaderCreator,
+    capabilities: UploaderCapabilities,
+    parseConfig?: PublishConfigParser
+  ): void {
+    this.uploaders.set(platform, { create, capabilities, parseConfig });
+  }
+
+  // 创建上传器实例
+  static create(platform: Platform, accountFile: string): IUploader {
+    const registration = this.uploaders.get(platform);
+
+    if (!registration) {
+      throw new Error(`不支持的平台: ${platform}`);
+    }
+
+    return registration.create(accountFile);
+  }
+
+  // 获取上传能力
+  static getCapabilities(platform: Platform): UploaderCapabilities | undefined {
+    return this.uploaders.get(platform)?.capabilities;
+  }
+
+  // 解析平台发布选项（平台没有发布选项时忽略）
+  static parseConfig(platform: Platform, input: any): Record<string, any> | undefined {
+    if (input === undefined || input === null) {
+      return undefined;
+    }
+
+    const parseConfig = this.uploaders.get(platform)?.parseConfig;
+    return parseConfig ? parseConfig(input) : undefined;
+  }
+
+  // 检查是否支持该平台
+  static isSupported(platform: Platform): boolean {
+    return this.uploaders.has(platform);
+  }
+
+  // 获取所有支持的平台
+  static getSupportedPlatforms(): Platform[] {
+    return Array.from(this.uploaders.keys());
+  }
+}
+
+// 注册抖音上传器
+UploaderFactory.register(
+  'douyin',
+  (accountFile) => new DouyinUploader(accountFile),
+  DouyinCapabilities,
+  parseDouyinPublishOptions
+);
+
+// 注册模拟平台上传器（本地测试/演示）
+UploaderFactory.register('mock', (accountFile) => new MockUploader(accountFile), MockCapabilities);
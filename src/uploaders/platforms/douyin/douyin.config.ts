@@ -1,3 +1,6 @@
+import { UploaderCapabilities, MediaPublishRules, VerificationDialog } from '../../base/uploader.types';
+import { DOUYIN_PUBLISH_OPTIONS } from './douyin.options';
+
 /**
  * 抖音页面选择器配置
  * 统一管理所有的 CSS 选择器,方便维护和更新
@@ -47,10 +50,31 @@ export const DouyinSelectors = {
     // 第三方平台同步
     thirdPartSwitch: '[class^="info"] > [class^="first-part"] div div.semi-switch',
     
+    // 合集
+    mixSelect: 'div.semi-select:has-text("请选择合集")',
+    mixOptions: 'div[role="listbox"] [role="option"]',
+    
+    // 自主声明
+    declarationButton: 'text="添加声明"',
+    declarationModal: 'div.semi-modal',
+    declarationConfirmButton: 'div.semi-modal button:has-text("确定")',
+    
+    // 单选项（谁可以看、保存权限，按选项文字定位）
+    radioOption: "[class^='radio']",
+    
     // 发布按钮
     publishButton: 'button:has-text("发布")',
   },
   
+  // 验证弹窗
+  verification: {
+    // 滑块/点选验证码
+    captcha: '#captcha_container, .captcha_verify_container, iframe[src*="verifycenter"]',
+    
+    // 身份验证（短信验证码）
+    sms: 'div.semi-modal:has-text("身份验证"), div.semi-modal:has-text("短信验证码")',
+  },
+  
   // URL
   urls: {
     home: 'https://creator.douyin.com/',
@@ -68,6 +92,9 @@ export const DouyinConfig = {
   // 标题最大长度
   maxTitleLength: 30,
   
+  // 最多添加的话题数
+  maxTags: 5,
+  
   // 上传超时时间(毫秒)
   uploadTimeout: 300000, // 5分钟
   
@@ -77,3 +104,39 @@ export const DouyinConfig = {
   // 等待上传完成的轮询间隔
   uploadCheckInterval: 2000,
 };
+
+/**
+ * 会打断上传、需要人工处理的验证弹窗
+ */
+export const DouyinVerificationDialogs: VerificationDialog[] = [
+  { name: '滑块验证码', selector: DouyinSelectors.verification.captcha },
+  { name: '短信验证', selector: DouyinSelectors.verification.sms },
+];
+
+/**
+ * 抖音视频发布规则
+ * 参考创作者中心上传说明：时长 60 分钟以内、文件不超过 16G、推荐 720p 以上竖屏
+ */
+export const DouyinMediaRules: MediaPublishRules = {
+  minDurationSeconds: 1,
+  maxDurationSeconds: 3600,
+  maxFileSizeMB: 16 * 1024,
+  maxLongSide: 4096,
+  minShortSide: 720,
+  orientation: 'portrait',
+  minBitrateKbps: 1000,
+  allowedCodecs: ['h264', 'hevc', 'vp8', 'vp9'],
+};
+
+/**
+ * 抖音上传能力
+ */
+export const DouyinCapabilities: UploaderCapabilities = {
+  resourceTypes: ['video'],
+  supportsScheduling: true,
+  maxTitleLength: DouyinConfig.maxTitleLength,
+  maxTags: DouyinConfig.maxTags,
+  supportsCover: true,
+  media: DouyinMediaRules,
+  publishOptions: DOUYIN_PUBLISH_OPTIONS,
+};
@@ -0,0 +1,111 @@
+/**
+ * 抖音发布选项（UploadTaskData.config）
+ */
+
+// 谁可以看
+export type DouyinVisibility = 'public' | 'friends' | 'private';
+
+// 自主声明
+export type DouyinDeclaration =
+  | 'ai_generated'      // 内容由AI生成
+  | 'fictional'         // 虚构演绎，仅供娱乐
+  | 'dangerous'         // 危险行为，请勿模仿
+  | 'self_shot'         // 内容自行拍摄
+  | 'from_internet'     // 内容取材网络
+  | 'personal_opinion'  // 个人观点，仅供参考
+  | 'uncomfortable';    // 可能引人不适
+
+// 发布页面上的选项文字
+export const DouyinVisibilityLabels: Record<DouyinVisibility, string> = {
+  public: '公开',
+  friends: '好友可见',
+  private: '仅自己可见',
+};
+
+export const DouyinDeclarationLabels: Record<DouyinDeclaration, string> = {
+  ai_generated: '内容由AI生成',
+  fictional: '虚构演绎，仅供娱乐',
+  dangerous: '危险行为，请勿模仿',
+  self_shot: '内容自行拍摄',
+  from_internet: '内容取材网络',
+  personal_opinion: '个人观点，仅供参考',
+  uncomfortable: '可能引人不适',
+};
+
+export interface DouyinPublishOptions {
+  visibility?: DouyinVisibility;    // 谁可以看（默认公开）
+  location?: string;                // 地理位置关键词，选择第一个搜索结果
+  syncToThirdParty?: boolean;       // 同步到今日头条/西瓜视频（默认同步）
+  allowDownload?: boolean;          // 是否允许他人保存视频（不设置时保持平台默认）
+  mix?: string;                     // 添加到的合集名称（需已在创作者中心创建）
+  declaration?: DouyinDeclaration;  // 自主声明
+}
+
+// 抖音支持的发布选项（写入上传能力，供前端生成表单）
+export const DOUYIN_PUBLISH_OPTIONS: Array<keyof DouyinPublishOptions> = [
+  'visibility',
+  'location',
+  'syncToThirdParty',
+  'allowDownload',
+  'mix',
+  'declaration',
+];
+
+// 地理位置、合集名称的最大长度
+const MAX_TEXT_LENGTH = 50;
+
+// 只接受选项表自身的键（in 会匹配 toString 等继承的属性）
+function isOption<T extends string>(labels: Record<T, string>, value: unknown): value is T {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(labels, value);
+}
+
+/**
+ * 解析接口传入的抖音发布选项，只保留已知字段；不合法时抛出异常
+ * @returns 没有任何选项时返回 undefined
+ */
+export function parseDouyinPublishOptions(input: any): DouyinPublishOptions | undefined {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('发布选项必须是对象');
+  }
+
+  const options: DouyinPublishOptions = {};
+
+  if (input.visibility !== undefined && input.visibility !== null) {
+    if (!isOption(DouyinVisibilityLabels, input.visibility)) {
+      throw new Error(`visibility 必须是 ${Object.keys(DouyinVisibilityLabels).join(' / ')} 之一`);
+    }
+    options.visibility = input.visibility;
+  }
+
+  for (const field of ['location', 'mix'] as const) {
+    if (input[field] === undefined || input[field] === null || input[field] === '') continue;
+
+    if (typeof input[field] !== 'string' || input[field].trim().length > MAX_TEXT_LENGTH) {
+      throw new Error(`${field} 必须为不超过 ${MAX_TEXT_LENGTH} 字的文本`);
+    }
+    if (input[field].trim()) {
+      options[field] = input[field].trim();
+    }
+  }
+
+  for (const field of ['syncToThirdParty', 'allowDownload'] as const) {
+    if (input[field] === undefined) continue;
+
+    if (typeof input[field] !== 'boolean') {
+      throw new Error(`${field} 必须为布尔值`);
+    }
+    options[field] = input[field];
+  }
+
+  if (input.declaration !== undefined && input.declaration !== null) {
+    if (!isOption(DouyinDeclarationLabels, input.declaration)) {
+      throw new Error(`declaration 必须是 ${Object.keys(DouyinDeclarationLabels).join(' / ')} 之一`);
+    }
+    options.declaration = input.declaration;
+  }
+
+  return Object.keys(options).length > 0 ? options : undefined;
+}
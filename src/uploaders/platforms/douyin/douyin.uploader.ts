@@ -1,7 +1,8 @@
 
 import { BaseUploader } from '../../base/base.uploader';
 import { UploadTaskData, UploadResult } from '../../base/uploader.types';
-import { DouyinSelectors, DouyinConfig } from './douyin.config';
+import { DouyinSelectors, DouyinConfig, DouyinVerificationDialogs } from './douyin.config';
+import { DouyinPublishOptions, DouyinVisibilityLabels, DouyinDeclarationLabels } from './douyin.options';
 
 /**
  * 抖音视频上传器
@@ -12,6 +13,7 @@ export class DouyinUploader extends BaseUploader {
   
   constructor(accountFile: string) {
     super('douyin', accountFile);
+    this.verificationDialogs = DouyinVerificationDialogs;
   }
   
   /**
@@ -19,8 +21,8 @@ export class DouyinUploader extends BaseUploader {
    */
   async validateCookie(): Promise<boolean> {
     try {
-      // 初始化浏览器(无头模式)
-      await this.initBrowser(true);
+      // 初始化浏览器
+      await this.initBrowser();
       
       if (!this.page) {
         throw new Error('Page not initialized');
@@ -64,74 +66,87 @@ export class DouyinUploader extends BaseUploader {
    */
   async upload(task: UploadTaskData): Promise<UploadResult> {
     let videoPath: string | null = null;
+    // 点击发布后视频可能已经发出，失败时不能重试，避免重复发布
+    let submitted = false;
     
     try {
       this.updateProgress('uploading', 0, '开始上传');
+      this.setupArtifacts(task);
       
       // 1. 初始化浏览器
-      await this.initBrowser(false);
-      this.checkCancelled();
+      await this.initBrowser();
+      await this.checkForIntervention();
       
       // 2. 准备上传（获取视频路径 + 填充元数据）
       const prepared = await this.prepareUpload(task);
       task = prepared.task;
       videoPath = prepared.videoPath;
       this.updateProgress('uploading', 10, '准备上传文件');
-      this.checkCancelled();
+      await this.checkForIntervention();
       
       // 3. 打开上传页面
       await this.openUploadPage();
       this.updateProgress('uploading', 20, '打开上传页面');
-      this.checkCancelled();
+      await this.checkForIntervention();
       
       // 4. 上传视频文件
       await this.uploadVideoFile(videoPath);
       this.updateProgress('uploading', 40, '上传视频文件');
-      this.checkCancelled();
+      await this.checkForIntervention();
       
       // 5. 等待跳转到发布页面
       await this.waitForPublishPage();
       this.updateProgress('processing', 50, '等待发布页面');
-      this.checkCancelled();
+      await this.checkForIntervention();
       
       // 6. 填写标题和标签
       await this.fillTitleAndTags(task);
       this.updateProgress('processing', 60, '填写标题和标签');
-      this.checkCancelled();
+      await this.checkForIntervention();
       
       // 7. 等待视频上传完成
       await this.waitForVideoUploadComplete();
       this.updateProgress('processing', 70, '等待视频处理完成');
-      this.checkCancelled();
+      await this.checkForIntervention();
       
       // 8. 设置封面(如果有)
       if (task.coverPath) {
         await this.setCover(task.coverPath);
         this.updateProgress('processing', 80, '设置视频封面');
-        this.checkCancelled();
+        await this.checkForIntervention();
       }
       
       // 9. 设置定时发布(如果需要)
       if (task.scheduledAt) {
         await this.setScheduleTime(task.scheduledAt);
         this.updateProgress('processing', 85, '设置定时发布');
-        this.checkCancelled();
+        await this.checkForIntervention();
       }
       
-      // 10. 点击发布
-      await this.clickPublish();
+      // 10. 设置发布选项（可见范围、位置、合集、声明等）
+      const options = task.config as DouyinPublishOptions | undefined;
+      if (options) {
+        await this.applyPublishOptions(options);
+        this.updateProgress('processing', 87, '设置发布选项');
+        await this.checkForIntervention();
+      }
+      
+      // 11. 点击发布
+      const submittedAt = new Date();
+      await this.clickPublish(options?.syncToThirdParty ?? true);
+      submitted = true;
       this.updateProgress('processing', 90, '发布中');
-      this.checkCancelled();
       
-      // 11. 等待发布完成
+      // 12. 等待发布完成
       await this.waitForPublishComplete();
-      this.updateProgress('success', 100, '发布成功');
       
-      // 保存结果
-      const result: UploadResult = {
-        success: true,
-        message: '视频上传成功'
-      };
+      // 13. 在作品列表中确认发布结果
+      const result = this.toPublishResult(await this.confirmPublished(task, submittedAt));
+      if (result.success && !result.pendingConfirmation) {
+        this.updateProgress('success', 100, result.message || '发布成功');
+      } else if (!result.success) {
+        this.updateProgress('failed', this.progress.percentage, result.message || '发布失败');
+      }
       
       return result;
       
@@ -141,10 +156,14 @@ export class DouyinUploader extends BaseUploader {
       const errorMessage = error instanceof Error ? error.message : '未知错误';
       this.updateProgress('failed', this.progress.percentage, `上传失败: ${errorMessage}`);
       
+      // 保存失败现场，便于定位失效的页面选择器
+      await this.captureFailureArtifacts(error);
+      
       return {
         success: false,
         error: error as Error,
-        message: errorMessage
+        message: errorMessage,
+        retryable: !submitted
       };
       
     } finally {
@@ -154,6 +173,9 @@ export class DouyinUploader extends BaseUploader {
       if (videoPath) {
         await this.cleanupTempFile(videoPath);
       }
+      if (task.coverPath) {
+        await this.cleanupTempFile(task.coverPath);
+      }
     }
   }
   
@@ -210,6 +232,7 @@ export class DouyinUploader extends BaseUploader {
           break;
         } catch {
           console.log('⏳ 继续等待...');
+          await this.checkForIntervention();
           await this.sleep(500);
         }
       }
@@ -258,12 +281,14 @@ export class DouyinUploader extends BaseUploader {
     if (task.tags && task.tags.length > 0) {
       const tagsContainer = this.selectors.publish.tagsContainer;
       
-      for (const tag of task.tags) {
+      const tags = task.tags.slice(0, this.config.maxTags);
+      
+      for (const tag of tags) {
         await this.page.type(tagsContainer, '#' + tag);
         await this.page.press(tagsContainer, 'Space');
       }
       
-      console.log(`✅ 已添加 ${task.tags.length} 个话题`);
+      console.log(`✅ 已添加 ${tags.length} 个话题`);
     }
   }
   
@@ -278,7 +303,7 @@ export class DouyinUploader extends BaseUploader {
     console.log('⌛ 等待视频上传完成...');
     
     while (true) {
-      this.checkCancelled();
+      await this.checkForIntervention();
       
       try {
         // 检查是否有“重新上传”按钮，有则说明上传完成
@@ -334,9 +359,7 @@ export class DouyinUploader extends BaseUploader {
     console.log('🖼️ 正在设置视频封面...');
     
     try {
-      // 获取封面文件的完整路径
-      // 这里假设 coverPath 是资源库中的路径，需要转换
-      // 为了简化，直接使用
+      // coverPath 是 prepareUpload 准备好的本地图片
       
       // 点击选择封面
       await this.page.click(this.selectors.publish.coverButton);
@@ -404,17 +427,134 @@ export class DouyinUploader extends BaseUploader {
     }
   }
   
+  /**
+   * 设置发布选项
+   * 可见范围和自主声明设置失败时中止发布（避免以错误的可见范围发布），其余选项设置失败时跳过
+   */
+  private async applyPublishOptions(options: DouyinPublishOptions): Promise<void> {
+    console.log('⚙️ 正在设置发布选项...');
+    
+    if (options.location) {
+      await this.trySetOption('地理位置', () => this.setLocation(options.location!));
+    }
+    
+    if (options.mix) {
+      await this.trySetOption('合集', () => this.setMix(options.mix!));
+    }
+    
+    if (options.allowDownload !== undefined) {
+      await this.trySetOption('保存权限', () => this.selectRadio(options.allowDownload ? '允许' : '不允许'));
+    }
+    
+    if (options.declaration) {
+      await this.setDeclaration(DouyinDeclarationLabels[options.declaration]);
+    }
+    
+    if (options.visibility) {
+      await this.selectRadio(DouyinVisibilityLabels[options.visibility]);
+      console.log(`✅ 可见范围: ${DouyinVisibilityLabels[options.visibility]}`);
+    }
+  }
+  
+  /**
+   * 设置可选的发布选项，失败时只记录警告
+   */
+  private async trySetOption(name: string, action: () => Promise<void>): Promise<void> {
+    try {
+      await action();
+      console.log(`✅ ${name}已设置`);
+    } catch (error) {
+      console.warn(`⚠️ 设置${name}失败，已跳过:`, error);
+    }
+  }
+  
+  /**
+   * 设置地理位置（选择第一个搜索结果）
+   */
+  private async setLocation(keyword: string): Promise<void> {
+    if (!this.page) {
+      throw new Error('Page not initialized');
+    }
+    
+    await this.page.locator(this.selectors.publish.locationSelect).click();
+    await this.page.keyboard.type(keyword);
+    
+    const option = this.page.locator(this.selectors.publish.locationOptions).first();
+    await option.waitFor({ state: 'visible', timeout: 10000 });
+    await option.click();
+  }
+  
+  /**
+   * 添加到合集
+   */
+  private async setMix(name: string): Promise<void> {
+    if (!this.page) {
+      throw new Error('Page not initialized');
+    }
+    
+    await this.page.locator(this.selectors.publish.mixSelect).click();
+    
+    const option = this.page
+      .locator(this.selectors.publish.mixOptions)
+      .filter({ hasText: name })
+      .first();
+    await option.waitFor({ state: 'visible', timeout: 5000 });
+    await option.click();
+  }
+  
+  /**
+   * 添加自主声明
+   */
+  private async setDeclaration(label: string): Promise<void> {
+    if (!this.page) {
+      throw new Error('Page not initialized');
+    }
+    
+    await this.page.locator(this.selectors.publish.declarationButton).click();
+    
+    const modal = this.page.locator(this.selectors.publish.declarationModal);
+    await modal.waitFor({ state: 'visible', timeout: 5000 });
+    await modal.getByText(label, { exact: true }).click();
+    
+    await this.page.locator(this.selectors.publish.declarationConfirmButton).click();
+    await modal.waitFor({ state: 'detached', timeout: 5000 });
+    
+    console.log(`✅ 自主声明: ${label}`);
+  }
+  
+  /**
+   * 按文字选择单选项（谁可以看、保存权限）
+   */
+  private async selectRadio(label: string): Promise<void> {
+    if (!this.page) {
+      throw new Error('Page not initialized');
+    }
+    
+    // 精确匹配，避免「允许」匹配到「不允许」
+    const radio = this.page
+      .locator(this.selectors.publish.radioOption)
+      .filter({ hasText: new RegExp(`^${label}$`) })
+      .first();
+    
+    if (await radio.count() === 0) {
+      throw new Error(`发布页面找不到选项: ${label}`);
+    }
+    
+    await radio.click();
+  }
+  
   /**
    * 点击发布按钮
+   * @param syncToThirdParty 是否同步到第三方平台（头条/西瓜）
    */
-  private async clickPublish(): Promise<void> {
+  private async clickPublish(syncToThirdParty: boolean): Promise<void> {
     if (!this.page) {
       throw new Error('Page not initialized');
     }
     
     console.log('🚀 正在发布视频...');
     
-    // 检查是否需要同步到第三方平台（头条/西瓜）
+    // 按发布选项切换第三方平台同步（头条/西瓜）
     const thirdPartElement = this.selectors.publish.thirdPartSwitch;
     const thirdPartCount = await this.page.locator(thirdPartElement).count();
     
@@ -425,11 +565,11 @@ export class DouyinUploader extends BaseUploader {
         thirdPartElement
       );
       
-      // 如果未选中，则点击选中
-      if (!className.includes('semi-switch-checked')) {
+      // 开关状态与选项不一致时点击切换
+      if (className.includes('semi-switch-checked') !== syncToThirdParty) {
         const switchInput = this.page.locator(thirdPartElement + ' input.semi-switch-native-control');
         await switchInput.click();
-        console.log('✅ 已启用第三方平台同步');
+        console.log(`✅ 已${syncToThirdParty ? '启用' : '关闭'}第三方平台同步`);
       }
     }
     
@@ -451,7 +591,7 @@ export class DouyinUploader extends BaseUploader {
     console.log('⌛ 等待视频发布完成...');
     
     while (true) {
-      this.checkCancelled();
+      await this.checkForIntervention();
       
       try {
         // 如果自动跳转到作品管理页面，则代表发布成功
@@ -0,0 +1,66 @@
+import { UploaderCapabilities, MediaPublishRules } from '../../base/uploader.types';
+import { appConfig, MockUploadRules } from '../../../config/loader';
+
+/**
+ * 模拟平台页面和 Cookie 配置
+ * 模拟平台不访问网络，登录页使用 data URL，登录状态保存在固定域名的 Cookie 中
+ */
+export const MockPlatformConfig = {
+  // 模拟登录/上传页面
+  pageUrl: 'data:text/html;charset=utf-8,<title>模拟平台</title><h1>模拟平台（dry-run）</h1>'
+    + '<div id="mock-qrcode" style="width:160px;height:160px;background:%23000"></div>',
+  
+  // 模拟二维码（无头扫码登录）
+  qrCodeSelector: '#mock-qrcode',
+  
+  // 登录 Cookie
+  cookieDomain: 'mock.spo.local',
+  userIdCookie: 'mock_uid',
+  
+  // 标题最大长度
+  maxTitleLength: 55,
+  
+  // 最多标签数
+  maxTags: 10,
+};
+
+// 未配置时使用的默认上传规则
+export const DEFAULT_MOCK_UPLOAD_RULES: MockUploadRules = {
+  stepDelayMs: 500,
+  failureRate: 0,
+  failFirstAttempts: 0,
+};
+
+/**
+ * 获取模拟上传规则
+ * 优先级: 配置文件 > 内置默认值
+ */
+export function resolveMockUploadRules(
+  rules = appConfig.mockPlatform?.upload
+): MockUploadRules {
+  return {
+    ...DEFAULT_MOCK_UPLOAD_RULES,
+    ...rules,
+  };
+}
+
+/**
+ * 模拟平台视频发布规则（比真实平台宽松，便于本地测试各种素材）
+ */
+export const MockMediaRules: MediaPublishRules = {
+  maxDurationSeconds: 600,
+  maxFileSizeMB: 1024,
+  allowedCodecs: ['h264', 'hevc'],
+};
+
+/**
+ * 模拟平台上传能力
+ */
+export const MockCapabilities: UploaderCapabilities = {
+  resourceTypes: ['video'],
+  supportsScheduling: true,
+  maxTitleLength: MockPlatformConfig.maxTitleLength,
+  maxTags: MockPlatformConfig.maxTags,
+  supportsCover: true,
+  media: MockMediaRules,
+};
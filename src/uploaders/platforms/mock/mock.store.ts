@@ -0,0 +1,75 @@
+import { PlatformVideoData } from '../../../types';
+
+// 模拟平台上已发布的作品
+interface MockVideo {
+  videoId: string;
+  title: string;
+  description?: string;
+  tags: string[];
+  publishTime: Date;
+}
+
+/**
+ * 模拟平台作品存储
+ * 模拟上传器发布的作品保存在内存中，供模拟统计采集器读取，服务重启后清空
+ */
+export class MockVideoStore {
+  private static videos: Map<string, MockVideo[]> = new Map();
+
+  /**
+   * 发布作品
+   * @param userId 模拟账号ID
+   */
+  static publish(userId: string, data: { title: string; description?: string; tags: string[] }): MockVideo {
+    const video: MockVideo = {
+      videoId: `mock_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      title: data.title,
+      description: data.description,
+      tags: data.tags,
+      publishTime: new Date(),
+    };
+
+    const list = this.videos.get(userId) ?? [];
+    list.push(video);
+    this.videos.set(userId, list);
+
+    return video;
+  }
+
+  /**
+   * 获取账号的作品统计数据
+   * 播放量等指标按发布后经过的时间增长，便于观察统计同步和快照
+   */
+  static getVideoStats(userId: string, now: Date = new Date()): PlatformVideoData[] {
+    const list = this.videos.get(userId) ?? [];
+
+    return list.map((video) => {
+      const minutes = Math.max(0, Math.floor((now.getTime() - video.publishTime.getTime()) / 60000));
+
+      return {
+        videoId: video.videoId,
+        title: video.title,
+        publishTime: video.publishTime,
+        status: 'published',
+        metrics: {
+          playCount: minutes * 10,
+          diggCount: minutes,
+          commentCount: Math.floor(minutes / 5),
+          shareCount: Math.floor(minutes / 10),
+          collectCount: Math.floor(minutes / 10),
+        },
+        extra: {
+          description: video.description,
+          tags: video.tags,
+        },
+      };
+    });
+  }
+
+  /**
+   * 清空作品（测试用）
+   */
+  static clear(): void {
+    this.videos.clear();
+  }
+}
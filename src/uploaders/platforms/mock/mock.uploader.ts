@@ -0,0 +1,152 @@
+import { BaseUploader } from '../../base/base.uploader';
+import { UploadTaskData, UploadResult, UploadProgress } from '../../base/uploader.types';
+import { CookieStorageService } from '../../../services/cookie.storage';
+import { MockPlatformConfig, resolveMockUploadRules } from './mock.config';
+import { MockVideoStore } from './mock.store';
+import { MockUploadRules } from '../../../config/loader';
+
+// 模拟上传的进度阶段
+const MOCK_UPLOAD_STEPS: Array<[UploadProgress['status'], number, string]> = [
+  ['uploading', 20, '上传视频文件'],
+  ['uploading', 40, '等待发布页面'],
+  ['processing', 60, '填写标题和标签'],
+  ['processing', 70, '等待视频处理完成'],
+  ['processing', 90, '发布中'],
+];
+
+/**
+ * 模拟平台上传器 (dry-run)
+ * 走真实的资源准备流程（下载远程资源、读取元数据），之后按配置的规则模拟进度、失败和发布结果，
+ * 不启动浏览器，也不访问任何平台
+ */
+export class MockUploader extends BaseUploader {
+  private config = MockPlatformConfig;
+
+  // 每个任务已执行的次数（用于模拟前 N 次失败）
+  private static attemptCounts: Map<number, number> = new Map();
+
+  constructor(accountFile: string) {
+    super('mock', accountFile);
+  }
+
+  /**
+   * 验证 Cookie 是否有效
+   */
+  async validateCookie(): Promise<boolean> {
+    return this.getMockUserId() !== null;
+  }
+
+  /**
+   * 上传视频
+   */
+  async upload(task: UploadTaskData): Promise<UploadResult> {
+    let videoPath: string | null = null;
+    const rules = resolveMockUploadRules();
+
+    try {
+      this.updateProgress('uploading', 0, '开始上传（模拟）');
+      this.setupArtifacts(task);
+
+      const userId = this.getMockUserId();
+      if (!userId) {
+        throw new Error('模拟账号 Cookie 无效，请重新登录');
+      }
+
+      // 1. 准备上传（获取视频路径 + 填充元数据）
+      const prepared = await this.prepareUpload(task);
+      task = prepared.task;
+      videoPath = prepared.videoPath;
+      this.updateProgress('uploading', 10, '准备上传文件');
+      this.checkCancelled();
+
+      // 2. 模拟上传过程
+      for (const [status, percentage, message] of MOCK_UPLOAD_STEPS) {
+        await this.sleep(rules.stepDelayMs);
+        this.checkCancelled();
+        this.updateProgress(status, percentage, message);
+      }
+
+      if (task.coverPath) {
+        console.log(`🖼️ [模拟] 设置视频封面: ${task.coverPath}`);
+      }
+      
+      // 3. 按规则模拟失败
+      const failure = this.pickFailure(task, rules);
+      if (failure) {
+        throw new Error(failure);
+      }
+
+      // 4. 发布作品
+      const video = MockVideoStore.publish(userId, {
+        title: task.title.slice(0, this.config.maxTitleLength),
+        description: task.description,
+        tags: task.tags.slice(0, this.config.maxTags),
+      });
+
+      this.updateProgress('success', 100, '发布成功（模拟）');
+      console.log(`✅ [模拟] 作品已发布: ${video.videoId} - ${video.title}`);
+
+      return {
+        success: true,
+        videoId: video.videoId,
+        videoUrl: `https://${this.config.cookieDomain}/video/${video.videoId}`,
+        message: '视频上传成功（模拟）',
+      };
+
+    } catch (error) {
+      console.error('❌ [模拟] 上传失败:', error);
+
+      const errorMessage = error instanceof Error ? error.message : '未知错误';
+      this.updateProgress('failed', this.progress.percentage, `上传失败: ${errorMessage}`);
+
+      // 模拟平台没有页面，只保存失败信息
+      await this.captureFailureArtifacts(error);
+
+      return {
+        success: false,
+        error: error as Error,
+        message: errorMessage
+      };
+
+    } finally {
+      // 清理临时文件
+      if (videoPath) {
+        await this.cleanupTempFile(videoPath);
+      }
+      if (task.coverPath) {
+        await this.cleanupTempFile(task.coverPath);
+      }
+    }
+  }
+
+  /**
+   * 根据规则判断本次上传是否失败，返回失败原因
+   */
+  private pickFailure(task: UploadTaskData, rules: MockUploadRules): string | null {
+    const attempt = (MockUploader.attemptCounts.get(task.taskId) ?? 0) + 1;
+    MockUploader.attemptCounts.set(task.taskId, attempt);
+
+    if (attempt <= rules.failFirstAttempts) {
+      return `模拟失败: 第 ${attempt}/${rules.failFirstAttempts} 次执行按规则失败`;
+    }
+
+    if (rules.failTitleKeyword && task.title.includes(rules.failTitleKeyword)) {
+      return `模拟失败: 标题包含关键词 ${rules.failTitleKeyword}`;
+    }
+
+    if (rules.failureRate > 0 && Math.random() < rules.failureRate) {
+      return '模拟失败: 随机失败';
+    }
+
+    return null;
+  }
+
+  /**
+   * 从 Cookie 文件读取模拟账号ID
+   */
+  private getMockUserId(): string | null {
+    const cookies = CookieStorageService.getCookiesArray(this.accountFile);
+    const cookie = cookies?.find(c => c.name === this.config.userIdCookie);
+    return cookie?.value || null;
+  }
+}
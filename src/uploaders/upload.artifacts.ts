@@ -0,0 +1,88 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { config } from '../config';
+
+// 上传现场文件
+export const ARTIFACT_FILES = {
+  trace: 'trace.zip',       // Playwright trace（每次执行都记录）
+  screenshot: 'failure.png', // 失败时的整页截图
+  dom: 'failure.html',      // 失败时的页面 DOM
+  meta: 'failure.json',     // 失败信息（错误、页面地址、进度）
+  intervention: 'intervention.png', // 需要人工处理时的页面截图
+};
+
+// 允许下载的现场文件名
+const ARTIFACT_FILE_NAMES: string[] = Object.values(ARTIFACT_FILES);
+
+export interface ArtifactFile {
+  name: string;
+  size: number;
+  createdAt: Date;
+}
+
+export interface AttemptArtifacts {
+  attemptNumber: number;
+  files: ArtifactFile[];
+}
+
+/**
+ * 上传现场文件根目录
+ */
+export function getArtifactsRoot(): string {
+  return path.join(config.outputsDir, 'artifacts');
+}
+
+/**
+ * 某次执行的现场文件目录
+ * 结构: outputsDir/artifacts/task_<任务ID>/attempt_<第几次执行>/
+ */
+export function getAttemptArtifactDir(taskId: number, attemptNumber: number): string {
+  return path.join(getArtifactsRoot(), `task_${taskId}`, `attempt_${attemptNumber}`);
+}
+
+/**
+ * 列出任务所有执行的现场文件
+ */
+export function listTaskArtifacts(taskId: number): AttemptArtifacts[] {
+  const taskDir = path.join(getArtifactsRoot(), `task_${taskId}`);
+
+  if (!fs.existsSync(taskDir)) {
+    return [];
+  }
+
+  return fs.readdirSync(taskDir)
+    .map(dirName => ({ dirName, match: /^attempt_(\d+)$/.exec(dirName) }))
+    .filter(({ match }) => match !== null)
+    .map(({ dirName, match }) => {
+      const attemptDir = path.join(taskDir, dirName);
+      const files = fs.readdirSync(attemptDir)
+        .filter(name => ARTIFACT_FILE_NAMES.includes(name))
+        .map(name => {
+          const stat = fs.statSync(path.join(attemptDir, name));
+          return {
+            name,
+            size: stat.size,
+            createdAt: stat.mtime,
+          };
+        });
+
+      return {
+        attemptNumber: parseInt(match![1]),
+        files,
+      };
+    })
+    .sort((a, b) => a.attemptNumber - b.attemptNumber);
+}
+
+/**
+ * 获取现场文件的完整路径，文件不存在或不是已知的现场文件时返回 null
+ */
+export function resolveArtifactFile(taskId: number, attemptNumber: number, fileName: string): string | null {
+  // 只允许访问已知的现场文件，防止路径穿越和读取执行目录下的其他文件
+  if (!ARTIFACT_FILE_NAMES.includes(fileName)) {
+    return null;
+  }
+
+  const filePath = path.join(getAttemptArtifactDir(taskId, attemptNumber), fileName);
+  return fs.existsSync(filePath) ? filePath : null;
+}
@@ -0,0 +1,148 @@
+import { ResourceService } from '../resources/resource.service';
+import { CoverOption, CoverSource } from './base/uploader.types';
+
+const COVER_SOURCES: CoverSource[] = ['library', 'frame', 'auto'];
+
+// 截取封面的宽度（竖屏封面推荐 1080x1920）
+const COVER_WIDTH = 1080;
+
+// 自动选择封面时的候选帧数量
+const AUTO_COVER_CANDIDATES = 6;
+
+/**
+ * 解析接口传入的封面设置，不合法时抛出异常
+ * @param input 请求中的 cover 字段，如 { source: 'frame', time: 3.5 }
+ */
+export function parseCoverOption(input: any): CoverOption | undefined {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+
+  if (typeof input !== 'object' || !COVER_SOURCES.includes(input.source)) {
+    throw new Error(`封面来源必须是 ${COVER_SOURCES.join(' / ')} 之一`);
+  }
+
+  switch (input.source as CoverSource) {
+    case 'library': {
+      if (typeof input.path !== 'string' || input.path.trim() === '') {
+        throw new Error('使用资源库图片作为封面时必须指定 path');
+      }
+      const libraryId = input.libraryId !== undefined ? parseInt(input.libraryId) : undefined;
+      if (libraryId !== undefined && isNaN(libraryId)) {
+        throw new Error('封面资源库ID不合法');
+      }
+      return { source: 'library', libraryId, path: input.path };
+    }
+
+    case 'frame': {
+      const time = Number(input.time);
+      if (input.time === undefined || isNaN(time) || time < 0) {
+        throw new Error('截取视频画面作为封面时必须指定非负的 time（秒）');
+      }
+      return { source: 'frame', time };
+    }
+
+    default:
+      return { source: 'auto' };
+  }
+}
+
+/**
+ * 把封面设置转换为任务字段
+ */
+export function toCoverFields(cover?: CoverOption) {
+  return {
+    coverSource: cover?.source ?? null,
+    coverLibraryId: cover?.libraryId ?? null,
+    coverPath: cover?.path ?? null,
+    coverTime: cover?.time ?? null,
+  };
+}
+
+/**
+ * 从任务字段还原封面设置
+ */
+export function fromCoverFields(task: {
+  coverSource: string | null;
+  coverLibraryId: number | null;
+  coverPath: string | null;
+  coverTime: number | null;
+}): CoverOption | undefined {
+  if (!task.coverSource || !COVER_SOURCES.includes(task.coverSource as CoverSource)) {
+    return undefined;
+  }
+
+  return {
+    source: task.coverSource as CoverSource,
+    libraryId: task.coverLibraryId ?? undefined,
+    path: task.coverPath ?? undefined,
+    time: task.coverTime ?? undefined,
+  };
+}
+
+/**
+ * 自动选择封面时的候选时间点，均匀分布并避开片头片尾
+ * @param duration 视频时长（秒），未知时只取第 1 秒
+ */
+export function getCandidateTimes(duration: number | undefined, count: number = AUTO_COVER_CANDIDATES): number[] {
+  if (!duration || duration <= 0) {
+    return [1];
+  }
+
+  return Array.from({ length: count }, (_, i) =>
+    Math.round((duration * (i + 1)) / (count + 1) * 100) / 100
+  );
+}
+
+/**
+ * 从候选帧中选出画面最丰富的一帧
+ * 同样尺寸下 JPEG 越大说明细节越多，黑屏、纯色过场和模糊画面的 JPEG 都很小
+ */
+export function pickBestFrame<T extends { image: Buffer }>(frames: T[]): T | undefined {
+  return frames.reduce<T | undefined>(
+    (best, frame) => (!best || frame.image.length > best.image.length ? frame : best),
+    undefined
+  );
+}
+
+/**
+ * 封面服务
+ * 从视频中截取封面画面（复用资源库的缩略图生成）
+ */
+export class CoverService {
+  private resourceService = new ResourceService();
+
+  /**
+   * 截取指定时间的画面
+   */
+  async extractFrame(libraryId: number, videoPath: string, time: number): Promise<Buffer> {
+    return await this.resourceService.getVideoThumbnail(libraryId, videoPath, {
+      timeSeconds: time,
+      width: COVER_WIDTH,
+    });
+  }
+
+  /**
+   * 自动选择封面：截取多个候选帧，选画面最丰富的一帧
+   */
+  async extractBestFrame(libraryId: number, videoPath: string): Promise<{ time: number; image: Buffer }> {
+    const metadata = await this.resourceService.getVideoMetadata(libraryId, videoPath);
+    const frames: Array<{ time: number; image: Buffer }> = [];
+
+    for (const time of getCandidateTimes(metadata.duration)) {
+      try {
+        frames.push({ time, image: await this.extractFrame(libraryId, videoPath, time) });
+      } catch (error: any) {
+        console.warn(`⚠️ 截取第 ${time} 秒画面失败:`, error.message);
+      }
+    }
+
+    const best = pickBestFrame(frames);
+    if (!best) {
+      throw new Error('无法从视频中截取封面');
+    }
+
+    console.log(`🖼️ 自动选择第 ${best.time} 秒的画面作为封面`);
+    return best;
+  }
+}
@@ -0,0 +1,110 @@
+import { UploadService } from './upload.service';
+
+/**
+ * 上传任务调度器
+ * 定期扫描到达计划时间的任务并交给 UploadService 执行
+ *
+ * 任务状态保存在数据库中，服务重启后下一次扫描会继续处理未执行的任务；
+ * 任务的抢占由 UploadService.executeTask 的条件更新保证，不会被重复执行
+ */
+export class UploadDispatcher {
+  private static instance: UploadDispatcher;
+  private uploadService: UploadService;
+
+  // 由调度器启动、尚未结束的任务
+  private runningTasks: Set<number> = new Set();
+
+  // 是否正在扫描（防止两次扫描重叠）
+  private isScanning = false;
+
+  private constructor() {
+    this.uploadService = new UploadService();
+  }
+
+  static getInstance(): UploadDispatcher {
+    if (!UploadDispatcher.instance) {
+      UploadDispatcher.instance = new UploadDispatcher();
+    }
+    return UploadDispatcher.instance;
+  }
+
+  /**
+   * 扫描并启动到期任务
+   * 任务在后台执行，本方法只负责派发，返回本次派发的任务数
+   * @param maxConcurrent 同时执行的最大任务数
+   */
+  async dispatchDueTasks(maxConcurrent: number = 1): Promise<number> {
+    if (this.isScanning) {
+      console.log('⏳ 上一次扫描尚未结束，跳过本次调度');
+      return 0;
+    }
+
+    this.isScanning = true;
+
+    try {
+      const slots = maxConcurrent - this.runningTasks.size;
+      if (slots <= 0) {
+        console.log(`⏳ 已有 ${this.runningTasks.size} 个任务在执行，跳过本次调度`);
+        return 0;
+      }
+
+      const dueTasks = await this.uploadService.getDueTasks(
+        slots,
+        Array.from(this.runningTasks)
+      );
+
+      if (dueTasks.length === 0) {
+        return 0;
+      }
+
+      console.log(`📋 发现 ${dueTasks.length} 个到期的上传任务`);
+
+      for (const task of dueTasks) {
+        this.runTask(task.id);
+      }
+
+      return dueTasks.length;
+    } finally {
+      this.isScanning = false;
+    }
+  }
+
+  /**
+   * 恢复服务重启前被中断的任务
+   */
+  async recoverInterruptedTasks(): Promise<number> {
+    return await this.uploadService.recoverInterruptedTasks();
+  }
+
+  /**
+   * 获取调度器当前正在执行的任务
+   */
+  getRunningTasks(): number[] {
+    return Array.from(this.runningTasks);
+  }
+
+  /**
+   * 在后台执行单个任务
+   */
+  private runTask(taskId: number): void {
+    this.runningTasks.add(taskId);
+    console.log(`🚀 调度器开始执行任务 #${taskId}`);
+
+    this.uploadService.executeTask(taskId).then((result) => {
+      if (result.success) {
+        console.log(`✅ 调度任务 #${taskId} 执行成功`);
+      } else if (result.deferred) {
+        console.log(`⏸️ 调度任务 #${taskId} 已推迟: ${result.message}`);
+      } else {
+        console.error(`❌ 调度任务 #${taskId} 执行失败: ${result.message}`);
+      }
+    }).catch((error) => {
+      console.error(`❌ 调度任务 #${taskId} 执行异常:`, error);
+    }).finally(() => {
+      this.runningTasks.delete(taskId);
+    });
+  }
+}
+
+// 导出单例
+export const uploadDispatcher = UploadDispatcher.getInstance();
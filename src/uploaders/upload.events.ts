@@ -0,0 +1,125 @@
+import { EventEmitter } from 'events';
+import { UploadProgress, UploadResult, UploadIntervention } from './base/uploader.types';
+
+// 上传事件类型
+export type UploadEvent =
+  | {
+      type: 'progress';
+      taskId: number;
+      progress: UploadProgress;
+      timestamp: Date;
+    }
+  | {
+      type: 'status';
+      taskId: number;
+      status: string;
+      message?: string;
+      timestamp: Date;
+    }
+  | {
+      type: 'attention';
+      taskId: number;
+      intervention: UploadIntervention;
+      timestamp: Date;
+    }
+  | {
+      type: 'result';
+      taskId: number;
+      result: Omit<UploadResult, 'error'>;
+      timestamp: Date;
+    };
+
+export type UploadEventListener = (event: UploadEvent) => void;
+
+const EVENT_NAME = 'upload';
+
+/**
+ * 上传事件总线
+ * UploadService 和上传器在进度更新、状态变化、任务结束时发布事件，
+ * 由 SSE 接口等订阅者转发给前端
+ */
+export class UploadEventBus {
+  private static instance: UploadEventBus;
+  private emitter = new EventEmitter();
+
+  private constructor() {
+    // 每个 SSE 连接都是一个订阅者，不限制数量
+    this.emitter.setMaxListeners(0);
+  }
+
+  static getInstance(): UploadEventBus {
+    if (!UploadEventBus.instance) {
+      UploadEventBus.instance = new UploadEventBus();
+    }
+    return UploadEventBus.instance;
+  }
+
+  /**
+   * 发布上传进度
+   */
+  emitProgress(taskId: number, progress: UploadProgress): void {
+    this.emit({ type: 'progress', taskId, progress: { ...progress }, timestamp: new Date() });
+  }
+
+  /**
+   * 发布任务状态变化
+   */
+  emitStatus(taskId: number, status: string, message?: string): void {
+    this.emit({ type: 'status', taskId, status, message, timestamp: new Date() });
+  }
+
+  /**
+   * 发布需要人工处理的提醒（验证码、短信验证等）
+   */
+  emitAttention(taskId: number, intervention: UploadIntervention): void {
+    this.emit({ type: 'attention', taskId, intervention: { ...intervention }, timestamp: new Date() });
+  }
+
+  /**
+   * 发布任务执行结果
+   */
+  emitResult(taskId: number, result: UploadResult): void {
+    // Error 对象无法序列化，只保留错误信息
+    const { error, ...rest } = result;
+    this.emit({
+      type: 'result',
+      taskId,
+      result: { ...rest, message: rest.message ?? error?.message },
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * 订阅上传事件
+   * @param listener 事件回调
+   * @param taskIds 只接收这些任务的事件，不传则接收全部
+   * @returns 取消订阅的函数
+   */
+  subscribe(listener: UploadEventListener, taskIds?: number[]): () => void {
+    const filter = taskIds && taskIds.length > 0 ? new Set(taskIds) : undefined;
+
+    const handler = (event: UploadEvent) => {
+      if (!filter || filter.has(event.taskId)) {
+        listener(event);
+      }
+    };
+
+    this.emitter.on(EVENT_NAME, handler);
+
+    return () => {
+      this.emitter.off(EVENT_NAME, handler);
+    };
+  }
+
+  private emit(event: UploadEvent): void {
+    try {
+      this.emitter.emit(EVENT_NAME, event);
+    } catch (error) {
+      // 订阅者的异常不影响上传流程
+      console.error('❌ 发布上传事件失败:', error);
+    }
+  }
+}
+
+// 导出单例
+export const uploadEvents = UploadEventBus.getInstance();
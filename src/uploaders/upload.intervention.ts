@@ -0,0 +1,112 @@
+import { Page } from 'playwright';
+import { appConfig } from '../config/loader';
+import { InterventionInput } from './base/uploader.types';
+
+// 未配置时使用的默认值
+const DEFAULT_TIMEOUT_MINUTES = 15;
+const DEFAULT_POLL_INTERVAL_SECONDS = 2;
+
+// 拖动的默认步数（滑块验证码需要连续的鼠标移动事件）
+const DEFAULT_DRAG_STEPS = 25;
+const MAX_TEXT_LENGTH = 200;
+
+/**
+ * 获取人工处理等待策略
+ * 优先级: 配置文件 > 内置默认值
+ */
+export function resolveInterventionPolicy(
+  config = appConfig.uploads?.intervention
+): { timeoutMinutes: number; pollIntervalSeconds: number } {
+  return {
+    timeoutMinutes: config?.timeoutMinutes ?? DEFAULT_TIMEOUT_MINUTES,
+    pollIntervalSeconds: config?.pollIntervalSeconds ?? DEFAULT_POLL_INTERVAL_SECONDS,
+  };
+}
+
+/**
+ * 校验接口传入的远程操作，只保留已知字段；不合法时抛出异常
+ */
+export function parseInterventionInput(input: any): InterventionInput {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('操作必须是对象');
+  }
+
+  switch (input.type) {
+    case 'click': {
+      const button = input.button ?? 'left';
+      if (!['left', 'right', 'middle'].includes(button)) {
+        throw new Error('button 必须是 left / right / middle 之一');
+      }
+      return { type: 'click', ...requirePoint(input, 'click'), button };
+    }
+    case 'move':
+      return { type: 'move', ...requirePoint(input, 'move') };
+    case 'drag': {
+      const steps = input.steps ?? DEFAULT_DRAG_STEPS;
+      if (!Number.isInteger(steps) || steps < 1 || steps > 200) {
+        throw new Error('steps 必须为 1-200 之间的整数');
+      }
+      return {
+        type: 'drag',
+        from: requirePoint(input.from, 'from'),
+        to: requirePoint(input.to, 'to'),
+        steps,
+      };
+    }
+    case 'scroll': {
+      const deltaX = input.deltaX ?? 0;
+      if (typeof deltaX !== 'number' || typeof input.deltaY !== 'number') {
+        throw new Error('scroll 需要数字类型的 deltaY（可选 deltaX）');
+      }
+      return { type: 'scroll', deltaX, deltaY: input.deltaY };
+    }
+    case 'type':
+      if (typeof input.text !== 'string' || input.text === '' || input.text.length > MAX_TEXT_LENGTH) {
+        throw new Error(`text 必须为不超过 ${MAX_TEXT_LENGTH} 字的文本`);
+      }
+      return { type: 'type', text: input.text };
+    case 'press':
+      if (typeof input.key !== 'string' || input.key.trim() === '') {
+        throw new Error('key 必须为按键名称，如 Enter、Backspace');
+      }
+      return { type: 'press', key: input.key.trim() };
+    default:
+      throw new Error('type 必须是 click / drag / move / scroll / type / press 之一');
+  }
+}
+
+function requirePoint(input: any, field: string): { x: number; y: number } {
+  if (!input || typeof input.x !== 'number' || typeof input.y !== 'number' || input.x < 0 || input.y < 0) {
+    throw new Error(`${field} 需要非负数坐标 x、y`);
+  }
+  return { x: input.x, y: input.y };
+}
+
+/**
+ * 把远程操作转发到页面
+ */
+export async function applyInterventionInput(page: Page, input: InterventionInput): Promise<void> {
+  switch (input.type) {
+    case 'click':
+      await page.mouse.click(input.x, input.y, { button: input.button });
+      break;
+    case 'move':
+      await page.mouse.move(input.x, input.y);
+      break;
+    case 'drag':
+      await page.mouse.move(input.from.x, input.from.y);
+      await page.mouse.down();
+      await page.mouse.move(input.to.x, input.to.y, { steps: input.steps });
+      await page.mouse.up();
+      break;
+    case 'scroll':
+      await page.mouse.wheel(input.deltaX ?? 0, input.deltaY);
+      break;
+    case 'type':
+      await page.keyboard.type(input.text, { delay: 50 });
+      break;
+    case 'press':
+      await page.keyboard.press(input.key);
+      break;
+  }
+}
@@ -0,0 +1,88 @@
+import { appConfig, PublishQuota } from '../config/loader';
+
+// 账号上设置的发布限制（null 表示使用平台默认值）
+export interface AccountQuotaSettings {
+  platform: string;
+  maxDailyUploads: number | null;
+  minPublishIntervalMinutes: number | null;
+  maxConcurrentUploads: number | null;
+}
+
+// 账号当前的发布情况
+export interface PublishUsage {
+  uploadsToday: number;      // 今天已发布数
+  lastPublishedAt?: Date;    // 最近一次发布时间
+  runningUploads: number;    // 正在上传的任务数
+}
+
+// 发布限制检查结果
+export interface QuotaCheckResult {
+  allowed: boolean;
+  reason?: string;    // 不允许发布的原因
+  retryAt?: Date;     // 最早可以再次尝试的时间
+}
+
+// 并发已满时的重新检查间隔
+const CONCURRENCY_RECHECK_MS = 60 * 1000;
+
+/**
+ * 获取账号生效的发布限制
+ * 优先级: 账号设置 > 平台配置 > 默认配置
+ */
+export function resolvePublishQuota(
+  account: AccountQuotaSettings,
+  quotaConfig = appConfig.uploads?.quotas
+): PublishQuota {
+  const platformQuota = {
+    ...quotaConfig?.default,
+    ...quotaConfig?.platforms?.[account.platform.toLowerCase()],
+  };
+
+  return {
+    maxDailyUploads: account.maxDailyUploads ?? platformQuota.maxDailyUploads,
+    minPublishIntervalMinutes: account.minPublishIntervalMinutes ?? platformQuota.minPublishIntervalMinutes,
+    maxConcurrentUploads: account.maxConcurrentUploads ?? platformQuota.maxConcurrentUploads,
+  };
+}
+
+/**
+ * 检查账号当前是否允许发布
+ */
+export function evaluatePublishQuota(
+  quota: PublishQuota,
+  usage: PublishUsage,
+  now: Date = new Date()
+): QuotaCheckResult {
+  if (quota.maxConcurrentUploads !== undefined && usage.runningUploads >= quota.maxConcurrentUploads) {
+    return {
+      allowed: false,
+      reason: `账号已有 ${usage.runningUploads} 个任务在上传（上限 ${quota.maxConcurrentUploads}）`,
+      retryAt: new Date(now.getTime() + CONCURRENCY_RECHECK_MS),
+    };
+  }
+
+  if (quota.maxDailyUploads !== undefined && usage.uploadsToday >= quota.maxDailyUploads) {
+    const tomorrow = new Date(now);
+    tomorrow.setHours(24, 0, 0, 0);
+
+    return {
+      allowed: false,
+      reason: `账号今日已发布 ${usage.uploadsToday} 个视频（上限 ${quota.maxDailyUploads}）`,
+      retryAt: tomorrow,
+    };
+  }
+
+  if (quota.minPublishIntervalMinutes !== undefined && usage.lastPublishedAt) {
+    const nextAllowedAt = new Date(usage.lastPublishedAt.getTime() + quota.minPublishIntervalMinutes * 60 * 1000);
+
+    if (nextAllowedAt > now) {
+      return {
+        allowed: false,
+        reason: `距离上次发布不足 ${quota.minPublishIntervalMinutes} 分钟`,
+        retryAt: nextAllowedAt,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
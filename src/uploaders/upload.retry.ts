@@ -0,0 +1,34 @@
+import { appConfig, UploadRetryPolicy } from '../config/loader';
+
+// 未配置时使用的默认重试策略
+export const DEFAULT_RETRY_POLICY: UploadRetryPolicy = {
+  maxRetries: 2,
+  baseDelaySeconds: 300,
+  maxDelaySeconds: 3600,
+  multiplier: 2,
+};
+
+/**
+ * 获取平台的重试策略
+ * 优先级: 平台配置 > 默认配置 > 内置默认值
+ */
+export function resolveRetryPolicy(
+  platform: string,
+  retryConfig = appConfig.uploads?.retry
+): UploadRetryPolicy {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...retryConfig?.default,
+    ...retryConfig?.platforms?.[platform.toLowerCase()],
+  };
+}
+
+/**
+ * 计算第 N 次重试前的等待时间（毫秒），按指数退避增长
+ * @param policy 重试策略
+ * @param retryCount 已重试次数（0 表示第一次重试）
+ */
+export function calculateRetryDelay(policy: UploadRetryPolicy, retryCount: number): number {
+  const delaySeconds = policy.baseDelaySeconds * Math.pow(policy.multiplier, Math.max(0, retryCount));
+  return Math.min(delaySeconds, policy.maxDelaySeconds) * 1000;
+}
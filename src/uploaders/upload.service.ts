@@ -1,8 +1,26 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, PlatformAccount, Prisma, UploadTask } from '@prisma/client';
+import { BrowserContext, Page } from 'playwright';
 import * as path from 'path';
-import { DouyinUploader } from './platforms/douyin/douyin.uploader';
-import { UploadTaskData, UploadResult, UploadProgress } from './base/uploader.types';
+import { UploaderFactory } from './factory';
+import {
+  UploadTaskData,
+  UploadResult,
+  UploadProgress,
+  CoverOption,
+  UploadIntervention,
+  InterventionInput,
+} from './base/uploader.types';
 import { IUploader } from './base/uploader.interface';
+import { resolveRetryPolicy, calculateRetryDelay } from './upload.retry';
+import { resolvePublishQuota, evaluatePublishQuota, QuotaCheckResult } from './upload.quota';
+import { uploadEvents } from './upload.events';
+import { UploadTaskStatus, assertTransition } from './upload.state';
+import { UploadValidationService, ValidationReport, formatViolations } from './upload.validation';
+import { toCoverFields, fromCoverFields } from './upload.cover';
+import { resolveVerificationOutcome } from './upload.verification';
+import { Platform, IPlatformVideoStatsCollector } from '../types';
+import { PlaywrightService } from '../services/playwright.service';
+import { PlatformVideoStatsFactory } from '../platforms';
 
 const prisma = new PrismaClient();
 
@@ -14,6 +32,9 @@ export class UploadService {
   // 存储正在运行的上传器实例
   private static activeUploaders: Map<number, IUploader> = new Map();
   
+  // 每个账号的任务抢占队列：发布限制检查和抢占任务依次执行，避免同一账号的任务同时通过检查
+  private static accountClaims: Map<number, Promise<unknown>> = new Map();
+  
   /**
    * 创建上传任务
    */
@@ -25,8 +46,27 @@ export class UploadService {
     description?: string;
     tags?: string;
     scheduledAt?: Date;
+    cover?: CoverOption;  // 封面设置，不传时使用平台默认封面
+    config?: Record<string, any>;  // 平台发布选项（如抖音的可见范围、位置、合集）
+    draft?: boolean;      // 保存为草稿，提交前不会执行
+    skipValidation?: boolean;  // 调用方已经校验过（validateTask）
+    archiveThemeId?: number;   // 发布成功后归档到的主题库
   }) {
     try {
+      // 创建前按平台规则校验视频，有违规项时不创建任务
+      if (!data.skipValidation) {
+        const report = await this.validateTask(data);
+        if (!report.valid) {
+          throw new Error(formatViolations(report));
+        }
+      }
+      
+      // 按账号所在平台解析发布选项，只保存平台支持的字段
+      const config = data.config ? await this.parsePublishConfig(data.platformId, data.config) : undefined;
+      
+      // 有计划时间的任务由调度器到时执行，否则等待手动执行
+      const status: UploadTaskStatus = data.draft ? 'draft' : data.scheduledAt ? 'scheduled' : 'pending';
+      
       const task = await prisma.uploadTask.create({
         data: {
           platformId: data.platformId,
@@ -36,14 +76,19 @@ export class UploadService {
           title: data.title,
           description: data.description || '',
           tags: data.tags || '',
-          status: 'pending',
+          status,
           scheduledAt: data.scheduledAt,
+          ...toCoverFields(data.cover),
+          config: config ? JSON.stringify(config) : null,
+          archiveThemeId: data.archiveThemeId,
         },
         include: {
           account: true,
         },
       });
       
+      uploadEvents.emitStatus(task.id, task.status, '任务已创建');
+      
       return task;
     } catch (error) {
       console.error('创建上传任务失败:', error);
@@ -51,6 +96,56 @@ export class UploadService {
     }
   }
   
+  /**
+   * 校验待发布的视频是否符合平台发布规则
+   * @param validator 批量校验时传入同一实例，每个视频只读取一次信息
+   */
+  async validateTask(
+    data: {
+      platformId: number;
+      libraryId: number;
+      resourcePath: string;
+      title: string;
+      tags?: string;
+      cover?: CoverOption;
+      config?: Record<string, any>;
+    },
+    validator: UploadValidationService = new UploadValidationService()
+  ): Promise<ValidationReport> {
+    const account = await prisma.platformAccount.findUnique({
+      where: { id: data.platformId },
+    });
+    
+    if (!account) {
+      throw new Error('账号不存在');
+    }
+    
+    return await validator.validate({
+      platform: account.platform.toLowerCase() as Platform,
+      libraryId: data.libraryId,
+      resourcePath: data.resourcePath,
+      title: data.title,
+      tags: data.tags ? data.tags.split(',').map(t => t.trim()) : [],
+      cover: data.cover,
+      config: data.config,
+    });
+  }
+  
+  /**
+   * 按账号所在平台解析发布选项，不合法时抛出异常
+   */
+  async parsePublishConfig(platformId: number, input: any): Promise<Record<string, any> | undefined> {
+    const account = await prisma.platformAccount.findUnique({
+      where: { id: platformId },
+    });
+    
+    if (!account) {
+      throw new Error('账号不存在');
+    }
+    
+    return UploaderFactory.parseConfig(account.platform.toLowerCase() as Platform, input);
+  }
+  
   /**
    * 获取所有上传任务
    */
@@ -88,6 +183,7 @@ export class UploadService {
         where: { id: taskId },
         include: {
           account: true,
+          accountVideo: true,
         },
       });
       
@@ -103,37 +199,196 @@ export class UploadService {
    */
   async updateTaskStatus(
     taskId: number,
-    status: string,
+    status: UploadTaskStatus,
     uploadedAt?: Date
   ) {
+    return await this.transitionTask(taskId, status, { uploadedAt });
+  }
+  
+  /**
+   * 变更任务状态
+   * 所有状态变更都经过这里校验流转是否合法，并以当前状态为条件更新，避免并发修改互相覆盖
+   * @param data 同时更新的其他字段
+   * @param message 状态变更说明（推送给事件订阅者）
+   */
+  async transitionTask(
+    taskId: number,
+    to: UploadTaskStatus,
+    data: Omit<Prisma.UploadTaskUncheckedUpdateManyInput, 'status'> = {},
+    message?: string
+  ) {
+    const task = await prisma.uploadTask.findUnique({
+      where: { id: taskId },
+    });
+    
+    if (!task) {
+      throw new Error(`任务 ${taskId} 不存在`);
+    }
+    
+    assertTransition(task.status, to);
+    
+    const result = await prisma.uploadTask.updateMany({
+      where: {
+        id: taskId,
+        status: task.status,
+      },
+      data: {
+        ...data,
+        status: to,
+      },
+    });
+    
+    if (result.count === 0) {
+      throw new Error('任务状态已被修改，请刷新后重试');
+    }
+    
+    uploadEvents.emitStatus(taskId, to, message);
+    
+    return await prisma.uploadTask.findUniqueOrThrow({
+      where: { id: taskId },
+    });
+  }
+  
+  /**
+   * 设置任务发布成功后归档到的主题库，null 表示不归档
+   */
+  async setArchiveTheme(taskIds: number[], themeId: number | null): Promise<void> {
+    await prisma.uploadTask.updateMany({
+      where: { id: { in: taskIds } },
+      data: { archiveThemeId: themeId },
+    });
+  }
+  
+  /**
+   * 获取要求归档到主题库的同一视频的所有任务（同一视频可能发布到多个账号）
+   */
+  async getArchiveTasks(themeId: number, libraryId: number, resourcePath: string) {
+    return await prisma.uploadTask.findMany({
+      where: { archiveThemeId: themeId, libraryId, resourcePath },
+      select: { id: true, status: true },
+    });
+  }
+  
+  /**
+   * 获取要求归档、且状态为指定状态之一的任务
+   */
+  async getTasksAwaitingArchive(statuses: string[]) {
+    return await prisma.uploadTask.findMany({
+      where: { archiveThemeId: { not: null }, status: { in: statuses } },
+      select: { id: true, archiveThemeId: true, libraryId: true, resourcePath: true },
+    });
+  }
+  
+  /**
+   * 清除任务的归档要求
+   * @returns 是否由本次调用清除（并发时只有一个调用成功，避免重复归档）
+   */
+  async claimArchive(taskIds: number[], themeId: number): Promise<boolean> {
+    const result = await prisma.uploadTask.updateMany({
+      where: { id: { in: taskIds }, archiveThemeId: themeId },
+      data: { archiveThemeId: null },
+    });
+    return result.count > 0;
+  }
+  
+  /**
+   * 删除任务
+   */
+  async deleteTask(taskId: number) {
     try {
-      const task = await prisma.uploadTask.update({
+      await prisma.uploadTask.delete({
         where: { id: taskId },
-        data: {
-          status,
-          uploadedAt,
+      });
+      
+      return true;
+    } catch (error) {
+      console.error('删除任务失败:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * 获取已到执行时间的待执行任务
+   * @param limit 最多返回的任务数
+   * @param excludeIds 需要排除的任务ID（如正在执行中的任务）
+   */
+  async getDueTasks(limit: number, excludeIds: number[] = []) {
+    try {
+      const now = new Date();
+      const tasks = await prisma.uploadTask.findMany({
+        where: {
+          status: 'scheduled',
+          OR: [
+            // 等待自动重试或因发布限制推迟的任务
+            { nextRetryAt: { lte: now } },
+            // 到达计划时间的任务
+            { nextRetryAt: null, scheduledAt: { lte: now } },
+          ],
+          id: excludeIds.length > 0 ? { notIn: excludeIds } : undefined,
         },
       });
       
-      return task;
+      // 按到期时间排序（重试、推迟的任务按 nextRetryAt，其余按计划时间），最早到期的先执行
+      const dueAt = (task: typeof tasks[number]) => (task.nextRetryAt ?? task.scheduledAt)?.getTime() ?? 0;
+      return tasks
+        .sort((a, b) => dueAt(a) - dueAt(b) || a.id - b.id)
+        .slice(0, limit);
     } catch (error) {
-      console.error('更新任务状态失败:', error);
+      console.error('获取到期任务失败:', error);
       throw error;
     }
   }
   
   /**
-   * 删除任务
+   * 恢复被中断的任务
+   * 服务重启后，处于 processing 状态但没有对应上传器实例的任务不会再继续执行，
+   * 此时无法确定视频是否已发布，统一标记为失败，由人工确认后重新执行
    */
-  async deleteTask(taskId: number) {
+  async recoverInterruptedTasks(): Promise<number> {
     try {
-      await prisma.uploadTask.delete({
-        where: { id: taskId },
+      const runningIds = Array.from(UploadService.activeUploaders.keys());
+      const tasks = await prisma.uploadTask.findMany({
+        where: {
+          status: { in: ['processing', 'needs_attention'] },
+          id: runningIds.length > 0 ? { notIn: runningIds } : undefined,
+        },
+        select: { id: true, status: true },
       });
       
-      return true;
+      // 逐个变更状态，向事件订阅者推送状态变化
+      let recovered = 0;
+      for (const task of tasks) {
+        const message = task.status === 'needs_attention'
+          ? '服务重启，等待人工处理的上传被中断'
+          : '服务重启，上传被中断';
+        try {
+          await this.transitionTask(task.id, 'failed', { lastError: message }, message);
+          recovered++;
+        } catch (error) {
+          console.error(`恢复中断任务 ${task.id} 失败:`, error);
+        }
+      }
+      
+      // 结束被中断的执行记录（包括提交发布后、确认过程中被中断的任务）
+      await prisma.uploadTaskAttempt.updateMany({
+        where: {
+          status: 'running',
+          taskId: runningIds.length > 0 ? { notIn: runningIds } : undefined,
+        },
+        data: {
+          status: 'failed',
+          errorMessage: '服务重启，执行被中断',
+          finishedAt: new Date(),
+        },
+      });
+      
+      if (recovered > 0) {
+        console.warn(`⚠️ 已将 ${recovered} 个中断的上传任务标记为失败`);
+      }
+      
+      return recovered;
     } catch (error) {
-      console.error('删除任务失败:', error);
+      console.error('恢复中断任务失败:', error);
       throw error;
     }
   }
@@ -142,6 +397,12 @@ export class UploadService {
    * 执行上传任务
    */
   async executeTask(taskId: number): Promise<UploadResult> {
+    // 是否由本次调用将任务置为 processing，只有抢占成功后才能改写任务状态
+    let claimed = false;
+    let uploader: IUploader | undefined;
+    let attemptId: number | undefined;
+    let attemptNumber: number | undefined;
+    
     try {
       // 1. 获取任务信息
       const task = await this.getTask(taskId);
@@ -149,14 +410,9 @@ export class UploadService {
         throw new Error(`任务 ${taskId} 不存在`);
       }
       
-      // 2. 检查任务状态
-      if (task.status === 'processing') {
-        throw new Error('任务正在执行中');
-      }
-      
-      if (task.status === 'success') {
-        throw new Error('任务已完成');
-      }
+      // 2. 检查任务状态是否允许执行
+      this.assertNotRunning(taskId);
+      assertTransition(task.status, 'processing');
       
       // 3. 获取平台账号信息
       const account = task.account ?? await prisma.platformAccount.findUnique({
@@ -167,76 +423,696 @@ export class UploadService {
         throw new Error(`账号 ${task.platformId} 不存在`);
       }
       
-      // 4. 更新任务状态为处理中
-      await this.updateTaskStatus(taskId, 'processing');
+      // 4. 检查账号发布限制并抢占任务（条件更新，避免同一任务被重复执行），超限时推迟任务
+      const quotaCheck = await this.withAccountClaim(account.id, async () => {
+        const check = await this.checkPublishQuota(account, taskId);
+        if (check.allowed) {
+          await this.transitionTask(taskId, 'processing', { nextRetryAt: null }, '任务开始执行');
+          claimed = true;
+        }
+        return check;
+      });
+      if (!quotaCheck.allowed) {
+        return await this.deferTask(taskId, quotaCheck);
+      }
+      
+      // 5. 创建上传器并转发进度事件
+      uploader = UploaderFactory.create(account.platform.toLowerCase() as Platform, account.cookiePath);
       
-      // 5. 创建上传器
-      const uploader = this.createUploader(account.platform, account.cookiePath);
+      // 上传器上报的阶段同步到任务状态（按顺序执行）：
+      // 遇到验证弹窗时变为等待人工处理，处理完成后恢复为上传中；
+      // 点击发布后进入确认阶段，任务变为确认中（视频已提交，不能再取消或重试）
+      let statusSync: Promise<unknown> = Promise.resolve();
+      let needsAttention = false;
+      let verifying = false;
+      const syncStatus = (to: UploadTaskStatus, data: Omit<Prisma.UploadTaskUncheckedUpdateManyInput, 'status'>, message: string) => {
+        statusSync = statusSync
+          .then(() => this.transitionTask(taskId, to, data, message))
+          .catch((error) => console.warn(`⚠️ 任务 #${taskId} 未变更为 ${to}:`, error.message));
+      };
+      
+      const activeUploader = uploader;
+      activeUploader.onProgress((progress) => {
+        // 已取消的任务状态由 cancelTask 更新
+        if (UploadService.activeUploaders.has(taskId)) {
+          if (progress.status === 'needs_attention' && !needsAttention) {
+            needsAttention = true;
+            syncStatus('needs_attention', {}, progress.message);
+            
+            const intervention = activeUploader.getIntervention();
+            if (intervention) {
+              uploadEvents.emitAttention(taskId, intervention);
+            }
+          } else if (progress.status !== 'needs_attention' && needsAttention) {
+            needsAttention = false;
+            syncStatus('processing', {}, progress.message);
+          }
+          
+          if (progress.status === 'verifying' && !verifying) {
+            verifying = true;
+            syncStatus('verifying', { uploadedAt: new Date() }, progress.message);
+          }
+        }
+        uploadEvents.emitProgress(taskId, progress);
+      });
       
-      // 6. 存储上传器实例
+      // 6. 存储上传器实例并记录本次执行
       UploadService.activeUploaders.set(taskId, uploader);
+      ({ id: attemptId, attemptNumber } = await this.startAttempt(taskId, uploader.constructor.name));
       
       // 7. 准备上传数据
       const uploadData: UploadTaskData = {
         taskId: task.id,
         accountId: task.platformId,
+        attemptNumber,
         libraryId: task.libraryId,
         resourcePath: task.resourcePath,
         title: task.title,
         description: task.description || undefined,
         tags: task.tags ? task.tags.split(',').map(t => t.trim()) : [],
-        scheduledAt: task.scheduledAt || undefined,
+        cover: fromCoverFields(task),
+        config: task.config ? JSON.parse(task.config) : undefined,
+        // 计划时间已到（由调度器触发）时直接发布，只有未来时间才交给平台定时发布
+        scheduledAt: task.scheduledAt && task.scheduledAt > new Date() ? task.scheduledAt : undefined,
+        claimedVideoIds: await this.getClaimedVideoIds(account.id, taskId),
       };
       
       // 8. 执行上传
       console.log(`🚀 开始执行上传任务 #${taskId}`);
-      const result = await uploader.upload(uploadData);
+      let result = await uploader.upload(uploadData);
+      await statusSync;
+      
+      // 同一账号的任务同时发布同名视频时，确认的视频可能已被其他任务认领，交给定时确认重新匹配
+      if (result.videoId && (await this.getClaimedVideoIds(account.id, taskId)).includes(result.videoId)) {
+        console.warn(`⚠️ 任务 #${taskId} 匹配到的视频 ${result.videoId} 已属于其他任务`);
+        result = {
+          success: true,
+          pendingConfirmation: true,
+          message: '已提交发布，作品列表中匹配到的视频已属于其他任务，稍后继续确认',
+        };
+      }
+      
+      // cancelTask 会先移除上传器实例，实例不在说明任务已被取消
+      const wasCancelled = !UploadService.activeUploaders.has(taskId);
+      
+      // 上传器在等待人工处理时结束（如等待超时），先恢复为上传中，再按结果重试或标记失败
+      if (needsAttention && !wasCancelled) {
+        needsAttention = false;
+        syncStatus('processing', {}, result.message || '人工处理已结束');
+        await statusSync;
+      }
       
-      // 9. 更新任务状态
-      if (result.success) {
-        await this.updateTaskStatus(taskId, 'success', new Date());
+      // 9. 移除上传器实例
+      UploadService.activeUploaders.delete(taskId);
+      
+      // 10. 更新执行记录和任务状态（已取消的任务状态由 cancelTask 更新）
+      if (wasCancelled) {
+        await this.finishAttempt(attemptId, 'cancelled', uploader.getProgress(), result.message);
+        console.log(`⏹️ 任务 #${taskId} 已被取消`);
+      } else if (result.success && result.pendingConfirmation) {
+        // 平台尚未确认，任务保持确认中，由定时任务继续确认
+        await this.finishAttempt(attemptId, 'success', uploader.getProgress(), result.message);
+        await this.markVerifying(taskId, result);
+        console.log(`⌛ 任务 #${taskId} 已提交发布，等待平台确认`);
+      } else if (result.success) {
+        await this.finishAttempt(attemptId, 'success', uploader.getProgress());
+        await this.transitionTask(taskId, 'success', {
+          uploadedAt: verifying ? undefined : new Date(),
+          videoId: result.videoId,
+          videoUrl: result.videoUrl,
+          reviewStatus: result.reviewStatus,
+        }, result.message);
+        await this.linkAccountVideo(taskId, account.id, result.videoId);
         console.log(`✅ 任务 #${taskId} 上传成功`);
       } else {
-        await this.updateTaskStatus(taskId, 'failed');
-        console.error(`❌ 任务 #${taskId} 上传失败: ${result.message}`);
+        const message = result.message || '上传失败';
+        await this.finishAttempt(attemptId, 'failed', uploader.getProgress(), message);
+        // 已提交发布的任务重试会重复发布，直接标记失败
+        const retryable = !verifying && result.retryable !== false;
+        await this.handleTaskFailure(taskId, account.platform, task.retryCount, message, retryable, {
+          videoId: result.videoId,
+          videoUrl: result.videoUrl,
+          reviewStatus: result.reviewStatus,
+        });
+        console.error(`❌ 任务 #${taskId} 上传失败: ${message}`);
       }
       
-      // 10. 移除上传器实例
-      UploadService.activeUploaders.delete(taskId);
+      uploadEvents.emitResult(taskId, result);
       
       return result;
       
     } catch (error) {
       console.error(`执行任务 #${taskId} 失败:`, error);
       
-      // 更新任务状态为失败
-      await this.updateTaskStatus(taskId, 'failed');
+      const message = error instanceof Error ? error.message : '未知错误';
       
-      // 移除上传器实例
-      UploadService.activeUploaders.delete(taskId);
+      // 更新任务状态为失败（未抢占到任务时不能改写其他执行者的状态）
+      if (claimed) {
+        // 移除上传器实例
+        UploadService.activeUploaders.delete(taskId);
+        
+        if (attemptId) {
+          await this.finishAttempt(attemptId, 'failed', uploader?.getProgress(), message);
+        }
+        
+        // 上传器之外的异常（配置错误、数据库异常等）重试无意义，直接标记失败；
+        // 任务已被取消时状态流转不合法，保持取消状态
+        try {
+          await this.transitionTask(taskId, 'failed', { lastError: message }, message);
+        } catch (transitionError) {
+          console.warn(`⚠️ 任务 #${taskId} 未标记为失败:`, (transitionError as Error).message);
+        }
+      }
       
-      return {
+      const result: UploadResult = {
         success: false,
         error: error as Error,
-        message: error instanceof Error ? error.message : '未知错误',
+        message,
       };
+      
+      // 未抢占到的任务属于其他执行者，不发布结果事件
+      if (claimed) {
+        uploadEvents.emitResult(taskId, result);
+      }
+      
+      return result;
     }
   }
   
+  /**
+   * 在账号的抢占队列中执行：同一账号同时只有一个调用在检查发布限制和抢占任务
+   * 任务抢占后状态为上传中，之后的检查会将其计入并发数
+   */
+  private async withAccountClaim<T>(accountId: number, claim: () => Promise<T>): Promise<T> {
+    const previous = UploadService.accountClaims.get(accountId) ?? Promise.resolve();
+    const current = previous.then(claim);
+    const tail = current.catch(() => undefined);
+    UploadService.accountClaims.set(accountId, tail);
+    
+    try {
+      return await current;
+    } finally {
+      if (UploadService.accountClaims.get(accountId) === tail) {
+        UploadService.accountClaims.delete(accountId);
+      }
+    }
+  }
+  
+  /**
+   * 检查账号的发布限制
+   * @param account 平台账号
+   * @param excludeTaskId 统计并发数时排除的任务（即将执行的任务本身）
+   */
+  async checkPublishQuota(account: PlatformAccount, excludeTaskId?: number): Promise<QuotaCheckResult> {
+    const quota = resolvePublishQuota(account);
+    
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    
+    const [uploadsToday, lastPublished, runningUploads] = await Promise.all([
+      // 确认中的任务已经提交发布，同样计入发布数
+      prisma.uploadTask.count({
+        where: {
+          platformId: account.id,
+          status: { in: ['verifying', 'success'] },
+          uploadedAt: { gte: startOfToday },
+        },
+      }),
+      prisma.uploadTask.findFirst({
+        where: {
+          platformId: account.id,
+          status: { in: ['verifying', 'success'] },
+          uploadedAt: { not: null },
+        },
+        orderBy: { uploadedAt: 'desc' },
+        select: { uploadedAt: true },
+      }),
+      prisma.uploadTask.count({
+        where: {
+          platformId: account.id,
+          status: { in: ['processing', 'needs_attention'] },
+          id: excludeTaskId ? { not: excludeTaskId } : undefined,
+        },
+      }),
+    ]);
+    
+    return evaluatePublishQuota(quota, {
+      uploadsToday,
+      lastPublishedAt: lastPublished?.uploadedAt ?? undefined,
+      runningUploads,
+    });
+  }
+  
+  /**
+   * 因发布限制推迟任务，到期后由调度器重新执行
+   */
+  private async deferTask(taskId: number, quotaCheck: QuotaCheckResult): Promise<UploadResult> {
+    const deferredUntil = quotaCheck.retryAt ?? new Date();
+    
+    const message = `${quotaCheck.reason}，任务已推迟至 ${deferredUntil.toLocaleString()}`;
+    
+    await this.transitionTask(taskId, 'scheduled', { nextRetryAt: deferredUntil }, message);
+    console.log(`⏸️ 任务 #${taskId} ${message}`);
+    
+    const result: UploadResult = {
+      success: false,
+      deferred: true,
+      deferredUntil,
+      message,
+    };
+    
+    uploadEvents.emitResult(taskId, result);
+    
+    return result;
+  }
+  
+  /**
+   * 关联已同步的作品记录
+   * 作品尚未同步时跳过，之后由视频统计同步按 videoId 关联
+   */
+  private async linkAccountVideo(taskId: number, accountId: number, videoId?: string): Promise<void> {
+    if (!videoId) return;
+    
+    try {
+      const accountVideo = await prisma.accountVideo.findUnique({
+        where: {
+          platformAccountId_videoId: {
+            platformAccountId: accountId,
+            videoId,
+          },
+        },
+      });
+      
+      if (accountVideo) {
+        await prisma.uploadTask.update({
+          where: { id: taskId },
+          data: { accountVideoId: accountVideo.id },
+        });
+      }
+    } catch (error) {
+      // 关联失败不影响任务结果，下次统计同步时会重新关联
+      console.error(`关联任务 #${taskId} 的作品记录失败:`, error);
+    }
+  }
+  
+  /**
+   * 获取任务的执行记录
+   */
+  async getTaskAttempts(taskId: number) {
+    try {
+      const attempts = await prisma.uploadTaskAttempt.findMany({
+        where: { taskId },
+        orderBy: {
+          attemptNumber: 'asc',
+        },
+      });
+      
+      return attempts;
+    } catch (error) {
+      console.error('获取任务执行记录失败:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * 创建执行记录
+   * @returns 执行记录ID 和第几次执行
+   */
+  private async startAttempt(taskId: number, uploaderName: string): Promise<{ id: number; attemptNumber: number }> {
+    const previousCount = await prisma.uploadTaskAttempt.count({
+      where: { taskId },
+    });
+    
+    const attempt = await prisma.uploadTaskAttempt.create({
+      data: {
+        taskId,
+        attemptNumber: previousCount + 1,
+        uploader: uploaderName,
+        status: 'running',
+      },
+    });
+    
+    return { id: attempt.id, attemptNumber: attempt.attemptNumber };
+  }
+  
+  /**
+   * 结束执行记录
+   */
+  private async finishAttempt(
+    attemptId: number,
+    status: 'success' | 'failed' | 'cancelled',
+    progress?: UploadProgress,
+    errorMessage?: string
+  ): Promise<void> {
+    try {
+      await prisma.uploadTaskAttempt.update({
+        where: { id: attemptId },
+        data: {
+          status,
+          stage: progress?.message,
+          percentage: progress?.percentage ?? 0,
+          errorMessage,
+          finishedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      // 执行记录写入失败不影响任务本身的状态
+      console.error(`更新执行记录 #${attemptId} 失败:`, error);
+    }
+  }
+  
+  /**
+   * 处理上传失败：在重试次数内按指数退避安排自动重试，否则标记为失败
+   */
+  private async handleTaskFailure(
+    taskId: number,
+    platform: string,
+    retryCount: number,
+    message: string,
+    retryable = true,
+    data: Omit<Prisma.UploadTaskUncheckedUpdateManyInput, 'status'> = {}
+  ): Promise<void> {
+    const policy = resolveRetryPolicy(platform);
+    
+    if (retryable && retryCount < policy.maxRetries) {
+      const nextRetryAt = new Date(Date.now() + calculateRetryDelay(policy, retryCount));
+      
+      await this.transitionTask(taskId, 'scheduled', {
+        retryCount: retryCount + 1,
+        nextRetryAt,
+        lastError: message,
+      }, `${message}，将于 ${nextRetryAt.toLocaleString()} 自动重试`);
+      
+      console.log(`🔁 任务 #${taskId} 将于 ${nextRetryAt.toISOString()} 第 ${retryCount + 1}/${policy.maxRetries} 次重试`);
+      return;
+    }
+    
+    await this.transitionTask(taskId, 'failed', { ...data, lastError: message }, message);
+  }
+  
+  /**
+   * 获取同一账号其他任务已确认的视频ID，按标题匹配作品时跳过
+   */
+  private async getClaimedVideoIds(accountId: number, excludeTaskId: number): Promise<string[]> {
+    const tasks = await prisma.uploadTask.findMany({
+      where: {
+        platformId: accountId,
+        id: { not: excludeTaskId },
+        videoId: { not: null },
+      },
+      select: { videoId: true },
+    });
+    return tasks.map(task => task.videoId!);
+  }
+  
+  /**
+   * 标记任务为确认中，并保存已获取到的视频信息
+   * 上传器没有上报确认进度时（任务仍为处理中）在这里补充状态变更
+   */
+  private async markVerifying(taskId: number, result: UploadResult): Promise<void> {
+    const task = await prisma.uploadTask.findUniqueOrThrow({
+      where: { id: taskId },
+    });
+    
+    const data = {
+      videoId: result.videoId,
+      videoUrl: result.videoUrl,
+      reviewStatus: result.reviewStatus,
+    };
+    
+    if (task.status === 'verifying') {
+      await prisma.uploadTask.update({
+        where: { id: taskId },
+        data,
+      });
+      return;
+    }
+    
+    await this.transitionTask(taskId, 'verifying', { ...data, uploadedAt: new Date() }, result.message);
+  }
+  
+  /**
+   * 确认已提交发布的任务
+   * 按账号在作品列表中查找确认中的任务：审核通过标记成功，审核未通过或超时标记失败，其余继续等待
+   * @returns 本次确认的任务数和结果统计
+   */
+  async verifyPendingTasks(): Promise<{ checked: number; success: number; failed: number }> {
+    const summary = { checked: 0, success: 0, failed: 0 };
+    
+    const tasks = await prisma.uploadTask.findMany({
+      where: {
+        status: 'verifying',
+        // 上传器仍在确认的任务由上传器处理
+        id: { notIn: Array.from(UploadService.activeUploaders.keys()) },
+      },
+      include: {
+        account: true,
+      },
+      orderBy: {
+        uploadedAt: 'asc',
+      },
+    });
+    
+    // 按账号分组，每个账号只打开一次浏览器
+    const byAccount = new Map<number, typeof tasks>();
+    for (const task of tasks) {
+      byAccount.set(task.platformId, [...(byAccount.get(task.platformId) ?? []), task]);
+    }
+    
+    for (const accountTasks of byAccount.values()) {
+      const account = accountTasks[0].account;
+      const platform = account.platform.toLowerCase() as Platform;
+      
+      const collector = PlatformVideoStatsFactory.isSupported(platform)
+        ? PlatformVideoStatsFactory.getHandler(platform)
+        : undefined;
+      
+      if (!collector?.findPublishedVideo) {
+        console.warn(`⚠️ 平台 ${platform} 不支持发布确认，跳过 ${accountTasks.length} 个任务`);
+        continue;
+      }
+      
+      const service = new PlaywrightService();
+      
+      try {
+        let context: BrowserContext;
+        try {
+          context = await service.launchWithCookie(platform, account.cookiePath);
+        } catch (error) {
+          // 浏览器启动失败（Cookie 失效、浏览器池已满）不影响其他账号，下次继续确认
+          console.error(`确认账号 ${account.accountName} 的发布结果失败:`, error);
+          continue;
+        }
+        
+        for (const task of accountTasks) {
+          try {
+            const status = await this.verifyTask(task, account.id, collector, context);
+            summary.checked++;
+            if (status !== 'verifying') {
+              summary[status]++;
+            }
+          } catch (error) {
+            // 单个任务失败（页面异常、数据更新失败）不影响同一账号的其他任务
+            console.error(`确认任务 #${task.id} 的发布结果失败:`, error);
+          }
+        }
+      } finally {
+        await service.closeBrowser();
+      }
+    }
+    
+    return summary;
+  }
+  
+  /**
+   * 在作品列表中确认一个任务的发布结果
+   * @returns 确认后的任务状态
+   */
+  private async verifyTask(
+    task: UploadTask,
+    accountId: number,
+    collector: IPlatformVideoStatsCollector,
+    context: BrowserContext
+  ): Promise<'verifying' | 'success' | 'failed'> {
+    const submittedAt = task.uploadedAt ?? task.updatedAt;
+    
+    const video = await collector.findPublishedVideo!(context, {
+      videoId: task.videoId ?? undefined,
+      title: task.title,
+      publishedAfter: submittedAt,
+      excludeVideoIds: task.videoId ? undefined : await this.getClaimedVideoIds(accountId, task.id),
+    });
+    // 定时发布的视频到计划时间才会出现在作品列表
+    const outcome = resolveVerificationOutcome(video, { submittedAt, scheduledAt: task.scheduledAt });
+    
+    const data = video
+      ? { videoId: video.videoId, videoUrl: video.videoUrl, reviewStatus: video.reviewStatus }
+      : {};
+    
+    if (outcome.status === 'verifying') {
+      if (video) {
+        await prisma.uploadTask.update({ where: { id: task.id }, data });
+      }
+      return outcome.status;
+    }
+    
+    await this.transitionTask(task.id, outcome.status, {
+      ...data,
+      lastError: outcome.status === 'failed' ? outcome.message : undefined,
+    }, outcome.message);
+    await this.linkAccountVideo(task.id, accountId, video?.videoId);
+    
+    console.log(`${outcome.status === 'success' ? '✅' : '❌'} 任务 #${task.id} ${outcome.message}`);
+    
+    uploadEvents.emitResult(task.id, {
+      success: outcome.status === 'success',
+      message: outcome.message,
+      videoId: video?.videoId,
+      videoUrl: video?.videoUrl,
+      reviewStatus: video?.reviewStatus,
+    });
+    
+    return outcome.status;
+  }
+  
+  /**
+   * 检查任务当前是否可以执行
+   */
+  async checkExecutable(taskId: number): Promise<void> {
+    const task = await prisma.uploadTask.findUnique({
+      where: { id: taskId },
+    });
+    
+    if (!task) {
+      throw new Error(`任务 ${taskId} 不存在`);
+    }
+    
+    this.assertNotRunning(taskId);
+    assertTransition(task.status, 'processing');
+  }
+  
+  /**
+   * 任务已有上传器在执行（包括等待人工处理）时不能再次执行
+   */
+  private assertNotRunning(taskId: number): void {
+    if (UploadService.activeUploaders.has(taskId)) {
+      throw new Error('任务正在执行中');
+    }
+  }
+  
+  /**
+   * 获取正在执行任务的上传器
+   */
+  private getActiveUploader(taskId: number): IUploader {
+    const uploader = UploadService.activeUploaders.get(taskId);
+    
+    if (!uploader) {
+      throw new Error('任务未在执行中');
+    }
+    
+    return uploader;
+  }
+  
+  /**
+   * 获取正在执行任务的上传页面（录屏使用）
+   */
+  getTaskPage(taskId: number): Page {
+    const page = this.getActiveUploader(taskId).getPage();
+    
+    if (!page) {
+      throw new Error('上传页面未打开');
+    }
+    
+    return page;
+  }
+  
+  /**
+   * 获取任务正在等待的人工处理，没有时返回 null
+   */
+  getTaskIntervention(taskId: number): UploadIntervention | null {
+    return this.getActiveUploader(taskId).getIntervention();
+  }
+  
+  /**
+   * 截取正在执行任务的上传页面
+   */
+  async captureTaskScreenshot(taskId: number): Promise<Buffer> {
+    return await this.getActiveUploader(taskId).captureScreenshot();
+  }
+  
+  /**
+   * 把远程操作转发到等待人工处理的上传页面
+   */
+  async sendInterventionInput(taskId: number, input: InterventionInput): Promise<void> {
+    await this.getActiveUploader(taskId).sendInput(input);
+  }
+  
+  /**
+   * 人工处理完成，继续上传
+   */
+  resumeIntervention(taskId: number): void {
+    this.getActiveUploader(taskId).resumeIntervention();
+    console.log(`▶️ 任务 #${taskId} 人工处理完成，继续上传`);
+  }
+  
   /**
    * 取消上传任务
+   * 执行中的任务会先停止上传器；未执行的任务直接标记为已取消
    */
   async cancelTask(taskId: number): Promise<void> {
+    const task = await prisma.uploadTask.findUnique({
+      where: { id: taskId },
+    });
+    
+    if (!task) {
+      throw new Error(`任务 ${taskId} 不存在`);
+    }
+    
+    // 先校验，确认中的任务已提交发布，不能停止上传器
+    assertTransition(task.status, 'cancelled');
+    
     const uploader = UploadService.activeUploaders.get(taskId);
     
     if (uploader) {
-      await uploader.cancel();
+      // 先移除实例，executeTask 据此判断任务是被取消而不是失败
       UploadService.activeUploaders.delete(taskId);
-      await this.updateTaskStatus(taskId, 'failed');
-      console.log(`❌ 任务 #${taskId} 已取消`);
-    } else {
-      throw new Error('任务未在执行中');
+      await uploader.cancel();
     }
+    
+    await this.transitionTask(taskId, 'cancelled', { nextRetryAt: null }, '任务已被取消');
+    console.log(`⏹️ 任务 #${taskId} 已取消`);
+  }
+  
+  /**
+   * 暂停任务，暂停期间调度器不会执行该任务
+   */
+  async pauseTask(taskId: number) {
+    const task = await this.transitionTask(taskId, 'paused', {}, '任务已暂停');
+    console.log(`⏸️ 任务 #${taskId} 已暂停`);
+    return task;
+  }
+  
+  /**
+   * 恢复暂停或取消的任务、提交草稿
+   * 有计划时间或重试时间的任务交给调度器，否则等待手动执行
+   */
+  async resumeTask(taskId: number) {
+    const task = await prisma.uploadTask.findUnique({
+      where: { id: taskId },
+    });
+    
+    if (!task) {
+      throw new Error(`任务 ${taskId} 不存在`);
+    }
+    
+    if (!['paused', 'cancelled', 'draft'].includes(task.status)) {
+      throw new Error('只有暂停、取消或草稿状态的任务可以恢复');
+    }
+    
+    const to: UploadTaskStatus = task.scheduledAt || task.nextRetryAt ? 'scheduled' : 'pending';
+    const updated = await this.transitionTask(taskId, to, {}, '任务已恢复');
+    console.log(`▶️ 任务 #${taskId} 已恢复为 ${to}`);
+    return updated;
   }
   
   /**
@@ -251,21 +1127,4 @@ export class UploadService {
     
     return null;
   }
-  
-  /**
-   * 创建上传器实例
-   */
-  private createUploader(platform: string, cookiePath: string): IUploader {
-    switch (platform.toLowerCase()) {
-      case 'douyin':
-        return new DouyinUploader(cookiePath);
-      
-      // 后续可以添加其他平台
-      // case 'bilibili':
-      //   return new BilibiliUploader(cookiePath);
-      
-      default:
-        throw new Error(`不支持的平台: ${platform}`);
-    }
-  }
 }
@@ -0,0 +1,67 @@
+// 上传任务状态
+export const UPLOAD_TASK_STATUSES = [
+  'draft',       // 草稿，不会被执行
+  'pending',     // 等待手动执行
+  'scheduled',   // 等待到达计划时间（定时发布、自动重试、发布限制推迟），由调度器执行
+  'processing',  // 上传中
+  'needs_attention',  // 上传被验证码、短信验证等打断，等待人工处理
+  'verifying',   // 已提交发布，等待平台确认
+  'success',     // 发布成功
+  'failed',      // 发布失败
+  'cancelled',   // 被操作人员取消
+  'paused',      // 被操作人员暂停
+] as const;
+
+export type UploadTaskStatus = typeof UPLOAD_TASK_STATUSES[number];
+
+// 合法的状态流转
+const TRANSITIONS: Record<UploadTaskStatus, UploadTaskStatus[]> = {
+  draft: ['pending', 'scheduled', 'cancelled'],
+  pending: ['processing', 'scheduled', 'paused', 'cancelled'],
+  scheduled: ['processing', 'pending', 'paused', 'cancelled'],
+  processing: ['needs_attention', 'verifying', 'success', 'failed', 'scheduled', 'cancelled'],
+  needs_attention: ['processing', 'failed', 'cancelled'],
+  verifying: ['success', 'failed'],
+  success: [],
+  failed: ['processing', 'pending', 'scheduled', 'cancelled'],
+  cancelled: ['pending', 'scheduled'],
+  paused: ['pending', 'scheduled', 'cancelled'],
+};
+
+// 状态名称，用于错误提示
+const STATUS_LABELS: Record<UploadTaskStatus, string> = {
+  draft: '草稿',
+  pending: '待执行',
+  scheduled: '已排期',
+  processing: '上传中',
+  needs_attention: '等待人工处理',
+  verifying: '确认中',
+  success: '已成功',
+  failed: '已失败',
+  cancelled: '已取消',
+  paused: '已暂停',
+};
+
+/**
+ * 是否为合法的任务状态
+ */
+export function isUploadTaskStatus(status: string): status is UploadTaskStatus {
+  return (UPLOAD_TASK_STATUSES as readonly string[]).includes(status);
+}
+
+/**
+ * 是否允许从 from 流转到 to
+ */
+export function canTransition(from: string, to: UploadTaskStatus): boolean {
+  return isUploadTaskStatus(from) && TRANSITIONS[from].includes(to);
+}
+
+/**
+ * 校验状态流转，不合法时抛出异常
+ */
+export function assertTransition(from: string, to: UploadTaskStatus): void {
+  if (!canTransition(from, to)) {
+    const fromLabel = isUploadTaskStatus(from) ? STATUS_LABELS[from] : from;
+    throw new Error(`任务${fromLabel}，不能变更为${STATUS_LABELS[to]}`);
+  }
+}
@@ -0,0 +1,397 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegStatic from 'ffmpeg-static';
+import { appConfig, TranscodeProfile } from '../config/loader';
+import { config } from '../config';
+
+// 未配置时使用的默认转码配置（1080x1920 竖屏 H.264）
+export const DEFAULT_TRANSCODE_PROFILE: TranscodeProfile = {
+  videoCodec: 'h264',
+  maxWidth: 1080,
+  maxHeight: 1920,
+  videoBitrateKbps: 6000,
+  audioBitrateKbps: 128,
+  fps: 30,
+  aspect: 'keep',
+  loudnorm: false,
+  targetLoudness: -14,
+};
+
+// 默认缓存保留时间（小时）
+const DEFAULT_CACHE_RETENTION_HOURS = 72;
+
+// 源视频信息（ffprobe）
+export interface SourceVideoInfo {
+  codec?: string;
+  width?: number;
+  height?: number;
+  bitrate?: number;       // bps
+  frameRate?: number;     // r_frame_rate
+  avgFrameRate?: number;  // avg_frame_rate，与 r_frame_rate 不一致时为可变帧率
+  hasAudio: boolean;
+}
+
+export interface TranscodeResult {
+  outputPath: string;   // 上传使用的文件（无需转码时为源文件）
+  transcoded: boolean;  // 是否使用了转码后的文件
+  cached: boolean;      // 是否命中缓存
+  reasons: string[];    // 转码原因
+}
+
+/**
+ * 是否启用上传前转码
+ */
+export function isTranscodeEnabled(transcodeConfig = appConfig.uploads?.transcode): boolean {
+  return transcodeConfig?.enabled === true;
+}
+
+/**
+ * 获取平台的转码配置
+ * 优先级: 平台配置 > 默认配置 > 内置默认值
+ */
+export function resolveTranscodeProfile(
+  platform: string,
+  transcodeConfig = appConfig.uploads?.transcode
+): TranscodeProfile {
+  return {
+    ...DEFAULT_TRANSCODE_PROFILE,
+    ...transcodeConfig?.default,
+    ...transcodeConfig?.platforms?.[platform.toLowerCase()],
+  };
+}
+
+/**
+ * 是否为可变帧率视频（手机拍摄的视频常见）
+ */
+export function isVariableFrameRate(source: SourceVideoInfo): boolean {
+  if (!source.frameRate || !source.avgFrameRate) {
+    return false;
+  }
+  return Math.abs(source.frameRate - source.avgFrameRate) / source.frameRate > 0.01;
+}
+
+/**
+ * 计算输出分辨率，读取不到源分辨率时返回 null
+ * keep: 保持比例，长边/短边分别不超过目标画面的长边/短边
+ * pad / crop: 输出固定为目标画面
+ */
+export function getTargetSize(
+  source: SourceVideoInfo,
+  profile: TranscodeProfile
+): { width: number; height: number } | null {
+  if (profile.aspect !== 'keep') {
+    return { width: profile.maxWidth, height: profile.maxHeight };
+  }
+
+  if (!source.width || !source.height) {
+    return null;
+  }
+
+  const maxLong = Math.max(profile.maxWidth, profile.maxHeight);
+  const maxShort = Math.min(profile.maxWidth, profile.maxHeight);
+  const scale = Math.min(
+    1,
+    maxLong / Math.max(source.width, source.height),
+    maxShort / Math.min(source.width, source.height)
+  );
+
+  // H.264/HEVC (yuv420p) 要求宽高为偶数
+  return {
+    width: Math.floor((source.width * scale) / 2) * 2,
+    height: Math.floor((source.height * scale) / 2) * 2,
+  };
+}
+
+/**
+ * 检查源视频是否需要转码，返回转码原因（空数组表示可以直接上传）
+ */
+export function getTranscodeReasons(source: SourceVideoInfo, profile: TranscodeProfile): string[] {
+  const reasons: string[] = [];
+
+  if (source.codec && source.codec !== profile.videoCodec) {
+    reasons.push(`视频编码 ${source.codec} 转为 ${profile.videoCodec}`);
+  }
+
+  if (isVariableFrameRate(source)) {
+    reasons.push('可变帧率转为固定帧率');
+  } else if (profile.fps && source.frameRate && source.frameRate > profile.fps + 0.5) {
+    reasons.push(`帧率 ${Math.round(source.frameRate)} 超过 ${profile.fps}`);
+  }
+
+  if (source.width && source.height) {
+    if (profile.aspect === 'keep') {
+      const maxLong = Math.max(profile.maxWidth, profile.maxHeight);
+      const maxShort = Math.min(profile.maxWidth, profile.maxHeight);
+      if (Math.max(source.width, source.height) > maxLong || Math.min(source.width, source.height) > maxShort) {
+        reasons.push(`分辨率 ${source.width}x${source.height} 超过 ${maxShort}p`);
+      }
+    } else if (source.width !== profile.maxWidth || source.height !== profile.maxHeight) {
+      const action = profile.aspect === 'pad' ? '补边' : '裁剪';
+      reasons.push(`画面 ${source.width}x${source.height} ${action}为 ${profile.maxWidth}x${profile.maxHeight}`);
+    }
+  }
+
+  // 码率超过目标 1.5 倍才转码，避免对接近目标的视频重复压缩
+  if (source.bitrate && source.bitrate > profile.videoBitrateKbps * 1000 * 1.5) {
+    reasons.push(`码率 ${Math.round(source.bitrate / 1000)}kbps 超过 ${profile.videoBitrateKbps}kbps`);
+  }
+
+  if (profile.loudnorm && source.hasAudio) {
+    reasons.push('响度标准化');
+  }
+
+  return reasons;
+}
+
+/**
+ * 生成视频滤镜
+ */
+export function buildVideoFilters(source: SourceVideoInfo, profile: TranscodeProfile): string[] {
+  const filters: string[] = [];
+  const { maxWidth: width, maxHeight: height } = profile;
+
+  if (profile.aspect === 'pad') {
+    filters.push(`scale=${width}:${height}:force_original_aspect_ratio=decrease`);
+    filters.push(`pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black`);
+  } else if (profile.aspect === 'crop') {
+    filters.push(`scale=${width}:${height}:force_original_aspect_ratio=increase`);
+    filters.push(`crop=${width}:${height}`);
+  } else {
+    const target = getTargetSize(source, profile);
+    if (target) {
+      filters.push(`scale=${target.width}:${target.height}`);
+    }
+  }
+
+  filters.push('setsar=1');
+
+  if (profile.fps) {
+    filters.push(`fps=${profile.fps}`);
+  }
+
+  return filters;
+}
+
+/**
+ * 生成 ffmpeg 输出参数
+ */
+export function buildOutputOptions(source: SourceVideoInfo, profile: TranscodeProfile): string[] {
+  const bitrate = profile.videoBitrateKbps;
+  const options = [
+    '-vf', buildVideoFilters(source, profile).join(','),
+    '-c:v', profile.videoCodec === 'hevc' ? 'libx265' : 'libx264',
+    '-preset', 'medium',
+    '-b:v', `${bitrate}k`,
+    '-maxrate', `${Math.round(bitrate * 1.5)}k`,
+    '-bufsize', `${bitrate * 2}k`,
+    '-pix_fmt', 'yuv420p',
+  ];
+
+  // 苹果设备和部分平台只识别 hvc1 标记的 HEVC
+  if (profile.videoCodec === 'hevc') {
+    options.push('-tag:v', 'hvc1');
+  }
+
+  if (source.hasAudio) {
+    options.push('-c:a', 'aac', '-b:a', `${profile.audioBitrateKbps}k`, '-ar', '48000');
+    if (profile.loudnorm) {
+      options.push('-af', `loudnorm=I=${profile.targetLoudness ?? DEFAULT_TRANSCODE_PROFILE.targetLoudness}:TP=-1.5:LRA=11`);
+    }
+  } else {
+    options.push('-an');
+  }
+
+  // 保留标题等元数据，并把 moov 放到文件头方便网页上传预览
+  options.push('-map_metadata', '0', '-movflags', '+faststart');
+
+  return options;
+}
+
+/**
+ * 视频转码服务
+ * 按平台转码配置把源视频转为平台推荐的编码和画面，转码结果按「源文件内容 + 转码配置」缓存，
+ * 同一视频发布到多个账号时只转码一次
+ */
+export class TranscodeService {
+  // 正在进行的转码（同一缓存文件只转码一次）
+  private static pending: Map<string, Promise<string>> = new Map();
+
+  /**
+   * 转码缓存目录
+   */
+  static getCacheDir(): string {
+    return path.join(config.tempDir, 'transcode');
+  }
+
+  /**
+   * 按平台配置转码，源视频已符合要求时直接返回源文件
+   * @param onProgress 转码进度（0-100）
+   */
+  static async transcode(
+    sourcePath: string,
+    platform: string,
+    onProgress?: (percent: number) => void
+  ): Promise<TranscodeResult> {
+    const profile = resolveTranscodeProfile(platform);
+    const source = await this.probe(sourcePath);
+    const reasons = getTranscodeReasons(source, profile);
+
+    if (reasons.length === 0) {
+      console.log(`✅ 视频已符合 ${platform} 转码配置，无需转码`);
+      return { outputPath: sourcePath, transcoded: false, cached: false, reasons };
+    }
+
+    const cacheDir = this.getCacheDir();
+    await fs.promises.mkdir(cacheDir, { recursive: true });
+    await this.pruneCache();
+
+    const sourceHash = await this.hashFile(sourcePath);
+    const profileHash = crypto.createHash('sha256').update(JSON.stringify(profile)).digest('hex');
+    const cacheKey = `${sourceHash.slice(0, 32)}_${profileHash.slice(0, 8)}`;
+    const outputPath = path.join(cacheDir, `${cacheKey}.mp4`);
+
+    if (fs.existsSync(outputPath)) {
+      // 更新修改时间，避免常用的缓存被清理
+      const now = new Date();
+      await fs.promises.utimes(outputPath, now, now);
+      console.log(`♻️ 使用转码缓存: ${path.basename(outputPath)}`);
+      return { outputPath, transcoded: true, cached: true, reasons };
+    }
+
+    let running = this.pending.get(cacheKey);
+    const cached = running !== undefined;
+    if (!running) {
+      console.log(`🎞️ 开始转码: ${path.basename(sourcePath)}（${reasons.join('，')}）`);
+      running = this.run(sourcePath, outputPath, source, profile, onProgress)
+        .finally(() => this.pending.delete(cacheKey));
+      this.pending.set(cacheKey, running);
+    } else {
+      console.log(`⏳ 同一视频正在转码，等待完成: ${path.basename(sourcePath)}`);
+    }
+
+    await running;
+    return { outputPath, transcoded: true, cached, reasons };
+  }
+
+  /**
+   * 读取源视频信息
+   */
+  static async probe(videoPath: string): Promise<SourceVideoInfo> {
+    if (ffmpegStatic) {
+      ffmpeg.setFfmpegPath(ffmpegStatic as unknown as string);
+    }
+
+    return new Promise((resolve) => {
+      ffmpeg.ffprobe(videoPath, (err, metadata) => {
+        if (err || !metadata) {
+          console.warn(`⚠️ 无法读取视频信息: ${videoPath}`, err?.message);
+          resolve({ hasAudio: false });
+          return;
+        }
+
+        const videoStream = metadata.streams?.find(s => s.codec_type === 'video');
+        const hasAudio = metadata.streams?.some(s => s.codec_type === 'audio') ?? false;
+
+        resolve({
+          codec: videoStream?.codec_name,
+          width: videoStream?.width,
+          height: videoStream?.height,
+          bitrate: Number(videoStream?.bit_rate) || Number(metadata.format?.bit_rate) || undefined,
+          frameRate: parseFrameRate(videoStream?.r_frame_rate),
+          avgFrameRate: parseFrameRate(videoStream?.avg_frame_rate),
+          hasAudio,
+        });
+      });
+    });
+  }
+
+  /**
+   * 执行转码，先写入临时文件，完成后再改名，避免中断时留下不完整的缓存
+   */
+  private static async run(
+    sourcePath: string,
+    outputPath: string,
+    source: SourceVideoInfo,
+    profile: TranscodeProfile,
+    onProgress?: (percent: number) => void
+  ): Promise<string> {
+    const partPath = outputPath.replace(/\.mp4$/, '.part.mp4');
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        let lastPercent = -1;
+
+        ffmpeg(sourcePath)
+          .outputOptions(buildOutputOptions(source, profile))
+          .output(partPath)
+          .on('progress', (progress) => {
+            const percent = Math.min(99, Math.floor(progress.percent ?? 0));
+            if (percent > lastPercent) {
+              lastPercent = percent;
+              onProgress?.(percent);
+            }
+          })
+          .on('end', () => resolve())
+          .on('error', (err) => reject(err))
+          .run();
+      });
+
+      await fs.promises.rename(partPath, outputPath);
+      onProgress?.(100);
+      console.log(`✅ 转码完成: ${path.basename(outputPath)}`);
+
+      return outputPath;
+    } catch (error: any) {
+      await fs.promises.rm(partPath, { force: true });
+      throw new Error(`视频转码失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 计算文件内容的 SHA-256
+   */
+  private static hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash('sha256');
+      fs.createReadStream(filePath)
+        .on('data', (chunk) => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+    });
+  }
+
+  /**
+   * 清理超过保留时间的转码缓存
+   */
+  private static async pruneCache(): Promise<void> {
+    const retentionHours = appConfig.uploads?.transcode?.cacheRetentionHours ?? DEFAULT_CACHE_RETENTION_HOURS;
+    const expireBefore = Date.now() - retentionHours * 60 * 60 * 1000;
+    const cacheDir = this.getCacheDir();
+
+    try {
+      for (const name of await fs.promises.readdir(cacheDir)) {
+        const filePath = path.join(cacheDir, name);
+        const stat = await fs.promises.stat(filePath);
+        if (stat.mtimeMs < expireBefore) {
+          await fs.promises.rm(filePath, { force: true });
+          console.log(`🗑️ 已清理过期转码缓存: ${name}`);
+        }
+      }
+    } catch (error) {
+      console.warn('⚠️ 清理转码缓存失败:', error);
+    }
+  }
+}
+
+function parseFrameRate(value?: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const [num, den] = value.split('/').map(Number);
+  if (!num || !den) {
+    return undefined;
+  }
+  return Math.round((num / den) * 100) / 100;
+}
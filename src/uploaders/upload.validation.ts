@@ -0,0 +1,337 @@
+import { ResourceService } from '../resources/resource.service';
+import { UploaderFactory } from './factory';
+import { UploaderCapabilities, CoverOption } from './base/uploader.types';
+import { isTranscodeEnabled } from './upload.transcode';
+import { Platform } from '../types';
+
+// 视频信息（资源库 getInfo + ffprobe 元数据）
+export interface MediaInfo {
+  duration?: number;  // 时长（秒）
+  width?: number;
+  height?: number;
+  bitrate?: number;   // 码率（bps）
+  codec?: string;     // 视频编码
+  size?: number;      // 文件大小（字节）
+}
+
+// 校验问题
+export interface ValidationIssue {
+  field: 'resource' | 'duration' | 'fileSize' | 'resolution' | 'orientation' | 'bitrate' | 'codec' | 'title' | 'tags' | 'cover' | 'config';
+  message: string;
+  actual?: number | string;
+  limit?: number | string;
+}
+
+// 校验报告
+export interface ValidationReport {
+  valid: boolean;                 // 没有违规项时为 true（警告不影响创建任务）
+  platform: string;
+  violations: ValidationIssue[];  // 违规项：平台会拒绝或上传器会截断
+  warnings: ValidationIssue[];    // 警告：可以发布，但效果可能不理想
+  media: MediaInfo | null;        // 读取到的视频信息（平台不支持或文件无法访问时为 null）
+}
+
+export interface ValidationInput {
+  title: string;
+  tags: string[];
+  media: MediaInfo | null;  // 未读取视频信息时为 null
+  transcode?: boolean;      // 上传前会自动转码（编码、分辨率问题降为警告）
+}
+
+/**
+ * 按平台规则检查视频和发布信息
+ * 违规项（时长、大小、编码、长边、标题长度）会导致发布失败或内容被截断，
+ * 警告项（分辨率、方向、码率、话题数量）只影响发布效果；启用转码时编码和长边问题降为警告
+ */
+export function evaluatePublishRules(
+  platform: string,
+  capabilities: UploaderCapabilities,
+  input: ValidationInput
+): ValidationReport {
+  const violations: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+  const rules = capabilities.media ?? {};
+  const media = input.media;
+  // 转码能修正的问题
+  const fixable = (issue: ValidationIssue) => {
+    if (input.transcode) {
+      warnings.push({ ...issue, message: `${issue.message}，上传前将自动转码` });
+    } else {
+      violations.push(issue);
+    }
+  };
+
+  // 1. 标题和话题
+  const title = input.title.trim();
+  if (!title) {
+    warnings.push({ field: 'title', message: '标题为空，将使用视频元数据或文件名' });
+  } else if (capabilities.maxTitleLength && title.length > capabilities.maxTitleLength) {
+    violations.push({
+      field: 'title',
+      message: `标题 ${title.length} 字，超过平台上限 ${capabilities.maxTitleLength} 字`,
+      actual: title.length,
+      limit: capabilities.maxTitleLength,
+    });
+  }
+
+  const tags = input.tags.filter(tag => tag.trim() !== '');
+  if (capabilities.maxTags !== undefined && tags.length > capabilities.maxTags) {
+    warnings.push({
+      field: 'tags',
+      message: `话题 ${tags.length} 个，超过平台上限 ${capabilities.maxTags} 个，多出的话题不会添加`,
+      actual: tags.length,
+      limit: capabilities.maxTags,
+    });
+  }
+
+  // 2. 视频信息
+  if (!media) {
+    warnings.push({ field: 'resource', message: '无法读取视频信息，已跳过时长、分辨率等检查' });
+    return { valid: violations.length === 0, platform, violations, warnings, media };
+  }
+
+  if (media.duration === undefined && media.width === undefined && media.codec === undefined) {
+    warnings.push({ field: 'resource', message: '无法读取视频元数据，已跳过时长、分辨率、编码等检查' });
+  }
+
+  if (media.duration !== undefined) {
+    if (rules.minDurationSeconds !== undefined && media.duration < rules.minDurationSeconds) {
+      violations.push({
+        field: 'duration',
+        message: `视频时长 ${formatDuration(media.duration)}，短于平台要求的 ${formatDuration(rules.minDurationSeconds)}`,
+        actual: media.duration,
+        limit: rules.minDurationSeconds,
+      });
+    }
+    if (rules.maxDurationSeconds !== undefined && media.duration > rules.maxDurationSeconds) {
+      violations.push({
+        field: 'duration',
+        message: `视频时长 ${formatDuration(media.duration)}，超过平台上限 ${formatDuration(rules.maxDurationSeconds)}`,
+        actual: media.duration,
+        limit: rules.maxDurationSeconds,
+      });
+    }
+  }
+
+  if (media.size !== undefined && rules.maxFileSizeMB !== undefined) {
+    const sizeMB = media.size / 1024 / 1024;
+    if (sizeMB > rules.maxFileSizeMB) {
+      violations.push({
+        field: 'fileSize',
+        message: `文件大小 ${sizeMB.toFixed(1)}MB，超过平台上限 ${rules.maxFileSizeMB}MB`,
+        actual: Math.round(sizeMB * 10) / 10,
+        limit: rules.maxFileSizeMB,
+      });
+    }
+  }
+
+  if (media.codec && rules.allowedCodecs && !rules.allowedCodecs.includes(media.codec)) {
+    fixable({
+      field: 'codec',
+      message: `视频编码 ${media.codec} 不受支持，支持: ${rules.allowedCodecs.join(', ')}`,
+      actual: media.codec,
+      limit: rules.allowedCodecs.join(','),
+    });
+  }
+
+  if (media.width && media.height) {
+    const resolution = `${media.width}x${media.height}`;
+    const longSide = Math.max(media.width, media.height);
+    const shortSide = Math.min(media.width, media.height);
+
+    if (rules.maxLongSide !== undefined && longSide > rules.maxLongSide) {
+      fixable({
+        field: 'resolution',
+        message: `分辨率 ${resolution} 过高，长边不能超过 ${rules.maxLongSide}`,
+        actual: resolution,
+        limit: rules.maxLongSide,
+      });
+    }
+    if (rules.minShortSide !== undefined && shortSide < rules.minShortSide) {
+      warnings.push({
+        field: 'resolution',
+        message: `分辨率 ${resolution} 偏低，建议短边不低于 ${rules.minShortSide}`,
+        actual: resolution,
+        limit: rules.minShortSide,
+      });
+    }
+
+    const orientation = media.height > media.width ? 'portrait' : media.width > media.height ? 'landscape' : 'square';
+    if (rules.orientation && orientation !== rules.orientation) {
+      const labels = { portrait: '竖屏', landscape: '横屏', square: '方形' };
+      warnings.push({
+        field: 'orientation',
+        message: `视频为${labels[orientation]}，平台推荐${labels[rules.orientation]}`,
+        actual: orientation,
+        limit: rules.orientation,
+      });
+    }
+  }
+
+  if (media.bitrate && rules.minBitrateKbps !== undefined) {
+    const bitrateKbps = Math.round(media.bitrate / 1000);
+    if (bitrateKbps < rules.minBitrateKbps) {
+      warnings.push({
+        field: 'bitrate',
+        message: `码率 ${bitrateKbps}kbps 偏低，建议不低于 ${rules.minBitrateKbps}kbps`,
+        actual: bitrateKbps,
+        limit: rules.minBitrateKbps,
+      });
+    }
+  }
+
+  return { valid: violations.length === 0, platform, violations, warnings, media };
+}
+
+/**
+ * 把违规项拼接成一句错误信息
+ */
+export function formatViolations(report: ValidationReport): string {
+  return `视频不符合${report.platform}发布要求: ${report.violations.map(v => v.message).join('；')}`;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${Math.round(seconds * 10) / 10} 秒`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.round(seconds % 60);
+  return rest > 0 ? `${minutes} 分 ${rest} 秒` : `${minutes} 分钟`;
+}
+
+/**
+ * 上传前校验服务
+ * 读取视频信息后按平台规则检查，同一实例内每个视频只读取一次（批量发布时复用同一实例）
+ */
+export class UploadValidationService {
+  private resourceService = new ResourceService();
+  private mediaCache: Map<string, Promise<MediaInfo>> = new Map();
+
+  /**
+   * 校验一个待发布的视频
+   */
+  async validate(data: {
+    platform: Platform;
+    libraryId: number;
+    resourcePath: string;
+    title: string;
+    tags: string[];
+    cover?: CoverOption;
+    config?: Record<string, any>;  // 平台发布选项
+  }): Promise<ValidationReport> {
+    const capabilities = UploaderFactory.getCapabilities(data.platform);
+
+    if (!capabilities) {
+      return {
+        valid: false,
+        platform: data.platform,
+        violations: [{ field: 'resource', message: `平台 ${data.platform} 不支持上传` }],
+        warnings: [],
+        media: null,
+      };
+    }
+
+    let media: MediaInfo;
+    try {
+      media = await this.getMediaInfo(data.libraryId, data.resourcePath);
+    } catch (error: any) {
+      return {
+        valid: false,
+        platform: data.platform,
+        violations: [{ field: 'resource', message: `视频文件无法访问: ${error.message}` }],
+        warnings: [],
+        media: null,
+      };
+    }
+
+    const report = evaluatePublishRules(data.platform, capabilities, {
+      title: data.title,
+      tags: data.tags,
+      media,
+      transcode: isTranscodeEnabled(),
+    });
+
+    if (data.cover) {
+      await this.checkCover(data.cover, data.libraryId, capabilities, report);
+    }
+
+    // 发布选项由平台上传器解析，不合法时作为违规项
+    try {
+      UploaderFactory.parseConfig(data.platform, data.config);
+    } catch (error: any) {
+      report.violations.push({ field: 'config', message: `发布选项错误: ${error.message}` });
+      report.valid = false;
+    }
+
+    return report;
+  }
+
+  /**
+   * 检查封面设置：平台是否支持自定义封面、资源库图片是否存在、截取时间是否在视频时长内
+   */
+  private async checkCover(
+    cover: CoverOption,
+    libraryId: number,
+    capabilities: UploaderCapabilities,
+    report: ValidationReport
+  ): Promise<void> {
+    if (!capabilities.supportsCover) {
+      report.warnings.push({ field: 'cover', message: '平台不支持自定义封面，将使用平台默认封面' });
+      return;
+    }
+
+    if (cover.source === 'library') {
+      try {
+        const info = await this.resourceService.getResourceInfo(cover.libraryId ?? libraryId, cover.path!);
+        if (info.type !== 'image') {
+          report.violations.push({ field: 'cover', message: `封面 ${cover.path} 不是图片` });
+        }
+      } catch (error: any) {
+        report.violations.push({ field: 'cover', message: `封面图片无法访问: ${error.message}` });
+      }
+    }
+
+    const duration = report.media?.duration;
+    if (cover.source === 'frame' && duration !== undefined && cover.time! > duration) {
+      report.violations.push({
+        field: 'cover',
+        message: `封面截取时间 ${cover.time} 秒超过视频时长`,
+        actual: cover.time,
+        limit: duration,
+      });
+    }
+
+    report.valid = report.violations.length === 0;
+  }
+
+  /**
+   * 读取视频信息
+   * 资源不存在时抛出异常；ffprobe 读取失败时只有文件大小等基本信息
+   */
+  async getMediaInfo(libraryId: number, resourcePath: string): Promise<MediaInfo> {
+    const key = `${libraryId}:${resourcePath}`;
+
+    if (!this.mediaCache.has(key)) {
+      const pending = this.probe(libraryId, resourcePath);
+      // 失败时不缓存，方便调用方重试
+      pending.catch(() => this.mediaCache.delete(key));
+      this.mediaCache.set(key, pending);
+    }
+
+    return await this.mediaCache.get(key)!;
+  }
+
+  private async probe(libraryId: number, resourcePath: string): Promise<MediaInfo> {
+    const info = await this.resourceService.getResourceInfo(libraryId, resourcePath);
+    const metadata = await this.resourceService.getVideoMetadata(libraryId, resourcePath);
+
+    return {
+      duration: metadata.duration ?? info.duration,
+      width: metadata.width ?? info.resolution?.width,
+      height: metadata.height ?? info.resolution?.height,
+      bitrate: metadata.bitrate !== undefined ? Number(metadata.bitrate) : undefined,
+      codec: metadata.codec,
+      size: info.size,
+    };
+  }
+}
@@ -0,0 +1,123 @@
+import { appConfig, UploadVerificationPolicy } from '../config/loader';
+import { PlatformVideoData, PublishedVideo, PublishedVideoQuery } from '../types';
+
+// 未配置时使用的默认确认策略
+export const DEFAULT_VERIFICATION_POLICY: UploadVerificationPolicy = {
+  waitSeconds: 120,
+  pollIntervalSeconds: 15,
+  matchTimeoutMinutes: 30,
+  reviewTimeoutHours: 48,
+};
+
+// 平台作品时间与本机时间的允许误差
+const CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+/**
+ * 获取发布确认策略
+ * 优先级: 配置文件 > 内置默认值
+ */
+export function resolveVerificationPolicy(
+  config = appConfig.uploads?.verifyTasks
+): UploadVerificationPolicy {
+  return {
+    waitSeconds: config?.waitSeconds ?? DEFAULT_VERIFICATION_POLICY.waitSeconds,
+    pollIntervalSeconds: config?.pollIntervalSeconds ?? DEFAULT_VERIFICATION_POLICY.pollIntervalSeconds,
+    matchTimeoutMinutes: config?.matchTimeoutMinutes ?? DEFAULT_VERIFICATION_POLICY.matchTimeoutMinutes,
+    reviewTimeoutHours: config?.reviewTimeoutHours ?? DEFAULT_VERIFICATION_POLICY.reviewTimeoutHours,
+  };
+}
+
+/**
+ * 去掉话题和空白，用于比较标题（平台会把话题拼接在标题后面）
+ */
+export function normalizeTitle(text: string): string {
+  return text
+    .replace(/#\S+/g, '')
+    .replace(/\s+/g, '')
+    .toLowerCase();
+}
+
+/**
+ * 在作品列表中找出刚发布的视频
+ * 已知视频ID时按ID查找；否则按标题匹配提交发布之后、未被其他任务确认的作品，有多个时取最早的一个
+ * 标题只有话题时无法区分作品，不按标题匹配
+ */
+export function matchPublishedVideo(
+  videos: PlatformVideoData[],
+  query: PublishedVideoQuery
+): PlatformVideoData | undefined {
+  if (query.videoId) {
+    return videos.find(video => video.videoId === query.videoId);
+  }
+
+  const title = normalizeTitle(query.title);
+  if (!title) {
+    return undefined;
+  }
+
+  const after = query.publishedAfter.getTime() - CLOCK_SKEW_MS;
+  const excluded = new Set(query.excludeVideoIds ?? []);
+
+  return videos
+    .filter(video => video.publishTime && video.publishTime.getTime() >= after)
+    .filter(video => !excluded.has(video.videoId))
+    .filter(video => {
+      const videoTitle = normalizeTitle(video.title ?? '');
+      // 标题可能被上传器或平台截断
+      return videoTitle.startsWith(title) || (videoTitle !== '' && title.startsWith(videoTitle));
+    })
+    .sort((a, b) => a.publishTime!.getTime() - b.publishTime!.getTime())[0];
+}
+
+// 定时确认的结果
+export interface VerificationOutcome {
+  status: 'verifying' | 'success' | 'failed';
+  message: string;
+}
+
+// 任务的发布时间
+export interface VerificationTiming {
+  submittedAt: Date;          // 提交发布的时间
+  scheduledAt?: Date | null;  // 平台定时发布的时间
+}
+
+/**
+ * 根据作品列表中的查找结果决定任务状态
+ * 平台定时发布的视频到计划时间才会发布，超时从计划时间开始计算
+ * @param video 找到的视频，未找到时为 null
+ */
+export function resolveVerificationOutcome(
+  video: PublishedVideo | null,
+  timing: VerificationTiming,
+  policy: UploadVerificationPolicy = resolveVerificationPolicy(),
+  now: Date = new Date()
+): VerificationOutcome {
+  const { submittedAt, scheduledAt } = timing;
+  const startedAt = scheduledAt && scheduledAt > submittedAt ? scheduledAt : submittedAt;
+  const elapsedMs = now.getTime() - startedAt.getTime();
+
+  if (!video) {
+    if (elapsedMs > policy.matchTimeoutMinutes * 60 * 1000) {
+      return {
+        status: 'failed',
+        message: `提交发布 ${policy.matchTimeoutMinutes} 分钟后仍未在作品列表中找到视频，请在创作者中心确认`,
+      };
+    }
+    return { status: 'verifying', message: '已提交发布，等待视频出现在作品列表' };
+  }
+
+  switch (video.reviewStatus) {
+    case 'published':
+      return { status: 'success', message: '平台已确认发布' };
+    case 'rejected':
+      return { status: 'failed', message: '平台审核未通过' };
+    default:
+      if (elapsedMs > policy.reviewTimeoutHours * 60 * 60 * 1000) {
+        return {
+          status: 'failed',
+          message: `审核超过 ${policy.reviewTimeoutHours} 小时仍未完成，请在创作者中心确认`,
+        };
+      }
+      return { status: 'verifying', message: '平台审核中' };
+  }
+}
@@ -0,0 +1,53 @@
+import { AccountVideoModel } from '../../src/models/account-video.model';
+import prisma from '../../src/models/prisma';
+
+jest.mock('../../src/models/prisma', () => ({
+  __esModule: true,
+  default: {
+    accountVideo: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    uploadTask: {
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+const db = prisma as unknown as {
+  accountVideo: { findMany: jest.Mock; upsert: jest.Mock };
+  uploadTask: { updateMany: jest.Mock };
+};
+
+describe('Account Video Model', () => {
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('按视频ID把尚未关联的上传任务关联到作品', async () => {
+    db.uploadTask.updateMany.mockResolvedValue({ count: 2 });
+
+    const linked = await AccountVideoModel.linkUploadTasks(1, { id: 10, videoId: 'v1' } as any);
+
+    expect(linked).toBe(2);
+    expect(db.uploadTask.updateMany).toHaveBeenCalledWith({
+      where: { platformId: 1, videoId: 'v1', accountVideoId: null },
+      data: { accountVideoId: 10 },
+    });
+  });
+
+  it('同步作品时关联发布它们的上传任务', async () => {
+    db.accountVideo.findMany.mockResolvedValue([{ videoId: 'v1' }]);
+    db.accountVideo.upsert.mockImplementation(async ({ create }: any) => ({ id: create.videoId === 'v1' ? 10 : 11, ...create }));
+    db.uploadTask.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+    const result = await AccountVideoModel.upsertVideos(1, [
+      { videoId: 'v1', title: '已同步的视频', metrics: {} },
+      { videoId: 'v2', title: '新视频', metrics: {} },
+      { videoId: '', title: '没有视频ID', metrics: {} },
+    ] as any);
+
+    expect(result).toMatchObject({ created: 1, updated: 1, linked: 1, total: 2 });
+    expect(db.uploadTask.updateMany.mock.calls.map(([args]) => args.data.accountVideoId)).toEqual([10, 11]);
+  });
+});
@@ -0,0 +1,55 @@
+import { PlatformAccount } from '@prisma/client';
+import { AccountService } from '../../src/services/account.service';
+import { AccountModel } from '../../src/models/account.model';
+import { CookieStorageService } from '../../src/services/cookie.storage';
+import { CookieValidator } from '../../src/services/cookie.validator';
+import { networkProfileService } from '../../src/services/network.profile';
+
+const COOKIE_PATH = '/tmp/douyin_import.json';
+const PROFILE = { useProxyPool: true };
+
+describe('Account Import', () => {
+  let createSpy: jest.SpyInstance;
+  let deleteFileSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(CookieStorageService, 'importCookieFile').mockReturnValue(COOKIE_PATH);
+    deleteFileSpy = jest.spyOn(CookieStorageService, 'deleteCookieFile').mockImplementation(() => true);
+    createSpy = jest.spyOn(AccountModel, 'create').mockResolvedValue({ id: 1 } as PlatformAccount);
+    jest.spyOn(AccountModel, 'update').mockImplementation(async (id, data) => ({ id, ...data } as PlatformAccount));
+    // 代理池分配的代理
+    jest.spyOn(networkProfileService, 'resolveProxy').mockResolvedValue({
+      profile: { ...PROFILE, poolProxy: 'hk-1' },
+      proxy: { server: 'http://10.0.0.1:8080' },
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('Cookie 无效时不创建账号，并删除导入的文件', async () => {
+    const validateSpy = jest.spyOn(CookieValidator, 'validate').mockResolvedValue({ isValid: false, message: 'Cookie 已失效，需要重新登录' });
+
+    await expect(new AccountService().importAccount('douyin', '导入账号', '[]', 'editthiscookie', PROFILE))
+      .rejects.toThrow('导入的 Cookie 无效: Cookie 已失效，需要重新登录');
+
+    expect(validateSpy).toHaveBeenCalledWith('douyin', COOKIE_PATH, { proxy: { server: 'http://10.0.0.1:8080' } });
+    expect(createSpy).not.toHaveBeenCalled();
+    expect(deleteFileSpy).toHaveBeenCalledWith(COOKIE_PATH);
+  });
+
+  it('验证通过后创建账号，保存验证时分配的代理', async () => {
+    jest.spyOn(CookieValidator, 'validate').mockResolvedValue({ isValid: true, message: 'Cookie 有效', accountInfo: { username: '抖音用户' } });
+
+    const { account } = await new AccountService().importAccount('douyin', '导入账号', '[]', 'editthiscookie', PROFILE);
+
+    expect(createSpy).toHaveBeenCalledWith(expect.objectContaining({
+      cookiePath: COOKIE_PATH,
+      networkProfile: JSON.stringify({ useProxyPool: true, poolProxy: 'hk-1' }),
+    }));
+    expect(account.username).toBe('抖音用户');
+    expect(deleteFileSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,213 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { BrowserPool } from '../../src/services/browser.pool';
+
+// 模拟 Playwright 的浏览器和上下文
+class FakeContext extends EventEmitter {
+  closed = false;
+
+  constructor(public options: any = {}) {
+    super();
+  }
+
+  pages() {
+    return [];
+  }
+
+  async storageState() {
+    return { cookies: [], origins: [] };
+  }
+
+  async close() {
+    if (!this.closed) {
+      this.closed = true;
+      this.emit('close');
+    }
+  }
+}
+
+class FakeBrowser extends EventEmitter {
+  connected = true;
+
+  constructor(public headless: boolean) {
+    super();
+  }
+
+  async newContext(options: any) {
+    return new FakeContext(options);
+  }
+
+  isConnected() {
+    return this.connected;
+  }
+
+  async close() {
+    this.crash();
+  }
+
+  crash() {
+    if (this.connected) {
+      this.connected = false;
+      this.emit('disconnected');
+    }
+  }
+}
+
+describe('Browser Pool', () => {
+  let tmpDir: string;
+  let launched: FakeBrowser[];
+  let pool: BrowserPool;
+  let networks: Map<string, any>;
+
+  const cookieFile = (name: string) => {
+    const filePath = path.join(tmpDir, `${name}.json`);
+    fs.writeFileSync(filePath, JSON.stringify({ platform: 'mock', id: name, cookies: [], origins: [] }));
+    return filePath;
+  };
+
+  const createPool = (options: Partial<ConstructorParameters<typeof BrowserPool>[0]> = {}) =>
+    new BrowserPool(
+      { maxBrowsers: 1, maxContextsPerBrowser: 2, idleTimeoutSeconds: 60, acquireTimeoutSeconds: 1, headless: true, ...options },
+      async (headless) => {
+        const browser = new FakeBrowser(headless);
+        launched.push(browser);
+        return browser as any;
+      },
+      async (cookiePath) => networks.get(cookiePath) ?? {}
+    );
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'spo-browser-pool-'));
+    launched = [];
+    networks = new Map();
+    pool = createPool();
+  });
+
+  afterEach(async () => {
+    await pool.closeAll();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('同一账号应该复用上下文，不同账号共用浏览器', async () => {
+    const accountA = cookieFile('a');
+    const first = await pool.acquire(accountA);
+    await first.release();
+
+    const second = await pool.acquire(accountA);
+    expect(second.isNew).toBe(false);
+    expect(second.context).toBe(first.context);
+
+    const other = await pool.acquire(cookieFile('b'));
+    expect(other.isNew).toBe(true);
+    expect(launched).toHaveLength(1);
+    expect(pool.getStats()).toEqual({ browsers: 1, contexts: 2, leased: 2 });
+  });
+
+  it('按配置的模式启动浏览器，不同调用方复用同一账号的上下文', async () => {
+    pool = createPool({ headless: false });
+    const accountA = cookieFile('a');
+
+    const upload = await pool.acquire(accountA);
+    await upload.release();
+    const validation = await pool.acquire(accountA);
+
+    expect(validation.context).toBe(upload.context);
+    expect(launched.map(browser => browser.headless)).toEqual([false]);
+  });
+
+  it('应该按账号网络配置创建上下文，配置变化后重新创建', async () => {
+    const accountA = cookieFile('a');
+    networks.set(accountA, { proxy: { server: 'socks5://127.0.0.1:1080' }, locale: 'zh-CN' });
+
+    const first = await pool.acquire(accountA);
+    expect((first.context as any).options).toMatchObject({
+      proxy: { server: 'socks5://127.0.0.1:1080' },
+      locale: 'zh-CN',
+      storageState: { cookies: [], origins: [] },
+    });
+    await first.release();
+
+    networks.set(accountA, { proxy: { server: 'http://127.0.0.1:7890' } });
+    const second = await pool.acquire(accountA);
+    expect(second.isNew).toBe(true);
+    expect((first.context as any).closed).toBe(true);
+    expect((second.context as any).options.proxy).toEqual({ server: 'http://127.0.0.1:7890' });
+  });
+
+  it('指定网络配置时不按账号查找（导入账号时账号记录还不存在）', async () => {
+    const accountA = cookieFile('a');
+    networks.set(accountA, { proxy: { server: 'http://127.0.0.1:7890' } });
+
+    const lease = await pool.acquire(accountA, { network: { proxy: { server: 'socks5://10.0.0.1:1080' } } });
+
+    expect((lease.context as any).options.proxy).toEqual({ server: 'socks5://10.0.0.1:1080' });
+  });
+
+  it('账号的上下文正在使用时应该等待释放', async () => {
+    const accountA = cookieFile('a');
+    const first = await pool.acquire(accountA);
+
+    let acquired = false;
+    const waiting = pool.acquire(accountA).then((lease) => {
+      acquired = true;
+      return lease;
+    });
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(acquired).toBe(false);
+
+    await first.release();
+    const second = await waiting;
+    expect(second.context).toBe(first.context);
+  });
+
+  it('浏览器已满时应该关闭空闲上下文，全部在使用中时等待超时', async () => {
+    pool = createPool({ maxContextsPerBrowser: 1 });
+
+    const first = await pool.acquire(cookieFile('a'));
+    await first.release();
+
+    const second = await pool.acquire(cookieFile('b'));
+    expect((first.context as any).closed).toBe(true);
+    expect(second.isNew).toBe(true);
+
+    await expect(pool.acquire(cookieFile('c'))).rejects.toThrow('等待可用浏览器超时');
+  });
+
+  it('浏览器崩溃后应该重新启动', async () => {
+    const accountA = cookieFile('a');
+    const first = await pool.acquire(accountA);
+    await first.release();
+
+    launched[0].crash();
+    expect(pool.getStats().browsers).toBe(0);
+
+    const second = await pool.acquire(accountA);
+    expect(second.isNew).toBe(true);
+    expect(launched).toHaveLength(2);
+  });
+
+  it('Cookie 文件在使用期间被重新登录覆盖时不写回旧的登录状态', async () => {
+    const accountA = cookieFile('a');
+    const lease = await pool.acquire(accountA);
+
+    const refreshed = { platform: 'mock', id: 'a', cookies: [{ name: 'session', value: 'new' }], origins: [] };
+    fs.writeFileSync(accountA, JSON.stringify(refreshed));
+    fs.utimesSync(accountA, new Date(), new Date(Date.now() + 60 * 1000));
+    await lease.release();
+
+    expect(JSON.parse(fs.readFileSync(accountA, 'utf-8')).cookies).toEqual(refreshed.cookies);
+  });
+
+  it('应该关闭超过空闲时间的上下文和浏览器', async () => {
+    const lease = await pool.acquire(cookieFile('a'));
+    await lease.release();
+
+    await pool.sweepIdle(Date.now() + 61 * 1000);
+
+    expect(pool.getStats()).toEqual({ browsers: 0, contexts: 0, leased: 0 });
+    expect(launched[0].connected).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { chromium } from 'playwright';
+import { BrowserPool } from '../../src/services/browser.pool';
+import { CookieStorageService } from '../../src/services/cookie.storage';
+
+// 需要真实的 Chromium（npx playwright install chromium），未安装时跳过
+const hasChromium = fs.existsSync(chromium.executablePath());
+const describeWithChromium = hasChromium ? describe : describe.skip;
+
+// 本地替身页面：返回浏览器带来的 Cookie 和页面中的 localStorage
+const STAND_IN_PAGE = `<script>
+  document.title = JSON.stringify({ cookie: document.cookie, token: localStorage.getItem('token') });
+</script>`;
+
+describeWithChromium('Browser Storage State', () => {
+  let server: http.Server;
+  let origin: string;
+  let tmpDir: string;
+  let pool: BrowserPool;
+  let requestCookies: string[];
+
+  beforeAll(async () => {
+    requestCookies = [];
+    server = http.createServer((req, res) => {
+      requestCookies.push(req.headers.cookie ?? '');
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.end(STAND_IN_PAGE);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'spo-storage-state-'));
+    pool = new BrowserPool(
+      { maxBrowsers: 1, maxContextsPerBrowser: 2, idleTimeoutSeconds: 60, acquireTimeoutSeconds: 30, headless: true },
+      (headless) => chromium.launch({ headless }),
+      async () => ({})
+    );
+  });
+
+  afterEach(async () => {
+    await pool.closeAll();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('租用的上下文应该同时恢复 Cookie 和 localStorage，归还时写回最新状态', async () => {
+    const cookiePath = path.join(tmpDir, 'account.json');
+    fs.writeFileSync(cookiePath, JSON.stringify({
+      platform: 'mock',
+      id: '',
+      cookies: [{
+        name: 'sessionid',
+        value: 'abc123',
+        domain: '127.0.0.1',
+        path: '/',
+        expires: Math.floor(Date.now() / 1000) + 3600,
+        httpOnly: true,
+        secure: false,
+        sameSite: 'Lax',
+      }],
+      origins: [{ origin, localStorage: [{ name: 'token', value: 'local-token' }] }],
+    }));
+
+    const lease = await pool.acquire(cookiePath);
+    const page = await lease.context.newPage();
+    await page.goto(origin);
+
+    // httpOnly Cookie 只随请求发送，页面脚本读不到
+    expect(requestCookies).toContain('sessionid=abc123');
+    expect(JSON.parse(await page.title())).toEqual({ cookie: '', token: 'local-token' });
+
+    await page.evaluate("localStorage.setItem('token', 'refreshed-token')");
+    await lease.release();
+
+    const saved = CookieStorageService.getStorageState(cookiePath);
+    expect(saved?.cookies.map(cookie => cookie.name)).toEqual(['sessionid']);
+    expect(saved?.origins).toEqual([{ origin, localStorage: [{ name: 'token', value: 'refreshed-token' }] }]);
+  });
+});
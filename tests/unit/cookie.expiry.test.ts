@@ -0,0 +1,86 @@
+import { Cookie } from 'playwright';
+import { PlatformAccount } from '@prisma/client';
+import {
+  cookieExpiryService,
+  DEFAULT_EXPIRING_WITHIN_HOURS,
+  predictCookieExpiry,
+  resolveExpiringWithinHours,
+} from '../../src/services/cookie.expiry';
+import { CookieStorageService } from '../../src/services/cookie.storage';
+import { AccountModel } from '../../src/models/account.model';
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+const hoursFromNow = (hours: number) => NOW.getTime() / 1000 + hours * 3600;
+
+function cookie(name: string, expires: number): Cookie {
+  return { name, value: 'v', domain: '.douyin.com', path: '/', expires, httpOnly: true, secure: true, sameSite: 'None' };
+}
+
+function account(id: number, cookieExpiresAt: Date | null): PlatformAccount {
+  return { id, platform: 'douyin', accountName: `账号${id}`, username: null, cookiePath: `/tmp/${id}.json`, cookieExpiresAt } as PlatformAccount;
+}
+
+describe('Cookie Expiry', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('取关键 Cookie 中最早的过期时间，忽略会话 Cookie 和其他 Cookie', () => {
+    const cookies = [
+      cookie('sessionid', hoursFromNow(24 * 60)),
+      cookie('sid_guard', hoursFromNow(24 * 30)),
+      cookie('uid_tt', -1),
+      cookie('ttwid', hoursFromNow(1)),
+    ];
+
+    expect(predictCookieExpiry(cookies, ['sessionid', 'sid_guard', 'uid_tt'])?.getTime())
+      .toBe(hoursFromNow(24 * 30) * 1000);
+  });
+
+  it('没有配置关键 Cookie 或关键 Cookie 都没有过期时间时无法预测', () => {
+    expect(predictCookieExpiry([cookie('sessionid', hoursFromNow(24))])).toBeNull();
+    expect(predictCookieExpiry([cookie('sessionid', -1), cookie('ttwid', hoursFromNow(24))], ['sessionid'])).toBeNull();
+  });
+
+  it('按平台配置的关键 Cookie 预测账号过期时间', () => {
+    jest.spyOn(CookieStorageService, 'getCookiesArray').mockReturnValue([
+      cookie('sessionid', hoursFromNow(48)),
+      cookie('passport_csrf_token', hoursFromNow(2)),
+    ]);
+
+    expect(cookieExpiryService.forecast('douyin', '/tmp/douyin.json')?.getTime()).toBe(hoursFromNow(48) * 1000);
+  });
+
+  it('提醒窗口未配置或不合法时使用默认值', () => {
+    expect(resolveExpiringWithinHours(undefined)).toBe(DEFAULT_EXPIRING_WITHIN_HOURS);
+    expect(resolveExpiringWithinHours(0)).toBe(DEFAULT_EXPIRING_WITHIN_HOURS);
+    expect(resolveExpiringWithinHours(24)).toBe(24);
+  });
+
+  it('列出窗口内即将过期和已经过期的账号', async () => {
+    const findSpy = jest.spyOn(AccountModel, 'findExpiringBefore').mockResolvedValue([
+      account(1, new Date(hoursFromNow(-2) * 1000)),
+      account(2, new Date(hoursFromNow(12.5) * 1000)),
+    ]);
+
+    const accounts = await cookieExpiryService.getExpiringAccounts(24, NOW);
+
+    expect(findSpy).toHaveBeenCalledWith(new Date(hoursFromNow(24) * 1000));
+    expect(accounts.map(({ id, expired, hoursLeft }) => ({ id, expired, hoursLeft }))).toEqual([
+      { id: 1, expired: true, hoursLeft: 0 },
+      { id: 2, expired: false, hoursLeft: 12.5 },
+    ]);
+  });
+
+  it('过期时间变化时才更新账号', async () => {
+    const expiresAt = new Date(hoursFromNow(48) * 1000);
+    jest.spyOn(cookieExpiryService, 'forecast').mockReturnValue(expiresAt);
+    const updateSpy = jest.spyOn(AccountModel, 'update').mockResolvedValue({} as PlatformAccount);
+
+    await cookieExpiryService.updateAccount(account(1, new Date(expiresAt)));
+    expect(updateSpy).not.toHaveBeenCalled();
+
+    await cookieExpiryService.updateAccount(account(2, null));
+    expect(updateSpy).toHaveBeenCalledWith(2, { cookieExpiresAt: expiresAt });
+  });
+});
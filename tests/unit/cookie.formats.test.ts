@@ -0,0 +1,83 @@
+import { detectCookieFormat, parseCookies, serializeCookies } from '../../src/services/cookie.formats';
+import { CookieFileData } from '../../src/types';
+
+const NETSCAPE = [
+  '# Netscape HTTP Cookie File',
+  '',
+  '.douyin.com\tTRUE\t/\tTRUE\t1893456000\tsessionid\tabc123',
+  '#HttpOnly_creator.douyin.com\tFALSE\t/web\tFALSE\t0\tpassport\tx\ty',
+  '',
+].join('\n');
+
+const EDIT_THIS_COOKIE = [
+  {
+    domain: 'douyin.com',
+    expirationDate: 1893456000.5,
+    hostOnly: false,
+    httpOnly: true,
+    name: 'sessionid',
+    path: '/',
+    sameSite: 'no_restriction',
+    secure: true,
+    session: false,
+    storeId: '0',
+    value: 'abc123',
+    id: 1,
+  },
+  { domain: 'www.douyin.com', hostOnly: true, name: 'ttwid', path: '/', sameSite: 'unspecified', session: true, value: 'v' },
+];
+
+describe('Cookie Formats', () => {
+  it('应该自动识别格式', () => {
+    expect(detectCookieFormat(NETSCAPE)).toBe('netscape');
+    expect(detectCookieFormat(EDIT_THIS_COOKIE)).toBe('editthiscookie');
+    expect(detectCookieFormat(JSON.stringify(EDIT_THIS_COOKIE))).toBe('editthiscookie');
+    expect(detectCookieFormat('{"cookies":[]}')).toBe('storage-state');
+    expect(() => detectCookieFormat('sessionid=abc')).toThrow('无法识别');
+  });
+
+  it('应该解析 Netscape cookies.txt', () => {
+    const { cookies } = parseCookies(NETSCAPE);
+
+    expect(cookies).toEqual([
+      { name: 'sessionid', value: 'abc123', domain: '.douyin.com', path: '/', expires: 1893456000, httpOnly: false, secure: true, sameSite: 'Lax' },
+      { name: 'passport', value: 'x\ty', domain: 'creator.douyin.com', path: '/web', expires: -1, httpOnly: true, secure: false, sameSite: 'Lax' },
+    ]);
+    expect(() => parseCookies('.douyin.com\tTRUE\t/', 'netscape')).toThrow('第 1 行格式错误');
+  });
+
+  it('应该解析 EditThisCookie 导出', () => {
+    const { cookies } = parseCookies(EDIT_THIS_COOKIE);
+
+    expect(cookies[0]).toMatchObject({ domain: '.douyin.com', expires: 1893456000.5, sameSite: 'None', secure: true, httpOnly: true });
+    expect(cookies[1]).toMatchObject({ domain: 'www.douyin.com', expires: -1, sameSite: 'Lax' });
+  });
+
+  it('应该解析 storageState 并保留 localStorage', () => {
+    const state = {
+      cookies: [{ name: 'a', value: '1', domain: '.douyin.com', path: '/', expires: -1, httpOnly: false, secure: false, sameSite: 'Lax' }],
+      origins: [{ origin: 'https://creator.douyin.com', localStorage: [{ name: 'k', value: 'v' }] }, { broken: true }],
+    };
+
+    const result = parseCookies(JSON.stringify(state));
+    expect(result.cookies).toEqual(state.cookies);
+    expect(result.origins).toEqual([state.origins[0]]);
+    expect(() => parseCookies({ cookies: [] })).toThrow('没有可导入的 Cookie');
+    expect(() => parseCookies([{ value: 'x', domain: 'a.com' }])).toThrow('缺少 name');
+  });
+
+  it('导出后再导入应该得到相同的 Cookie', () => {
+    const data: CookieFileData = {
+      platform: 'douyin',
+      id: '',
+      cookies: parseCookies(NETSCAPE).cookies,
+      origins: [],
+    };
+
+    for (const format of ['storage-state', 'netscape', 'editthiscookie'] as const) {
+      const exported = serializeCookies(data, format);
+      expect(parseCookies(exported.content, format).cookies).toEqual(data.cookies);
+    }
+    expect(serializeCookies(data, 'netscape').contentType).toContain('text/plain');
+  });
+});
@@ -0,0 +1,39 @@
+import { CronJobManager } from '../../src/services/cron.service';
+import { UploadService } from '../../src/uploaders/upload.service';
+
+// 资源库依赖 ESM 模块且需要数据库，测试中不使用
+jest.mock('../../src/resources/resource.service', () => ({
+  ResourceService: class {},
+}));
+
+describe('Cron Jobs', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('上一次确认发布结果尚未结束时跳过本次确认', async () => {
+    let finish!: () => void;
+    const verifySpy = jest.spyOn(UploadService.prototype, 'verifyPendingTasks').mockImplementation(
+      () => new Promise(resolve => {
+        finish = () => resolve({ checked: 1, success: 1, failed: 0 });
+      })
+    );
+    const manager = CronJobManager.getInstance() as any;
+
+    const first = manager.verifyUploadTasks();
+    await manager.verifyUploadTasks();
+    expect(verifySpy).toHaveBeenCalledTimes(1);
+
+    finish();
+    await first;
+
+    // 上一次结束后可以再次确认
+    verifySpy.mockResolvedValue({ checked: 0, success: 0, failed: 0 });
+    await manager.verifyUploadTasks();
+    expect(verifySpy).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,51 @@
+import { parseDouyinPublishOptions } from '../../src/uploaders/platforms/douyin/douyin.options';
+import { UploaderFactory } from '../../src/uploaders/factory';
+
+// 资源库依赖 ESM 模块且需要数据库，测试中不使用
+jest.mock('../../src/resources/resource.service', () => ({
+  ResourceService: class {},
+}));
+
+describe('Douyin Publish Options', () => {
+  it('未传或没有任何选项时返回 undefined', () => {
+    expect(parseDouyinPublishOptions(undefined)).toBeUndefined();
+    expect(parseDouyinPublishOptions({ location: ' ', unknown: 1 })).toBeUndefined();
+    expect(parseDouyinPublishOptions({ visibility: null, declaration: null })).toBeUndefined();
+  });
+
+  it('应该只保留已知选项', () => {
+    expect(parseDouyinPublishOptions({
+      visibility: 'private',
+      location: ' 上海 ',
+      syncToThirdParty: false,
+      allowDownload: true,
+      mix: '旅行合集',
+      declaration: 'ai_generated',
+      unknown: 1,
+    })).toEqual({
+      visibility: 'private',
+      location: '上海',
+      syncToThirdParty: false,
+      allowDownload: true,
+      mix: '旅行合集',
+      declaration: 'ai_generated',
+    });
+  });
+
+  it('选项不合法时应该抛出异常', () => {
+    expect(() => parseDouyinPublishOptions('private')).toThrow('发布选项必须是对象');
+    expect(() => parseDouyinPublishOptions({ visibility: 'hidden' })).toThrow('visibility');
+    expect(() => parseDouyinPublishOptions({ syncToThirdParty: 'no' })).toThrow('syncToThirdParty');
+    expect(() => parseDouyinPublishOptions({ mix: 'x'.repeat(51) })).toThrow('mix');
+    expect(() => parseDouyinPublishOptions({ declaration: 'fake' })).toThrow('declaration');
+    expect(() => parseDouyinPublishOptions({ visibility: 'toString' })).toThrow('visibility');
+    expect(() => parseDouyinPublishOptions({ declaration: 'constructor' })).toThrow('declaration');
+  });
+
+  it('上传器工厂按平台解析发布选项，平台没有发布选项时忽略', () => {
+    expect(UploaderFactory.parseConfig('douyin', { visibility: 'friends' })).toEqual({ visibility: 'friends' });
+    expect(UploaderFactory.parseConfig('mock', { visibility: 'friends' })).toBeUndefined();
+    expect(() => UploaderFactory.parseConfig('douyin', { visibility: 'hidden' })).toThrow('visibility');
+    expect(UploaderFactory.getCapabilities('douyin')?.publishOptions).toContain('mix');
+  });
+});
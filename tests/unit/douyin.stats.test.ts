@@ -0,0 +1,78 @@
+import { DouyinVideoStatsCollector } from '../../src/platforms/stats/douyin.stats';
+
+const at = (day: number) => Date.UTC(2026, 0, day) / 1000;
+
+// 作品列表每页 20 个，按发布时间倒序
+function works(prefix: string, count: number, firstDay: number) {
+  return Array.from({ length: count }, (_, i) => ({ aweme_id: `${prefix}${i}`, desc: `作品${i}`, create_time: at(firstDay - i) }));
+}
+
+// 模拟作品管理页，按状态和游标返回作品列表
+function createContext(lists: Record<number, any[]>) {
+  const requests: Array<{ status: number; cursor: number }> = [];
+
+  const context = {
+    newPage: async () => ({
+      goto: async () => undefined,
+      close: async () => undefined,
+      request: {
+        get: async (url: string) => {
+          const params = new URL(url).searchParams;
+          const status = Number(params.get('status'));
+          const cursor = Number(params.get('max_cursor'));
+          requests.push({ status, cursor });
+
+          const list = lists[status] ?? [];
+          return {
+            ok: () => true,
+            json: async () => ({
+              aweme_list: list.slice(cursor, cursor + 20),
+              max_cursor: cursor + 20,
+              has_more: cursor + 20 < list.length,
+            }),
+          };
+        },
+      },
+    }),
+  };
+
+  return { context: context as any, requests };
+}
+
+describe('Douyin Video Stats', () => {
+  const collector = new DouyinVideoStatsCollector();
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('未通过列表中较早的作品也能确认审核状态', async () => {
+    const target = { aweme_id: 'target', desc: '目标视频', create_time: at(1) };
+    const rejected = [...works('r', 25, 40), target];
+    const { context } = createContext({ 0: [target], 3: rejected });
+
+    const video = await collector.findPublishedVideo(context, { videoId: 'target', title: '目标视频', publishedAfter: new Date(0) });
+
+    expect(video?.reviewStatus).toBe('rejected');
+  });
+
+  it('翻到比视频更早发布的作品后不再翻页', async () => {
+    const target = { aweme_id: 'target', desc: '目标视频', create_time: at(30) };
+    const { context, requests } = createContext({
+      0: [target],
+      1: [...works('p', 40, 80), target],
+      3: works('r', 60, 29),
+    });
+
+    const video = await collector.findPublishedVideo(context, { videoId: 'target', title: '目标视频', publishedAfter: new Date(0) });
+
+    expect(video?.reviewStatus).toBe('published');
+    // 未通过列表第一页就比视频更早；已发布列表翻到第三页找到视频
+    expect(requests.filter(request => request.status === 3)).toHaveLength(1);
+    expect(requests.filter(request => request.status === 1).map(request => request.cursor)).toEqual([0, 20, 40]);
+  });
+});
@@ -0,0 +1,125 @@
+import { EventEmitter } from 'events';
+import { LoginSessionManager, NewLoginSession } from '../../src/services/login.sessions';
+
+// 模拟登录浏览器上下文：支持 page / close 事件
+class FakeContext extends EventEmitter {
+  pages() {
+    return [];
+  }
+}
+
+function createSession(sessionId: string, onClose = jest.fn()) {
+  const context = new FakeContext();
+  const service = { closeBrowser: jest.fn(async () => undefined) };
+  const data = {
+    sessionId,
+    platform: 'douyin',
+    accountName: '测试账号',
+    mode: 'browser',
+    service,
+    context,
+    profile: null,
+    onClose,
+  } as unknown as NewLoginSession;
+  return { data, context, service, onClose };
+}
+
+describe('Login Session Manager', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('应该列出会话及预计关闭时间', () => {
+    const manager = new LoginSessionManager({ idleTimeoutMinutes: 10 });
+    const { data } = createSession('douyin_1');
+
+    manager.add(data);
+    const [info] = manager.list();
+
+    expect(info).toMatchObject({ sessionId: 'douyin_1', platform: 'douyin', mode: 'browser', state: 'active' });
+    expect(info.expiresAt.getTime() - info.lastActiveAt.getTime()).toBe(10 * 60 * 1000);
+    expect(info).not.toHaveProperty('service');
+  });
+
+  it('无操作超时后关闭浏览器，有操作时重新计时', async () => {
+    const manager = new LoginSessionManager({ idleTimeoutMinutes: 10 });
+    const { data, service, onClose } = createSession('douyin_1');
+    manager.add(data);
+
+    jest.advanceTimersByTime(9 * 60 * 1000);
+    manager.touch('douyin_1');
+    jest.advanceTimersByTime(9 * 60 * 1000);
+    expect(service.closeBrowser).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(60 * 1000);
+    await Promise.resolve();
+    expect(service.closeBrowser).toHaveBeenCalledTimes(1);
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(manager.get('douyin_1')).toBeUndefined();
+  });
+
+  it('正在保存账号的会话不会因超时关闭', () => {
+    const manager = new LoginSessionManager({ idleTimeoutMinutes: 1 });
+    const { data, service } = createSession('douyin_1');
+    manager.add(data);
+
+    manager.setState('douyin_1', 'finishing');
+    jest.advanceTimersByTime(2 * 60 * 1000);
+
+    expect(service.closeBrowser).not.toHaveBeenCalled();
+    expect(manager.get('douyin_1')?.state).toBe('finishing');
+  });
+
+  it('保存失败回到等待登录后重新开始超时计时', async () => {
+    const manager = new LoginSessionManager({ idleTimeoutMinutes: 1 });
+    const { data, service } = createSession('douyin_1');
+    manager.add(data);
+
+    manager.setState('douyin_1', 'finishing');
+    jest.advanceTimersByTime(2 * 60 * 1000);
+    manager.setState('douyin_1', 'active');
+
+    jest.advanceTimersByTime(59 * 1000);
+    expect(service.closeBrowser).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+    await Promise.resolve();
+    expect(service.closeBrowser).toHaveBeenCalledTimes(1);
+  });
+
+  it('浏览器被关闭时移除会话，已移除的会话不受影响', () => {
+    const manager = new LoginSessionManager({ idleTimeoutMinutes: 10 });
+    const first = createSession('douyin_1');
+    const second = createSession('douyin_2');
+    manager.add(first.data);
+    manager.add(second.data);
+
+    first.context.emit('close');
+    expect(manager.get('douyin_1')).toBeUndefined();
+    expect(first.onClose).toHaveBeenCalledTimes(1);
+
+    manager.remove('douyin_2');
+    second.context.emit('close');
+    expect(second.onClose).not.toHaveBeenCalled();
+  });
+
+  it('closeAll 应该关闭所有会话', async () => {
+    const manager = new LoginSessionManager({ idleTimeoutMinutes: 10 });
+    const first = createSession('douyin_1');
+    const second = createSession('douyin_2');
+    manager.add(first.data);
+    manager.add(second.data);
+
+    await manager.closeAll();
+
+    expect(first.service.closeBrowser).toHaveBeenCalledTimes(1);
+    expect(second.service.closeBrowser).toHaveBeenCalledTimes(1);
+    expect(manager.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,111 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { appConfig } from '../../src/config/loader';
+import { BaseUploader } from '../../src/uploaders/base/base.uploader';
+import { MockUploader } from '../../src/uploaders/platforms/mock/mock.uploader';
+import { MockVideoStore } from '../../src/uploaders/platforms/mock/mock.store';
+import { MockPlatformConfig } from '../../src/uploaders/platforms/mock/mock.config';
+import { UploadTaskData } from '../../src/uploaders/base/uploader.types';
+
+// 资源库依赖 ESM 模块且需要数据库，测试中不使用
+jest.mock('../../src/resources/resource.service', () => ({
+  ResourceService: class {},
+}));
+
+describe('Mock Uploader', () => {
+  const originalMockConfig = appConfig.mockPlatform;
+  let tmpDir: string;
+  let cookieFile: string;
+
+  const createTask = (taskId: number, title: string): UploadTaskData => ({
+    taskId,
+    accountId: 1,
+    libraryId: 1,
+    resourcePath: '/videos/demo.mp4',
+    title,
+    description: '描述',
+    tags: ['测试'],
+  });
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-uploader-'));
+    cookieFile = path.join(tmpDir, 'mock.json');
+    fs.writeFileSync(cookieFile, JSON.stringify({
+      platform: 'mock',
+      id: 'mock_user_test',
+      cookies: [{
+        name: MockPlatformConfig.userIdCookie,
+        value: 'mock_user_test',
+        domain: MockPlatformConfig.cookieDomain,
+        path: '/',
+        expires: -1,
+        httpOnly: true,
+        secure: false,
+        sameSite: 'Lax',
+      }],
+      origins: [],
+    }));
+
+    // 资源路径不经过资源库，直接指向临时文件
+    const videoPath = path.join(tmpDir, 'demo.mp4');
+    fs.writeFileSync(videoPath, '');
+    jest.spyOn(BaseUploader.prototype as any, 'getResourcePath').mockResolvedValue(videoPath);
+    jest.spyOn(BaseUploader.prototype as any, 'getVideoMetadata').mockResolvedValue({});
+  });
+
+  beforeEach(() => {
+    MockVideoStore.clear();
+    appConfig.mockPlatform = {
+      enabled: true,
+      upload: { stepDelayMs: 0, failureRate: 0, failTitleKeyword: '[fail]', failFirstAttempts: 0 },
+    };
+  });
+
+  afterAll(() => {
+    appConfig.mockPlatform = originalMockConfig;
+    jest.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('应该模拟发布并返回视频ID', async () => {
+    const uploader = new MockUploader(cookieFile);
+    const result = await uploader.upload(createTask(1, '测试视频'));
+
+    expect(result.success).toBe(true);
+    expect(result.videoId).toMatch(/^mock_/);
+    expect(uploader.getProgress()).toMatchObject({ status: 'success', percentage: 100 });
+
+    const videos = MockVideoStore.getVideoStats('mock_user_test');
+    expect(videos.map(v => v.videoId)).toEqual([result.videoId]);
+  });
+
+  it('前 N 次执行应该按规则失败', async () => {
+    appConfig.mockPlatform!.upload!.failFirstAttempts = 1;
+
+    const first = await new MockUploader(cookieFile).upload(createTask(2, '重试视频'));
+    const second = await new MockUploader(cookieFile).upload(createTask(2, '重试视频'));
+
+    expect(first.success).toBe(false);
+    expect(second.success).toBe(true);
+  });
+
+  it('标题包含失败关键词时应该上传失败', async () => {
+    const result = await new MockUploader(cookieFile).upload(createTask(3, '这个会失败 [fail]'));
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('[fail]');
+    expect(MockVideoStore.getVideoStats('mock_user_test')).toHaveLength(0);
+  });
+
+  it('应该推送进度更新', async () => {
+    const uploader = new MockUploader(cookieFile);
+    const percentages: number[] = [];
+    uploader.onProgress(progress => percentages.push(progress.percentage));
+
+    await uploader.upload(createTask(4, '进度视频'));
+
+    expect(percentages[0]).toBe(0);
+    expect(percentages[percentages.length - 1]).toBe(100);
+  });
+});
@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import {
+  normalizeNetworkProfile,
+  parseNetworkProfile,
+  redactAccount,
+  serializeNetworkProfile,
+  toContextOptions,
+} from '../../src/services/network.profile';
+import { pickProxy } from '../../src/services/proxy.pool';
+import { secrets } from '../../src/services/secrets.service';
+
+describe('Network Profile', () => {
+  describe('normalizeNetworkProfile', () => {
+    it('未传或没有任何设置时返回 null', () => {
+      expect(normalizeNetworkProfile(undefined)).toBeNull();
+      expect(normalizeNetworkProfile(null)).toBeNull();
+      expect(normalizeNetworkProfile({ useProxyPool: false, unknown: 1 })).toBeNull();
+    });
+
+    it('应该只保留已知字段', () => {
+      expect(normalizeNetworkProfile({
+        proxy: { server: 'socks5://127.0.0.1:1080', username: 'user', password: 'pass', extra: true },
+        userAgent: ' Mozilla/5.0 ',
+        locale: 'zh-CN',
+        timezoneId: 'Asia/Shanghai',
+        viewport: { width: 1920, height: 1080 },
+        geolocation: { latitude: 31.23, longitude: 121.47 },
+        unknown: 1,
+      })).toEqual({
+        proxy: { server: 'socks5://127.0.0.1:1080', username: 'user', password: 'pass' },
+        userAgent: 'Mozilla/5.0',
+        locale: 'zh-CN',
+        timezoneId: 'Asia/Shanghai',
+        viewport: { width: 1920, height: 1080 },
+        geolocation: { latitude: 31.23, longitude: 121.47 },
+      });
+    });
+
+    it('参数不合法时应该抛出异常', () => {
+      expect(() => normalizeNetworkProfile('proxy')).toThrow('网络配置必须是对象');
+      expect(() => normalizeNetworkProfile({ proxy: { server: '127.0.0.1:7890' } })).toThrow('代理');
+      expect(() => normalizeNetworkProfile({ proxy: { server: 'ftp://127.0.0.1:21' } })).toThrow('不支持的代理协议');
+      expect(() => normalizeNetworkProfile({ timezoneId: 'Mars/Base' })).toThrow('时区');
+      expect(() => normalizeNetworkProfile({ locale: 'chinese' })).toThrow('语言');
+      expect(() => normalizeNetworkProfile({ viewport: { width: 100, height: 1080 } })).toThrow('viewport');
+      expect(() => normalizeNetworkProfile({ geolocation: { latitude: 91, longitude: 0 } })).toThrow('latitude');
+    });
+  });
+
+  it('parseNetworkProfile 遇到损坏的 JSON 时视为未配置', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(parseNetworkProfile(null)).toBeNull();
+    expect(parseNetworkProfile('{broken')).toBeNull();
+    expect(parseNetworkProfile('{"locale":"en-US"}')).toEqual({ locale: 'en-US' });
+  });
+
+  describe('代理密码', () => {
+    const profile = { proxy: { server: 'http://10.0.0.1:8080', username: 'user', password: 'proxy-secret' }, locale: 'zh-CN' };
+
+    afterEach(() => {
+      secrets.useKey(null);
+    });
+
+    it('配置主密钥后加密保存，读取时自动解密', () => {
+      secrets.useKey(crypto.randomBytes(32));
+
+      const json = serializeNetworkProfile(profile)!;
+      expect(json).not.toContain('proxy-secret');
+      expect(JSON.parse(json).proxy.username).toBe('user');
+      expect(parseNetworkProfile(json)).toEqual(profile);
+      expect(serializeNetworkProfile(null)).toBeNull();
+    });
+
+    it('接口返回账号时隐藏代理密码', () => {
+      const account = { id: 1, networkProfile: serializeNetworkProfile(profile) };
+
+      expect(JSON.parse(redactAccount(account).networkProfile!).proxy).toEqual({
+        server: 'http://10.0.0.1:8080',
+        username: 'user',
+        password: '******',
+      });
+      expect(parseNetworkProfile(account.networkProfile)).toEqual(profile);
+
+      const withoutProxy = { id: 2, networkProfile: '{"locale":"en-US"}' };
+      expect(redactAccount(withoutProxy)).toBe(withoutProxy);
+    });
+  });
+
+  it('toContextOptions 应该转换为 Playwright 上下文参数', () => {
+    expect(toContextOptions(null)).toEqual({});
+    expect(toContextOptions(
+      { useProxyPool: true, locale: 'zh-CN', geolocation: { latitude: 31.23, longitude: 121.47 } },
+      { server: 'http://10.0.0.1:8080' }
+    )).toEqual({
+      proxy: { server: 'http://10.0.0.1:8080' },
+      locale: 'zh-CN',
+      geolocation: { latitude: 31.23, longitude: 121.47 },
+      permissions: ['geolocation'],
+    });
+  });
+
+  it('pickProxy 应该选择分配账号最少的可用代理', () => {
+    const proxies = [
+      { name: 'a', server: 'http://10.0.0.1:8080' },
+      { name: 'b', server: 'http://10.0.0.2:8080' },
+      { name: 'c', server: 'http://10.0.0.3:8080' },
+    ];
+    const loads = new Map([['a', 2], ['b', 1]]);
+
+    expect(pickProxy(proxies, loads, () => true)?.name).toBe('c');
+    expect(pickProxy(proxies, loads, name => name !== 'c')?.name).toBe('b');
+    expect(pickProxy(proxies, new Map(), () => true)?.name).toBe('a');
+    expect(pickProxy(proxies, loads, () => false)).toBeUndefined();
+  });
+});
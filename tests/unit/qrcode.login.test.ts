@@ -0,0 +1,134 @@
+import { QrCodeLoginWatcher } from '../../src/services/qrcode.login';
+import { loginEvents, LoginEvent } from '../../src/services/login.events';
+import { IPlatformLogin } from '../../src/types';
+
+// 模拟登录页：visible 中的选择器可见，点击刷新按钮后换一张二维码
+class FakePage {
+  visible = new Set<string>(['#qrcode']);
+  clicks: string[] = [];
+  qrVersion = 1;
+
+  locator(selector: string) {
+    const element = {
+      isVisible: async () => this.visible.has(selector),
+      click: async () => {
+        this.clicks.push(selector);
+        if (selector === '#refresh') {
+          this.visible.delete('#expired');
+          this.qrVersion++;
+        }
+      },
+      screenshot: async () => Buffer.from(`qrcode-${this.qrVersion}`),
+    };
+    return { first: () => element };
+  }
+
+  isClosed() {
+    return false;
+  }
+}
+
+function createWatcher(page: FakePage, onConfirmed = jest.fn(async () => 42)) {
+  let loggedIn = false;
+  const handler = {
+    platform: 'douyin',
+    qrCode: {
+      selector: '#qrcode',
+      scannedSelector: '#scanned',
+      expiredSelector: '#expired',
+      refreshSelector: '#refresh',
+    },
+    checkLoginStatus: async () => loggedIn,
+  } as unknown as IPlatformLogin;
+  const context = { pages: () => [page] } as any;
+
+  const watcher = new QrCodeLoginWatcher('douyin_1', context, handler, onConfirmed);
+  return { watcher, onConfirmed, login: () => { loggedIn = true; } };
+}
+
+describe('QrCode Login Watcher', () => {
+  let events: LoginEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    events = [];
+    unsubscribe = loginEvents.subscribe('douyin_1', event => events.push(event));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    jest.restoreAllMocks();
+  });
+
+  it('平台未配置二维码时应该抛出异常', () => {
+    const handler = { platform: 'bilibili', checkLoginStatus: async () => false } as unknown as IPlatformLogin;
+    expect(() => new QrCodeLoginWatcher('s', { pages: () => [] } as any, handler, async () => 1))
+      .toThrow('平台 bilibili 不支持扫码登录');
+  });
+
+  it('截取二维码，图片变化时才发布 qrcode 事件', async () => {
+    const page = new FakePage();
+    const { watcher } = createWatcher(page);
+
+    await watcher.poll();
+    await watcher.poll();
+
+    expect(watcher.getQrCode()?.toString()).toBe('qrcode-1');
+    expect(watcher.getState()).toMatchObject({ status: 'waiting', hasQrCode: true });
+    expect(events.filter(event => event.type === 'qrcode')).toHaveLength(1);
+  });
+
+  it('扫码后进入 scanned，手机确认后自动保存账号', async () => {
+    const page = new FakePage();
+    const { watcher, onConfirmed, login } = createWatcher(page);
+
+    page.visible.add('#scanned');
+    expect(await watcher.poll()).toBe('scanned');
+
+    login();
+    expect(await watcher.poll()).toBe('confirmed');
+    expect(onConfirmed).toHaveBeenCalledTimes(1);
+    expect(watcher.getState()).toMatchObject({ status: 'confirmed', accountId: 42 });
+
+    const statuses = events.filter(event => event.type === 'status');
+    expect(statuses.map(event => event.type === 'status' && event.status)).toEqual(['scanned', 'confirmed']);
+    expect(statuses[1]).toMatchObject({ accountId: 42 });
+
+    // 登录结束后不再检查
+    await watcher.poll();
+    expect(onConfirmed).toHaveBeenCalledTimes(1);
+  });
+
+  it('二维码过期时自动刷新，次数用完后结束', async () => {
+    const page = new FakePage();
+    const { watcher } = createWatcher(page);
+
+    page.visible.add('#expired');
+    expect(await watcher.poll()).toBe('waiting');
+    expect(page.clicks).toEqual(['#refresh']);
+    expect(watcher.getQrCode()?.toString()).toBe('qrcode-2');
+    expect(watcher.getState().refreshes).toBe(1);
+
+    for (let i = 0; i < 4; i++) {
+      page.visible.add('#expired');
+      await watcher.poll();
+    }
+
+    page.visible.add('#expired');
+    expect(await watcher.poll()).toBe('expired');
+    expect(page.clicks).toHaveLength(5);
+    expect(watcher.getState().message).toContain('重新开始登录');
+  });
+
+  it('保存账号失败时状态为 failed', async () => {
+    const page = new FakePage();
+    const { watcher, login } = createWatcher(page, jest.fn(async () => {
+      throw new Error('数据库不可用');
+    }));
+
+    login();
+    expect(await watcher.poll()).toBe('failed');
+    expect(watcher.getState().message).toContain('数据库不可用');
+  });
+});
@@ -0,0 +1,116 @@
+import { EventEmitter } from 'events';
+import { ScreencastService, ScreencastViewer } from '../../src/services/screencast.service';
+
+// 模拟 Playwright 的 CDP 会话和页面
+class FakeSession extends EventEmitter {
+  sent: string[] = [];
+  detached = false;
+
+  async send(method: string) {
+    this.sent.push(method);
+  }
+
+  async detach() {
+    this.detached = true;
+  }
+
+  frame(data: string) {
+    this.emit('Page.screencastFrame', { data: Buffer.from(data).toString('base64'), sessionId: 1 });
+  }
+}
+
+class FakePage extends EventEmitter {
+  closed = false;
+  sessions: FakeSession[] = [];
+
+  context() {
+    return {
+      newCDPSession: async () => {
+        const session = new FakeSession();
+        this.sessions.push(session);
+        return session;
+      },
+    };
+  }
+
+  isClosed() {
+    return this.closed;
+  }
+
+  close() {
+    this.closed = true;
+    this.emit('close');
+  }
+}
+
+function createViewer() {
+  const frames: string[] = [];
+  const viewer: ScreencastViewer & { ended: boolean } = {
+    ended: false,
+    onFrame: (frame) => frames.push(frame.toString()),
+    onEnd: () => {
+      viewer.ended = true;
+    },
+  };
+  return { viewer, frames };
+}
+
+describe('Screencast Service', () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+  it('同一页面的观看者共用一个录屏，最后一个观看者离开时停止', async () => {
+    const service = new ScreencastService();
+    const page = new FakePage();
+    const a = createViewer();
+    const b = createViewer();
+
+    const unwatchA = await service.watch(page as any, a.viewer);
+    page.sessions[0].frame('frame-1');
+
+    // 后加入的观看者先收到最近一帧
+    const unwatchB = await service.watch(page as any, b.viewer);
+    page.sessions[0].frame('frame-2');
+
+    expect(page.sessions).toHaveLength(1);
+    expect(a.frames).toEqual(['frame-1', 'frame-2']);
+    expect(b.frames).toEqual(['frame-1', 'frame-2']);
+    expect(page.sessions[0].sent).toContain('Page.screencastFrameAck');
+
+    await unwatchA();
+    expect(page.sessions[0].sent).not.toContain('Page.stopScreencast');
+
+    await unwatchB();
+    expect(page.sessions[0].sent).toContain('Page.stopScreencast');
+    expect(page.sessions[0].detached).toBe(true);
+  });
+
+  it('页面关闭时通知所有观看者', async () => {
+    const service = new ScreencastService();
+    const page = new FakePage();
+    const { viewer } = createViewer();
+
+    await service.watch(page as any, viewer);
+    page.close();
+
+    expect(viewer.ended).toBe(true);
+    await expect(service.watch(page as any, createViewer().viewer)).rejects.toThrow('页面已关闭');
+  });
+
+  it('开始录屏期间页面关闭时不再加入观看者', async () => {
+    const service = new ScreencastService();
+    const page = new FakePage();
+    const { viewer } = createViewer();
+
+    // 开始录屏的请求发出后页面立即关闭
+    const newCDPSession = page.context().newCDPSession;
+    jest.spyOn(page, 'context').mockReturnValue({
+      newCDPSession: async () => {
+        const session = await newCDPSession();
+        jest.spyOn(session, 'send').mockImplementation(async () => page.close());
+        return session;
+      },
+    });
+
+    await expect(service.watch(page as any, viewer)).rejects.toThrow('页面已关闭');
+  });
+});
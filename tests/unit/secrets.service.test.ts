@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseMasterKey, loadMasterKey, SecretCipher, secrets } from '../../src/services/secrets.service';
+import { CookieStorageService } from '../../src/services/cookie.storage';
+
+describe('Secrets Service', () => {
+  const key = crypto.randomBytes(32);
+
+  it('应该解析十六进制和 base64 主密钥', () => {
+    expect(parseMasterKey(key.toString('hex'))).toEqual(key);
+    expect(parseMasterKey(` ${key.toString('base64')}\n`)).toEqual(key);
+    expect(() => parseMasterKey('short')).toThrow('32 字节');
+  });
+
+  it('未配置主密钥时返回 null，环境变量优先于密钥文件', () => {
+    expect(loadMasterKey({}, undefined)).toBeNull();
+    expect(loadMasterKey({ SPO_SECRET_KEY: key.toString('hex') }, '/not/exists.key')).toEqual(key);
+    expect(() => loadMasterKey({}, '/not/exists.key')).toThrow('主密钥文件不存在');
+  });
+
+  it('应该加解密，密钥不一致或数据被篡改时失败', () => {
+    const cipher = new SecretCipher(key);
+    const envelope = cipher.encrypt('webdav-password');
+
+    expect(envelope).not.toContain('webdav-password');
+    expect(cipher.decrypt(envelope)).toBe('webdav-password');
+    expect(() => new SecretCipher(crypto.randomBytes(32)).decrypt(envelope)).toThrow('其他主密钥');
+
+    const parts = envelope.split(':');
+    parts[5] = Buffer.from('tampered').toString('base64');
+    expect(() => cipher.decrypt(parts.join(':'))).toThrow('解密失败');
+  });
+
+  describe('Cookie 文件加密', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'spo-secrets-'));
+    });
+
+    afterEach(() => {
+      secrets.useKey(null);
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+      jest.restoreAllMocks();
+    });
+
+    it('配置主密钥后加密保存登录状态，读取时自动解密', () => {
+      const filePath = path.join(tmpDir, 'account.json');
+      const cookies = [{ name: 'sessionid', value: 'secret-session' }] as any;
+
+      // 已有的明文文件可以读取，更新时加密
+      fs.writeFileSync(filePath, JSON.stringify({ platform: 'douyin', id: '1', cookies: [], origins: [] }));
+      secrets.useKey(key);
+      expect(CookieStorageService.updateCookieFile(filePath, cookies, [])).toBe(true);
+
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      expect(stored.platform).toBe('douyin');
+      expect(stored.cookies).toBeUndefined();
+      expect(JSON.stringify(stored)).not.toContain('secret-session');
+      expect(CookieStorageService.readCookieFile(filePath)?.cookies).toEqual(cookies);
+
+      // 没有主密钥时无法读取
+      secrets.useKey(null);
+      expect(CookieStorageService.readCookieFile(filePath)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { ThemeService } from '../../src/services/theme.service';
+import { UploadService } from '../../src/uploaders/upload.service';
+
+// 资源库依赖 ESM 模块且需要数据库，测试中不使用
+jest.mock('../../src/resources/resource.service', () => ({
+  ResourceService: class {},
+}));
+
+const TASK = { id: 1, archiveThemeId: 7, libraryId: 2, resourcePath: '/videos/a.mp4' };
+
+describe('Theme Auto Archive', () => {
+  let service: ThemeService;
+  let archiveSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    service = new ThemeService();
+    archiveSpy = jest.spyOn(service, 'archiveVideo').mockResolvedValue(undefined);
+    jest.spyOn(UploadService.prototype, 'getTask').mockResolvedValue(TASK as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('同一视频的其他任务还在执行时不归档', async () => {
+    jest.spyOn(UploadService.prototype, 'getArchiveTasks').mockResolvedValue([
+      { id: 1, status: 'success' },
+      { id: 2, status: 'scheduled' },
+    ]);
+
+    expect(await service.archivePublishedTask(1)).toBe(false);
+    expect(archiveSpy).not.toHaveBeenCalled();
+  });
+
+  it('所有任务结束且有任务成功后归档一次', async () => {
+    jest.spyOn(UploadService.prototype, 'getArchiveTasks').mockResolvedValue([
+      { id: 1, status: 'success' },
+      { id: 2, status: 'failed' },
+    ]);
+    const claimSpy = jest.spyOn(UploadService.prototype, 'claimArchive')
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false);
+
+    expect(await service.archivePublishedTask(1)).toBe(true);
+    expect(await service.archivePublishedTask(2)).toBe(false);
+
+    expect(claimSpy).toHaveBeenCalledWith([1, 2], 7);
+    expect(archiveSpy).toHaveBeenCalledTimes(1);
+    expect(archiveSpy).toHaveBeenCalledWith(7, 2, '/videos/a.mp4');
+  });
+
+  it('没有任务发布成功时不归档', async () => {
+    jest.spyOn(UploadService.prototype, 'getArchiveTasks').mockResolvedValue([
+      { id: 1, status: 'failed' },
+      { id: 2, status: 'cancelled' },
+    ]);
+
+    expect(await service.archivePublishedTask(1)).toBe(false);
+    expect(archiveSpy).not.toHaveBeenCalled();
+  });
+
+  it('启动时归档服务停止期间已结束的任务，同一视频只检查一次', async () => {
+    jest.spyOn(UploadService.prototype, 'getTasksAwaitingArchive').mockResolvedValue([
+      { id: 1, archiveThemeId: 7, libraryId: 2, resourcePath: '/videos/a.mp4' },
+      { id: 2, archiveThemeId: 7, libraryId: 2, resourcePath: '/videos/a.mp4' },
+      { id: 3, archiveThemeId: 7, libraryId: 2, resourcePath: '/videos/b.mp4' },
+    ]);
+    const archiveTaskSpy = jest.spyOn(service, 'archivePublishedTask')
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false);
+
+    expect(await service.archiveFinishedTasks()).toBe(1);
+    expect(archiveTaskSpy.mock.calls.map(([id]) => id)).toEqual([2, 3]);
+  });
+});
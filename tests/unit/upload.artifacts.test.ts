@@ -0,0 +1,50 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  getAttemptArtifactDir,
+  listTaskArtifacts,
+  resolveArtifactFile,
+} from '../../src/uploaders/upload.artifacts';
+
+describe('Upload Artifacts', () => {
+  // 使用不会与真实任务冲突的任务ID
+  const taskId = 987654321;
+  const taskDir = path.dirname(getAttemptArtifactDir(taskId, 1));
+
+  beforeAll(() => {
+    for (const attempt of [2, 1]) {
+      const dir = getAttemptArtifactDir(taskId, attempt);
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, 'failure.json'), '{}');
+    }
+    fs.writeFileSync(path.join(getAttemptArtifactDir(taskId, 1), 'notes.txt'), 'x');
+  });
+
+  afterAll(() => {
+    fs.rmSync(taskDir, { recursive: true, force: true });
+  });
+
+  it('应该按执行次数列出现场文件', () => {
+    const artifacts = listTaskArtifacts(taskId);
+
+    expect(artifacts.map(a => a.attemptNumber)).toEqual([1, 2]);
+    expect(artifacts[0].files).toHaveLength(1);
+    expect(artifacts[0].files[0]).toMatchObject({ name: 'failure.json', size: 2 });
+  });
+
+  it('没有现场文件时应该返回空列表', () => {
+    expect(listTaskArtifacts(taskId + 1)).toEqual([]);
+  });
+
+  it('应该拒绝访问执行目录之外的文件', () => {
+    expect(resolveArtifactFile(taskId, 1, 'failure.json')).toBe(path.join(getAttemptArtifactDir(taskId, 1), 'failure.json'));
+    expect(resolveArtifactFile(taskId, 1, '../attempt_2/failure.json')).toBeNull();
+    expect(resolveArtifactFile(taskId, 1, 'missing.png')).toBeNull();
+  });
+
+  it('只允许访问已知的现场文件', () => {
+    expect(resolveArtifactFile(taskId, 1, 'notes.txt')).toBeNull();
+    expect(resolveArtifactFile(taskId, 2, 'intervention.png')).toBeNull();
+    expect(resolveArtifactFile(taskId, 2, 'failure.json')).toBe(path.join(getAttemptArtifactDir(taskId, 2), 'failure.json'));
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  parseCoverOption,
+  toCoverFields,
+  fromCoverFields,
+  getCandidateTimes,
+  pickBestFrame,
+} from '../../src/uploaders/upload.cover';
+
+// 资源库依赖 ESM 模块且需要数据库，测试中不使用
+jest.mock('../../src/resources/resource.service', () => ({
+  ResourceService: class {},
+}));
+
+describe('Upload Cover', () => {
+  describe('parseCoverOption', () => {
+    it('未传封面时返回 undefined', () => {
+      expect(parseCoverOption(undefined)).toBeUndefined();
+      expect(parseCoverOption(null)).toBeUndefined();
+    });
+
+    it('应该解析三种封面来源', () => {
+      expect(parseCoverOption({ source: 'library', libraryId: '2', path: '/covers/a.jpg' }))
+        .toEqual({ source: 'library', libraryId: 2, path: '/covers/a.jpg' });
+      expect(parseCoverOption({ source: 'frame', time: '3.5' })).toEqual({ source: 'frame', time: 3.5 });
+      expect(parseCoverOption({ source: 'auto', time: 3 })).toEqual({ source: 'auto' });
+    });
+
+    it('参数不合法时应该抛出异常', () => {
+      expect(() => parseCoverOption({ source: 'url' })).toThrow('封面来源');
+      expect(() => parseCoverOption({ source: 'library' })).toThrow('path');
+      expect(() => parseCoverOption({ source: 'frame', time: -1 })).toThrow('time');
+    });
+  });
+
+  it('封面设置和任务字段应该可以互相转换', () => {
+    const cover = { source: 'frame' as const, time: 12 };
+    const fields = toCoverFields(cover);
+
+    expect(fields).toEqual({ coverSource: 'frame', coverLibraryId: null, coverPath: null, coverTime: 12 });
+    expect(fromCoverFields(fields)).toEqual({ source: 'frame', libraryId: undefined, path: undefined, time: 12 });
+    expect(fromCoverFields(toCoverFields(undefined))).toBeUndefined();
+  });
+
+  it('候选帧应该均匀分布并避开片头片尾', () => {
+    expect(getCandidateTimes(70, 6)).toEqual([10, 20, 30, 40, 50, 60]);
+    expect(getCandidateTimes(undefined)).toEqual([1]);
+  });
+
+  it('应该选择 JPEG 最大（细节最多）的画面', () => {
+    const best = pickBestFrame([
+      { time: 1, image: Buffer.alloc(100) },
+      { time: 2, image: Buffer.alloc(300) },
+      { time: 3, image: Buffer.alloc(200) },
+    ]);
+
+    expect(best?.time).toBe(2);
+    expect(pickBestFrame([])).toBeUndefined();
+  });
+});
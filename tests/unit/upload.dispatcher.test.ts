@@ -0,0 +1,67 @@
+import { uploadDispatcher } from '../../src/uploaders/upload.dispatcher';
+import { UploadService } from '../../src/uploaders/upload.service';
+import { UploadResult } from '../../src/uploaders/base/uploader.types';
+
+// 资源库依赖 ESM 模块且需要数据库，测试中不使用
+jest.mock('../../src/resources/resource.service', () => ({
+  ResourceService: class {},
+}));
+
+// 等待后台执行的任务结束
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Upload Dispatcher', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('应该执行到期的任务', async () => {
+    const getDueTasks = jest.spyOn(UploadService.prototype, 'getDueTasks')
+      .mockResolvedValue([{ id: 2 }, { id: 3 }] as any);
+    const executeTask = jest.spyOn(UploadService.prototype, 'executeTask')
+      .mockResolvedValue({ success: true });
+
+    expect(await uploadDispatcher.dispatchDueTasks(3)).toBe(2);
+    expect(getDueTasks).toHaveBeenCalledWith(3, []);
+    expect(executeTask.mock.calls.map(([id]) => id)).toEqual([2, 3]);
+
+    await flush();
+    expect(uploadDispatcher.getRunningTasks()).toEqual([]);
+  });
+
+  it('扫描重叠或任务仍在执行时不会重复执行同一任务', async () => {
+    let releaseScan!: () => void;
+    jest.spyOn(UploadService.prototype, 'getDueTasks').mockImplementation(async () => {
+      await new Promise<void>(resolve => {
+        releaseScan = resolve;
+      });
+      return [{ id: 1 }] as any;
+    });
+
+    let finishTask!: (result: UploadResult) => void;
+    const executeTask = jest.spyOn(UploadService.prototype, 'executeTask').mockImplementation(
+      () => new Promise(resolve => {
+        finishTask = resolve;
+      })
+    );
+
+    // 上一次扫描尚未结束时跳过
+    const first = uploadDispatcher.dispatchDueTasks(1);
+    expect(await uploadDispatcher.dispatchDueTasks(1)).toBe(0);
+    releaseScan();
+    expect(await first).toBe(1);
+
+    // 任务执行期间没有空闲名额
+    expect(await uploadDispatcher.dispatchDueTasks(1)).toBe(0);
+    expect(executeTask).toHaveBeenCalledTimes(1);
+    expect(uploadDispatcher.getRunningTasks()).toEqual([1]);
+
+    finishTask({ success: true });
+    await flush();
+    expect(uploadDispatcher.getRunningTasks()).toEqual([]);
+  });
+});
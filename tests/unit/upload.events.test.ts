@@ -0,0 +1,53 @@
+import { uploadEvents, UploadEvent } from '../../src/uploaders/upload.events';
+
+describe('Upload Event Bus', () => {
+  it('应该只推送订阅的任务的事件', () => {
+    const received: UploadEvent[] = [];
+    const unsubscribe = uploadEvents.subscribe(event => received.push(event), [1]);
+
+    uploadEvents.emitStatus(1, 'processing');
+    uploadEvents.emitStatus(2, 'processing');
+    unsubscribe();
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ type: 'status', taskId: 1, status: 'processing' });
+  });
+
+  it('取消订阅后不应该再收到事件', () => {
+    const listener = jest.fn();
+    const unsubscribe = uploadEvents.subscribe(listener);
+
+    uploadEvents.emitProgress(1, { status: 'uploading', percentage: 10, message: '上传中' });
+    unsubscribe();
+    uploadEvents.emitProgress(1, { status: 'uploading', percentage: 20, message: '上传中' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('结果事件应该去掉 Error 对象并保留错误信息', () => {
+    const received: UploadEvent[] = [];
+    const unsubscribe = uploadEvents.subscribe(event => received.push(event));
+
+    uploadEvents.emitResult(3, { success: false, error: new Error('上传超时') });
+    unsubscribe();
+
+    expect(received[0]).toMatchObject({
+      type: 'result',
+      taskId: 3,
+      result: { success: false, message: '上传超时' },
+    });
+    expect((received[0] as any).result.error).toBeUndefined();
+  });
+
+  it('订阅者抛出异常不应该影响发布者', () => {
+    const unsubscribe = uploadEvents.subscribe(() => {
+      throw new Error('订阅者异常');
+    });
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(() => uploadEvents.emitStatus(1, 'failed')).not.toThrow();
+
+    errorSpy.mockRestore();
+    unsubscribe();
+  });
+});
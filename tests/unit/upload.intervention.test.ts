@@ -0,0 +1,34 @@
+import { parseInterventionInput, resolveInterventionPolicy } from '../../src/uploaders/upload.intervention';
+
+describe('Upload Intervention', () => {
+  it('应该只保留已知字段并补充默认值', () => {
+    expect(parseInterventionInput({ type: 'click', x: 10, y: 20, extra: true })).toEqual({
+      type: 'click',
+      x: 10,
+      y: 20,
+      button: 'left',
+    });
+    expect(parseInterventionInput({ type: 'drag', from: { x: 1, y: 2 }, to: { x: 200, y: 2 } })).toEqual({
+      type: 'drag',
+      from: { x: 1, y: 2 },
+      to: { x: 200, y: 2 },
+      steps: 25,
+    });
+    expect(parseInterventionInput({ type: 'scroll', deltaY: 300 })).toEqual({ type: 'scroll', deltaX: 0, deltaY: 300 });
+    expect(parseInterventionInput({ type: 'press', key: ' Enter ' })).toEqual({ type: 'press', key: 'Enter' });
+  });
+
+  it('操作不合法时应该抛出异常', () => {
+    expect(() => parseInterventionInput(null)).toThrow('操作必须是对象');
+    expect(() => parseInterventionInput({ type: 'hover' })).toThrow('type');
+    expect(() => parseInterventionInput({ type: 'click', x: -1, y: 0 })).toThrow('坐标');
+    expect(() => parseInterventionInput({ type: 'click', x: 1, y: 1, button: 'back' })).toThrow('button');
+    expect(() => parseInterventionInput({ type: 'drag', from: { x: 1, y: 1 } })).toThrow('to');
+    expect(() => parseInterventionInput({ type: 'type', text: '' })).toThrow('text');
+  });
+
+  it('未配置时使用默认等待策略', () => {
+    expect(resolveInterventionPolicy(undefined)).toEqual({ timeoutMinutes: 15, pollIntervalSeconds: 2 });
+    expect(resolveInterventionPolicy({ timeoutMinutes: 5 })).toEqual({ timeoutMinutes: 5, pollIntervalSeconds: 2 });
+  });
+});
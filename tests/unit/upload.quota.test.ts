@@ -0,0 +1,85 @@
+import { resolvePublishQuota, evaluatePublishQuota } from '../../src/uploaders/upload.quota';
+
+describe('Upload Publish Quota', () => {
+  const quotaConfig = {
+    default: { maxConcurrentUploads: 1 },
+    platforms: { douyin: { maxDailyUploads: 10, minPublishIntervalMinutes: 30 } },
+  };
+
+  describe('resolvePublishQuota', () => {
+    it('账号未设置时应该使用平台配置', () => {
+      const quota = resolvePublishQuota({
+        platform: 'douyin',
+        maxDailyUploads: null,
+        minPublishIntervalMinutes: null,
+        maxConcurrentUploads: null,
+      }, quotaConfig);
+
+      expect(quota).toEqual({
+        maxDailyUploads: 10,
+        minPublishIntervalMinutes: 30,
+        maxConcurrentUploads: 1,
+      });
+    });
+
+    it('账号设置应该覆盖平台配置', () => {
+      const quota = resolvePublishQuota({
+        platform: 'douyin',
+        maxDailyUploads: 3,
+        minPublishIntervalMinutes: 0,
+        maxConcurrentUploads: null,
+      }, quotaConfig);
+
+      expect(quota.maxDailyUploads).toBe(3);
+      expect(quota.minPublishIntervalMinutes).toBe(0);
+      expect(quota.maxConcurrentUploads).toBe(1);
+    });
+  });
+
+  describe('evaluatePublishQuota', () => {
+    const now = new Date(2024, 0, 1, 12, 0, 0);
+
+    it('未超出限制时应该允许发布', () => {
+      const result = evaluatePublishQuota(
+        { maxDailyUploads: 10, minPublishIntervalMinutes: 30, maxConcurrentUploads: 1 },
+        { uploadsToday: 2, lastPublishedAt: new Date(2024, 0, 1, 11, 0, 0), runningUploads: 0 },
+        now
+      );
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('达到每日上限时应该推迟到第二天', () => {
+      const result = evaluatePublishQuota(
+        { maxDailyUploads: 2 },
+        { uploadsToday: 2, runningUploads: 0 },
+        now
+      );
+
+      expect(result.allowed).toBe(false);
+      expect(result.retryAt).toEqual(new Date(2024, 0, 2, 0, 0, 0));
+    });
+
+    it('发布间隔不足时应该推迟到间隔结束', () => {
+      const result = evaluatePublishQuota(
+        { minPublishIntervalMinutes: 30 },
+        { uploadsToday: 1, lastPublishedAt: new Date(2024, 0, 1, 11, 50, 0), runningUploads: 0 },
+        now
+      );
+
+      expect(result.allowed).toBe(false);
+      expect(result.retryAt).toEqual(new Date(2024, 0, 1, 12, 20, 0));
+    });
+
+    it('并发已满时应该拒绝发布', () => {
+      const result = evaluatePublishQuota(
+        { maxConcurrentUploads: 1 },
+        { uploadsToday: 0, runningUploads: 1 },
+        now
+      );
+
+      expect(result.allowed).toBe(false);
+      expect(result.retryAt!.getTime()).toBeGreaterThan(now.getTime());
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { resolveRetryPolicy, calculateRetryDelay, DEFAULT_RETRY_POLICY } from '../../src/uploaders/upload.retry';
+
+describe('Upload Retry Policy', () => {
+  describe('resolveRetryPolicy', () => {
+    it('未配置平台策略时应该使用默认策略', () => {
+      const policy = resolveRetryPolicy('bilibili', {
+        default: DEFAULT_RETRY_POLICY,
+        platforms: { douyin: { maxRetries: 5 } },
+      });
+
+      expect(policy).toEqual(DEFAULT_RETRY_POLICY);
+    });
+
+    it('平台配置应该覆盖默认配置', () => {
+      const policy = resolveRetryPolicy('Douyin', {
+        default: { maxRetries: 1, baseDelaySeconds: 60, maxDelaySeconds: 600, multiplier: 3 },
+        platforms: { douyin: { maxRetries: 5 } },
+      });
+
+      expect(policy).toEqual({
+        maxRetries: 5,
+        baseDelaySeconds: 60,
+        maxDelaySeconds: 600,
+        multiplier: 3,
+      });
+    });
+  });
+
+  describe('calculateRetryDelay', () => {
+    const policy = { maxRetries: 5, baseDelaySeconds: 60, maxDelaySeconds: 300, multiplier: 2 };
+
+    it('应该按指数增长', () => {
+      expect(calculateRetryDelay(policy, 0)).toBe(60 * 1000);
+      expect(calculateRetryDelay(policy, 1)).toBe(120 * 1000);
+      expect(calculateRetryDelay(policy, 2)).toBe(240 * 1000);
+    });
+
+    it('不应该超过最长等待时间', () => {
+      expect(calculateRetryDelay(policy, 3)).toBe(300 * 1000);
+      expect(calculateRetryDelay(policy, 10)).toBe(300 * 1000);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { UploadService } from '../../src/uploaders/upload.service';
+import { UploaderFactory } from '../../src/uploaders/factory';
+import { PlaywrightService } from '../../src/services/playwright.service';
+import { PlatformVideoStatsFactory } from '../../src/platforms';
+import { IUploader } from '../../src/uploaders/base/uploader.interface';
+import { UploadProgress, UploadResult } from '../../src/uploaders/base/uploader.types';
+
+// 资源库依赖 ESM 模块且需要数据库，测试中不使用
+jest.mock('../../src/resources/resource.service', () => ({
+  ResourceService: class {},
+}));
+
+// 内存中的上传任务表，只实现执行任务用到的查询
+const db = {
+  task: null as any,
+  tasks: [] as any[],
+  attemptUpdates: [] as any[],
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: class {
+    uploadTask = {
+      findUnique: async () => db.task && { ...db.task },
+      findUniqueOrThrow: async () => ({ ...db.task }),
+      updateMany: async ({ where, data }: any) => {
+        if (where.status && where.status !== db.task.status) return { count: 0 };
+        Object.assign(db.task, data);
+        return { count: 1 };
+      },
+      count: async () => 0,
+      findFirst: async () => null,
+      findMany: async () => db.tasks.map(task => ({ ...task })),
+    };
+    uploadTaskAttempt = {
+      count: async () => 0,
+      create: async ({ data }: any) => ({ id: 1, ...data }),
+      update: async ({ data }: any) => db.attemptUpdates.push(data),
+      updateMany: async ({ where, data }: any) => db.attemptUpdates.push({ where, data }),
+    };
+  },
+}));
+
+// 上传过程中遇到验证弹窗，人工处理超时后返回可重试的失败
+function createTimeoutUploader(): IUploader {
+  let listener: (progress: UploadProgress) => void = () => undefined;
+  let progress: UploadProgress = { status: 'pending', percentage: 0, message: '' };
+  const report = (next: UploadProgress) => {
+    progress = next;
+    listener(next);
+  };
+
+  return {
+    onProgress: (callback: (progress: UploadProgress) => void) => {
+      listener = callback;
+    },
+    getProgress: () => progress,
+    getIntervention: () => null,
+    upload: async (): Promise<UploadResult> => {
+      report({ status: 'uploading', percentage: 30, message: '上传中' });
+      report({ status: 'needs_attention', percentage: 30, message: '请完成滑块验证' });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return { success: false, retryable: true, message: '等待人工处理超时' };
+    },
+  } as unknown as IUploader;
+}
+
+describe('Upload Service', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    db.tasks = [];
+    db.attemptUpdates = [];
+    db.task = {
+      id: 1,
+      platformId: 1,
+      libraryId: 1,
+      resourcePath: '/videos/a.mp4',
+      title: '测试视频',
+      tags: '',
+      status: 'pending',
+      retryCount: 0,
+      account: { id: 1, platform: 'mock', cookiePath: '/tmp/mock.json' },
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('人工处理超时后按重试策略安排重试', async () => {
+    jest.spyOn(UploaderFactory, 'create').mockReturnValue(createTimeoutUploader());
+
+    const result = await new UploadService().executeTask(1);
+
+    expect(result.success).toBe(false);
+    expect(db.task.status).toBe('scheduled');
+    expect(db.task.retryCount).toBe(1);
+    expect(db.task.nextRetryAt).toBeInstanceOf(Date);
+    expect(db.task.lastError).toBe('等待人工处理超时');
+
+    // 执行记录只结束一次
+    expect(db.attemptUpdates).toHaveLength(1);
+    expect(db.attemptUpdates[0].status).toBe('failed');
+  });
+
+  it('到期任务按到期时间排序，最早到期的先执行', async () => {
+    const at = (minutes: number) => new Date(Date.UTC(2026, 0, 1, 10, minutes));
+    db.tasks = [
+      { id: 1, scheduledAt: at(30), nextRetryAt: null },
+      { id: 2, scheduledAt: at(0), nextRetryAt: at(50) },
+      { id: 3, scheduledAt: null, nextRetryAt: at(10) },
+      { id: 4, scheduledAt: at(10), nextRetryAt: null },
+    ];
+
+    const tasks = await new UploadService().getDueTasks(3);
+
+    expect(tasks.map(task => task.id)).toEqual([3, 4, 1]);
+  });
+
+  it('服务重启后中断的任务标记为失败，并结束执行记录', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    db.task.status = 'needs_attention';
+    db.tasks = [{ id: 1, status: 'needs_attention' }];
+
+    expect(await new UploadService().recoverInterruptedTasks()).toBe(1);
+
+    expect(db.task.status).toBe('failed');
+    expect(db.task.lastError).toBe('服务重启，等待人工处理的上传被中断');
+    expect(db.attemptUpdates).toEqual([{
+      where: { status: 'running', taskId: undefined },
+      data: { status: 'failed', errorMessage: '服务重启，执行被中断', finishedAt: expect.any(Date) },
+    }]);
+  });
+
+  it('确认发布结果时单个任务或账号失败不影响其他任务', async () => {
+    const accounts = [
+      { id: 1, platform: 'douyin', accountName: '账号1', cookiePath: '/tmp/1.json' },
+      { id: 2, platform: 'douyin', accountName: '账号2', cookiePath: '/tmp/2.json' },
+    ];
+    db.tasks = [
+      { id: 1, platformId: 1, account: accounts[0] },
+      { id: 2, platformId: 1, account: accounts[0] },
+      { id: 3, platformId: 2, account: accounts[1] },
+    ];
+    jest.spyOn(PlatformVideoStatsFactory, 'isSupported').mockReturnValue(true);
+    jest.spyOn(PlatformVideoStatsFactory, 'getHandler').mockReturnValue({ findPublishedVideo: jest.fn() } as any);
+    jest.spyOn(PlaywrightService.prototype, 'launchWithCookie').mockImplementation(async (_platform, cookiePath) => {
+      if (cookiePath === '/tmp/2.json') throw new Error('Cookie 文件读取失败');
+      return {} as any;
+    });
+    const closeSpy = jest.spyOn(PlaywrightService.prototype, 'closeBrowser').mockResolvedValue(undefined);
+    const verifySpy = jest.spyOn(UploadService.prototype as any, 'verifyTask')
+      .mockRejectedValueOnce(new Error('作品列表接口请求失败'))
+      .mockResolvedValueOnce('success');
+
+    expect(await new UploadService().verifyPendingTasks()).toEqual({ checked: 1, success: 1, failed: 0 });
+    expect(verifySpy.mock.calls.map(([task]: any) => task.id)).toEqual([1, 2]);
+    expect(closeSpy).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,41 @@
+import {
+  canTransition,
+  assertTransition,
+  isUploadTaskStatus,
+} from '../../src/uploaders/upload.state';
+
+describe('Upload Task State Machine', () => {
+  it('应该允许正常的执行流程', () => {
+    expect(canTransition('pending', 'processing')).toBe(true);
+    expect(canTransition('scheduled', 'processing')).toBe(true);
+    expect(canTransition('processing', 'success')).toBe(true);
+    expect(canTransition('processing', 'scheduled')).toBe(true);
+  });
+
+  it('不应该允许重新执行已成功的任务', () => {
+    expect(canTransition('success', 'processing')).toBe(false);
+    expect(() => assertTransition('success', 'processing')).toThrow('任务已成功，不能变更为上传中');
+  });
+
+  it('草稿和暂停的任务不能直接执行', () => {
+    expect(canTransition('draft', 'processing')).toBe(false);
+    expect(canTransition('paused', 'processing')).toBe(false);
+  });
+
+  it('等待人工处理的任务只能继续上传、失败或取消', () => {
+    expect(canTransition('processing', 'needs_attention')).toBe(true);
+    expect(canTransition('needs_attention', 'processing')).toBe(true);
+    expect(canTransition('needs_attention', 'cancelled')).toBe(true);
+    expect(canTransition('needs_attention', 'success')).toBe(false);
+    expect(canTransition('needs_attention', 'scheduled')).toBe(false);
+  });
+
+  it('已取消的任务不能再被标记为失败', () => {
+    expect(canTransition('cancelled', 'failed')).toBe(false);
+  });
+
+  it('未知状态不允许任何流转', () => {
+    expect(isUploadTaskStatus('unknown')).toBe(false);
+    expect(canTransition('unknown', 'pending')).toBe(false);
+  });
+});
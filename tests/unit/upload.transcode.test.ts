@@ -0,0 +1,98 @@
+import {
+  DEFAULT_TRANSCODE_PROFILE,
+  resolveTranscodeProfile,
+  getTargetSize,
+  getTranscodeReasons,
+  buildVideoFilters,
+  buildOutputOptions,
+} from '../../src/uploaders/upload.transcode';
+
+describe('Upload Transcode', () => {
+  const profile = { ...DEFAULT_TRANSCODE_PROFILE, loudnorm: false };
+  const compliant = {
+    codec: 'h264',
+    width: 1080,
+    height: 1920,
+    bitrate: 5000000,
+    frameRate: 30,
+    avgFrameRate: 30,
+    hasAudio: true,
+  };
+
+  describe('resolveTranscodeProfile', () => {
+    it('平台配置应该覆盖默认配置', () => {
+      const resolved = resolveTranscodeProfile('Douyin', {
+        enabled: true,
+        default: { videoBitrateKbps: 4000 },
+        platforms: { douyin: { aspect: 'pad', loudnorm: true } },
+      });
+
+      expect(resolved.videoBitrateKbps).toBe(4000);
+      expect(resolved.aspect).toBe('pad');
+      expect(resolved.loudnorm).toBe(true);
+      expect(resolved.videoCodec).toBe('h264');
+    });
+  });
+
+  describe('getTranscodeReasons', () => {
+    it('符合配置的视频不需要转码', () => {
+      expect(getTranscodeReasons(compliant, profile)).toEqual([]);
+    });
+
+    it('HEVC、可变帧率、4K 和高码率视频需要转码', () => {
+      const reasons = getTranscodeReasons({
+        codec: 'hevc',
+        width: 2160,
+        height: 3840,
+        bitrate: 40000000,
+        frameRate: 30,
+        avgFrameRate: 29.41,
+        hasAudio: true,
+      }, profile);
+
+      expect(reasons).toHaveLength(4);
+      expect(reasons[0]).toContain('hevc');
+      expect(reasons[1]).toContain('可变帧率');
+    });
+
+    it('补边模式下横屏视频需要转码，响度标准化只对有音轨的视频生效', () => {
+      const landscape = { ...compliant, width: 1920, height: 1080, hasAudio: false };
+      const reasons = getTranscodeReasons(landscape, { ...profile, aspect: 'pad', loudnorm: true });
+
+      expect(reasons).toEqual(['画面 1920x1080 补边为 1080x1920']);
+    });
+  });
+
+  describe('getTargetSize', () => {
+    it('保持比例时横屏视频按长边和短边缩小，宽高为偶数', () => {
+      expect(getTargetSize({ width: 3840, height: 2160, hasAudio: false }, profile))
+        .toEqual({ width: 1920, height: 1080 });
+      expect(getTargetSize({ width: 1281, height: 721, hasAudio: false }, profile))
+        .toEqual({ width: 1280, height: 720 });
+    });
+  });
+
+  describe('buildOutputOptions', () => {
+    it('补边模式应该缩放后补边到目标画面', () => {
+      const filters = buildVideoFilters(compliant, { ...profile, aspect: 'pad' });
+
+      expect(filters[0]).toBe('scale=1080:1920:force_original_aspect_ratio=decrease');
+      expect(filters[1]).toContain('pad=1080:1920');
+      expect(filters).toContain('fps=30');
+    });
+
+    it('HEVC 和响度标准化参数', () => {
+      const options = buildOutputOptions(compliant, { ...profile, videoCodec: 'hevc', loudnorm: true });
+
+      expect(options).toEqual(expect.arrayContaining(['libx265', 'hvc1', '-af']));
+      expect(options[options.indexOf('-af') + 1]).toBe('loudnorm=I=-14:TP=-1.5:LRA=11');
+    });
+
+    it('没有音轨时不输出音频', () => {
+      const options = buildOutputOptions({ ...compliant, hasAudio: false }, profile);
+
+      expect(options).toContain('-an');
+      expect(options).not.toContain('-c:a');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { evaluatePublishRules, formatViolations } from '../../src/uploaders/upload.validation';
+import { DouyinCapabilities } from '../../src/uploaders/platforms/douyin/douyin.config';
+
+// 资源库依赖 ESM 模块且需要数据库，测试中不使用
+jest.mock('../../src/resources/resource.service', () => ({
+  ResourceService: class {},
+}));
+
+describe('Upload Validation', () => {
+  const goodMedia = {
+    duration: 30,
+    width: 1080,
+    height: 1920,
+    bitrate: 4000000,
+    codec: 'h264',
+    size: 20 * 1024 * 1024,
+  };
+
+  it('符合规则的视频应该通过且没有警告', () => {
+    const report = evaluatePublishRules('douyin', DouyinCapabilities, {
+      title: '今天的日常',
+      tags: ['生活', '日常'],
+      media: goodMedia,
+    });
+
+    expect(report.valid).toBe(true);
+    expect(report.violations).toEqual([]);
+    expect(report.warnings).toEqual([]);
+  });
+
+  it('标题超长、时长超限、编码不支持应该是违规项', () => {
+    const report = evaluatePublishRules('douyin', DouyinCapabilities, {
+      title: '标'.repeat(DouyinCapabilities.maxTitleLength! + 1),
+      tags: [],
+      media: { ...goodMedia, duration: 2 * 3600, codec: 'mpeg4' },
+    });
+
+    expect(report.valid).toBe(false);
+    expect(report.violations.map(v => v.field).sort()).toEqual(['codec', 'duration', 'title']);
+    expect(formatViolations(report)).toContain('标题 31 字');
+  });
+
+  it('启用转码时编码和分辨率问题降为警告', () => {
+    const report = evaluatePublishRules('douyin', DouyinCapabilities, {
+      title: '4K 视频',
+      tags: [],
+      media: { ...goodMedia, width: 4320, height: 7680, codec: 'av1' },
+      transcode: true,
+    });
+
+    expect(report.valid).toBe(true);
+    expect(report.warnings.map(w => w.field).sort()).toEqual(['codec', 'resolution']);
+    expect(report.warnings[0].message).toContain('自动转码');
+  });
+
+  it('横屏、低分辨率、低码率和话题过多只产生警告', () => {
+    const report = evaluatePublishRules('douyin', DouyinCapabilities, {
+      title: '横屏视频',
+      tags: ['a', 'b', 'c', 'd', 'e', 'f'],
+      media: { ...goodMedia, width: 640, height: 360, bitrate: 500000 },
+    });
+
+    expect(report.valid).toBe(true);
+    expect(report.warnings.map(w => w.field).sort()).toEqual(['bitrate', 'orientation', 'resolution', 'tags']);
+  });
+
+  it('无法读取视频信息时应该跳过媒体检查并给出警告', () => {
+    const report = evaluatePublishRules('douyin', DouyinCapabilities, {
+      title: '',
+      tags: [],
+      media: null,
+    });
+
+    expect(report.valid).toBe(true);
+    expect(report.warnings.map(w => w.field)).toEqual(['title', 'resource']);
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  matchPublishedVideo,
+  normalizeTitle,
+  resolveVerificationOutcome,
+} from '../../src/uploaders/upload.verification';
+import { PlatformVideoData } from '../../src/types';
+
+const submittedAt = new Date('2026-01-01T10:00:00Z');
+const policy = { waitSeconds: 120, pollIntervalSeconds: 15, matchTimeoutMinutes: 30, reviewTimeoutHours: 48 };
+
+function video(videoId: string, title: string, minutesAfter: number): PlatformVideoData {
+  return {
+    videoId,
+    title,
+    publishTime: new Date(submittedAt.getTime() + minutesAfter * 60 * 1000),
+    metrics: {},
+  } as PlatformVideoData;
+}
+
+describe('Upload Verification', () => {
+  it('normalizeTitle 应该去掉话题和空白', () => {
+    expect(normalizeTitle('周末 去爬山 #旅行 #vlog')).toBe('周末去爬山');
+    expect(normalizeTitle('Hello World')).toBe('helloworld');
+  });
+
+  describe('matchPublishedVideo', () => {
+    const videos = [
+      video('old', '周末去爬山', -60),
+      video('other', '另一个视频', 1),
+      video('new', '周末去爬山 #旅行', 2),
+      video('later', '周末去爬山', 5),
+    ];
+
+    it('应该按标题匹配提交发布之后最早的视频', () => {
+      expect(matchPublishedVideo(videos, { title: '周末去爬山', publishedAfter: submittedAt })?.videoId).toBe('new');
+    });
+
+    it('标题被截断时也能匹配', () => {
+      expect(matchPublishedVideo([video('cut', '周末去', 1)], { title: '周末去爬山', publishedAfter: submittedAt })?.videoId).toBe('cut');
+    });
+
+    it('已知视频ID时按ID匹配', () => {
+      expect(matchPublishedVideo(videos, { videoId: 'later', title: '周末去爬山', publishedAfter: submittedAt })?.videoId).toBe('later');
+      expect(matchPublishedVideo(videos, { videoId: 'missing', title: '周末去爬山', publishedAfter: submittedAt })).toBeUndefined();
+    });
+
+    it('提交发布之前的视频不匹配', () => {
+      expect(matchPublishedVideo([videos[0]], { title: '周末去爬山', publishedAfter: submittedAt })).toBeUndefined();
+    });
+
+    it('跳过其他任务已确认的视频', () => {
+      expect(matchPublishedVideo(videos, { title: '周末去爬山', publishedAfter: submittedAt, excludeVideoIds: ['new'] })?.videoId).toBe('later');
+    });
+
+    it('标题只有话题时不按标题匹配', () => {
+      expect(matchPublishedVideo(videos, { title: '#旅行 #vlog', publishedAfter: submittedAt })).toBeUndefined();
+    });
+  });
+
+  describe('resolveVerificationOutcome', () => {
+    const at = (minutes: number) => new Date(submittedAt.getTime() + minutes * 60 * 1000);
+    const found = (reviewStatus: 'under_review' | 'rejected' | 'published') => ({ videoId: 'v1', reviewStatus });
+
+    it('未找到视频时在超时前继续等待', () => {
+      expect(resolveVerificationOutcome(null, { submittedAt }, policy, at(10)).status).toBe('verifying');
+      expect(resolveVerificationOutcome(null, { submittedAt }, policy, at(31)).status).toBe('failed');
+    });
+
+    it('按审核状态决定任务结果', () => {
+      expect(resolveVerificationOutcome(found('published'), { submittedAt }, policy, at(5)).status).toBe('success');
+      expect(resolveVerificationOutcome(found('rejected'), { submittedAt }, policy, at(5))).toEqual({
+        status: 'failed',
+        message: '平台审核未通过',
+      });
+      expect(resolveVerificationOutcome(found('under_review'), { submittedAt }, policy, at(60)).status).toBe('verifying');
+      expect(resolveVerificationOutcome(found('under_review'), { submittedAt }, policy, at(49 * 60)).status).toBe('failed');
+    });
+
+    it('平台定时发布的视频从计划时间开始计算超时', () => {
+      const timing = { submittedAt, scheduledAt: at(72 * 60) };
+      expect(resolveVerificationOutcome(null, timing, policy, at(72 * 60 + 10)).status).toBe('verifying');
+      expect(resolveVerificationOutcome(found('under_review'), timing, policy, at(100 * 60)).status).toBe('verifying');
+      expect(resolveVerificationOutcome(found('under_review'), timing, policy, at(121 * 60)).status).toBe('failed');
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { UploaderFactory } from '../../src/uploaders/factory';
+import { DouyinUploader } from '../../src/uploaders/platforms/douyin/douyin.uploader';
+import { DouyinCapabilities } from '../../src/uploaders/platforms/douyin/douyin.config';
+import { MockUploader } from '../../src/uploaders/platforms/mock/mock.uploader';
+import { MockCapabilities } from '../../src/uploaders/platforms/mock/mock.config';
+
+// 资源库依赖 ESM 模块且需要数据库，测试中不使用
+jest.mock('../../src/resources/resource.service', () => ({
+  ResourceService: class {},
+}));
+
+describe('Uploader Factory', () => {
+  it('应该注册抖音和模拟平台', () => {
+    expect(UploaderFactory.getSupportedPlatforms()).toEqual(['douyin', 'mock']);
+    expect(UploaderFactory.isSupported('douyin')).toBe(true);
+    expect(UploaderFactory.isSupported('mock')).toBe(true);
+    expect(UploaderFactory.isSupported('kuaishou')).toBe(false);
+  });
+
+  it('按平台创建上传器，不支持的平台抛出异常', () => {
+    expect(UploaderFactory.create('douyin', '/tmp/douyin.json')).toBeInstanceOf(DouyinUploader);
+    expect(UploaderFactory.create('mock', '/tmp/mock.json')).toBeInstanceOf(MockUploader);
+    expect(() => UploaderFactory.create('kuaishou', '/tmp/kuaishou.json')).toThrow('不支持的平台: kuaishou');
+  });
+
+  it('返回各平台的上传能力', () => {
+    expect(UploaderFactory.getCapabilities('douyin')).toBe(DouyinCapabilities);
+    expect(UploaderFactory.getCapabilities('mock')).toBe(MockCapabilities);
+    expect(UploaderFactory.getCapabilities('mock')?.publishOptions).toBeUndefined();
+    expect(UploaderFactory.getCapabilities('kuaishou')).toBeUndefined();
+  });
+
+  it('只有注册了解析函数的平台才解析发布选项', () => {
+    expect(UploaderFactory.parseConfig('douyin', undefined)).toBeUndefined();
+    expect(UploaderFactory.parseConfig('douyin', null)).toBeUndefined();
+    expect(UploaderFactory.parseConfig('douyin', { allowDownload: false, unknown: 1 })).toEqual({ allowDownload: false });
+    expect(() => UploaderFactory.parseConfig('douyin', 'private')).toThrow('发布选项必须是对象');
+
+    expect(UploaderFactory.parseConfig('mock', { allowDownload: false })).toBeUndefined();
+    expect(UploaderFactory.parseConfig('kuaishou', { allowDownload: false })).toBeUndefined();
+  });
+});